@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import DataConsole from "@/pages/DataConsole";
+import SchemaExplorer from "@/pages/SchemaExplorer";
 import BrainVisualization from "@/pages/BrainVisualization";
 import Logs from "@/pages/Logs";
 import Settings from "@/pages/Settings";
@@ -21,6 +22,7 @@ const App = () => (
         <DashboardLayout>
           <Routes>
             <Route path="/" element={<DataConsole />} />
+            <Route path="/schema" element={<SchemaExplorer />} />
             <Route path="/brain" element={<BrainVisualization />} />
             <Route path="/logs" element={<Logs />} />
             <Route path="/settings" element={<Settings />} />
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { SchemaTable } from '@/hooks/useApi';
+import type { CellValue } from '@/lib/changeset';
+import { validateValue } from '@/lib/columns';
+
+export type BulkAction = 'delete' | 'update' | 'duplicate';
+
+export interface BulkUpdate {
+  column: string;
+  value: CellValue;
+}
+
+interface BulkActionDialogProps {
+  action: BulkAction | null;
+  // Rows the action applies to, shown so it can be checked before anything runs
+  count: number;
+  table: SchemaTable | null;
+  staged: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (update?: BulkUpdate) => void;
+}
+
+const TITLES: Record<BulkAction, string> = {
+  delete: 'Delete',
+  update: 'Update',
+  duplicate: 'Duplicate',
+};
+
+export function BulkActionDialog({
+  action,
+  count,
+  table,
+  staged,
+  onOpenChange,
+  onConfirm,
+}: BulkActionDialogProps) {
+  const [column, setColumn] = useState('');
+  const [value, setValue] = useState('');
+  const [isNull, setIsNull] = useState(false);
+  // Keys identify the rows being changed, so they are not offered for updating
+  const columns = table?.columns.filter((candidate) => !candidate.primary_key) ?? [];
+  const columnType = columns.find((candidate) => candidate.name === column)?.type;
+  const error = action === 'update' && column && !isNull ? validateValue(value, columnType) : null;
+  const rows = `${count.toLocaleString()} ${count === 1 ? 'row' : 'rows'}`;
+
+  useEffect(() => {
+    setColumn('');
+    setValue('');
+    setIsNull(false);
+  }, [action]);
+
+  return (
+    <AlertDialog open={action !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="sm:max-w-[480px]">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            {action === 'delete' && <AlertTriangle className="h-5 w-5 text-destructive" />}
+            {action && TITLES[action]} {rows}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {action === 'delete' && `${rows} will be deleted from ${table?.name}.`}
+            {action === 'update' && `Set one column of ${rows} in ${table?.name} to a new value.`}
+            {action === 'duplicate' &&
+              `${rows} will be copied into ${table?.name}, with key columns left to their defaults.`}{' '}
+            {staged
+              ? 'The changes are staged for review.'
+              : action === 'delete' && 'This cannot be undone.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {action === 'update' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-column">Column</Label>
+              <Select value={column} onValueChange={setColumn}>
+                <SelectTrigger id="bulk-column">
+                  <SelectValue placeholder="Choose a column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {columns.map((candidate) => (
+                    <SelectItem key={candidate.name} value={candidate.name}>
+                      {candidate.name}
+                      <span className="ml-2 text-xs text-muted-foreground">{candidate.type}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="bulk-value">Value</Label>
+                <div className="flex items-center gap-2">
+                  <Switch id="bulk-null" checked={isNull} onCheckedChange={setIsNull} />
+                  <Label htmlFor="bulk-null" className="text-sm font-normal">
+                    NULL
+                  </Label>
+                </div>
+              </div>
+              <Input
+                id="bulk-value"
+                value={isNull ? '' : value}
+                onChange={(event) => setValue(event.target.value)}
+                placeholder={isNull ? 'NULL' : undefined}
+                disabled={isNull}
+                className="font-mono"
+              />
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button
+            variant={action === 'delete' ? 'destructive' : 'default'}
+            disabled={action === 'update' && (!column || error !== null)}
+            onClick={() =>
+              onConfirm(action === 'update' ? { column, value: isNull ? null : value } : undefined)
+            }
+          >
+            {action && TITLES[action]} {rows}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import { CalendarIcon } from 'lucide-react';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { columnKind, datePart, validateValue, withDate } from '@/lib/columns';
+import type { CellValue } from '@/lib/changeset';
+import { cn } from '@/lib/utils';
+
+export type CellMove = 'next' | 'previous' | 'down' | 'up' | null;
+
+interface CellEditorProps {
+  initialValue: CellValue;
+  columnType?: string;
+  onCommit: (value: CellValue, move: CellMove) => void;
+  onCancel: () => void;
+}
+
+export function CellEditor({ initialValue, columnType, onCommit, onCancel }: CellEditorProps) {
+  const kind = columnKind(columnType);
+  const [value, setValue] = useState<CellValue>(initialValue);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fieldRef = useRef<HTMLInputElement & HTMLTextAreaElement & HTMLButtonElement>(null);
+  // Browsers may fire blur while the editor unmounts after a commit, which must not repeat it
+  const doneRef = useRef(false);
+  const error = value === null ? null : validateValue(value, columnType);
+  const isValueValid = error === null;
+
+  useEffect(() => {
+    fieldRef.current?.focus();
+    fieldRef.current?.select?.();
+  }, []);
+
+  const finish = (action: () => void) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    action();
+  };
+
+  const commit = (move: CellMove) => {
+    if (isValueValid) finish(() => onCommit(value, move));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      finish(onCancel);
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      commit(event.shiftKey ? 'previous' : 'next');
+    } else if (
+      event.key === 'Enter' &&
+      // JSON is multi-line, so Enter only commits there together with Ctrl or Cmd
+      (kind !== 'json' || event.ctrlKey || event.metaKey)
+    ) {
+      event.preventDefault();
+      commit(event.shiftKey ? 'up' : 'down');
+    }
+  };
+
+  // Focus leaving the editor commits it, or abandons the edit if the value does not parse
+  const handleBlur = (event: React.FocusEvent) => {
+    if (containerRef.current?.contains(event.relatedTarget as Node | null)) return;
+    if (isValueValid) commit(null);
+    else finish(onCancel);
+  };
+
+  const keepFocus = (event: React.MouseEvent) => event.preventDefault();
+  const selectedDate = datePart(value);
+
+  const nullButton = (
+    <Button
+      type="button"
+      variant={value === null ? 'secondary' : 'ghost'}
+      size="sm"
+      className="h-7 shrink-0 px-2 font-mono text-xs"
+      onMouseDown={keepFocus}
+      onClick={() => setValue(null)}
+      disabled={value === null}
+    >
+      NULL
+    </Button>
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+      className="relative flex h-full w-full items-center gap-1 bg-background px-1"
+    >
+      {kind === 'boolean' ? (
+        <div className="flex flex-1 items-center gap-2 px-2">
+          <Switch
+            ref={fieldRef}
+            checked={value === 'true'}
+            onCheckedChange={(checked) => setValue(String(checked))}
+            className={cn(value === null && 'opacity-50')}
+          />
+          <span className="font-mono text-xs text-muted-foreground">{value ?? 'NULL'}</span>
+        </div>
+      ) : kind === 'json' ? (
+        <div className="absolute left-0 top-0 z-10 w-80 space-y-1 rounded-md border bg-popover p-2 shadow-lg">
+          <Textarea
+            ref={fieldRef}
+            value={value ?? ''}
+            onChange={(event) => setValue(event.target.value)}
+            placeholder={value === null ? 'NULL' : '(empty)'}
+            spellCheck={false}
+            className={cn(
+              'min-h-[160px] font-mono text-xs',
+              !isValueValid && 'border-destructive focus-visible:ring-destructive'
+            )}
+          />
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span className={cn(error && 'text-destructive')}>{error ?? 'Ctrl+Enter to save'}</span>
+            {nullButton}
+          </div>
+        </div>
+      ) : (
+        <Input
+          ref={fieldRef}
+          value={value ?? ''}
+          onChange={(event) => setValue(event.target.value)}
+          inputMode={kind === 'number' ? 'decimal' : undefined}
+          placeholder={value === null ? 'NULL' : '(empty)'}
+          title={error ?? undefined}
+          className={cn(
+            'h-7 flex-1 px-2 font-mono text-sm',
+            !isValueValid && 'border-destructive focus-visible:ring-destructive'
+          )}
+        />
+      )}
+      {(kind === 'date' || kind === 'datetime') && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0"
+          onMouseDown={keepFocus}
+          onClick={() => setIsCalendarOpen((open) => !open)}
+        >
+          <CalendarIcon className="h-3 w-3" />
+          <span className="sr-only">Pick a date</span>
+        </Button>
+      )}
+      {kind !== 'json' && nullButton}
+      {isCalendarOpen && (
+        <div className="absolute left-0 top-full z-10 rounded-md border bg-popover shadow-lg">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            defaultMonth={selectedDate}
+            onSelect={(date) => {
+              if (!date) return;
+              setValue((current) => withDate(current, date, kind));
+              setIsCalendarOpen(false);
+              fieldRef.current?.focus();
+            }}
+            initialFocus
+          />
+        </div>
+      )}
+    </div>
+  );
+}
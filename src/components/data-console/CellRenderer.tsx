@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Binary, Braces, ChevronRight, Copy, Maximize2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  cellText,
+  decodeBinary,
+  detectCellKind,
+  downsample,
+  formatTimestamp,
+  hexDump,
+  jsonValue,
+  parseTimestamp,
+  parseVector,
+  toBase64,
+  toHex,
+  vectorStats,
+} from '@/lib/cells';
+import { cn } from '@/lib/utils';
+
+interface CellProps {
+  value: unknown;
+  columnType?: string;
+  relativeTimestamps?: boolean;
+}
+
+// The compact, single-line form shown inside a grid cell
+export function CellContent({ value, columnType, relativeTimestamps = false }: CellProps) {
+  const kind = detectCellKind(value, columnType);
+  switch (kind) {
+    case 'null':
+      return (
+        <span className="rounded bg-muted px-1 text-xs italic text-muted-foreground">NULL</span>
+      );
+    case 'empty':
+      return <span className="text-xs italic text-muted-foreground/60">empty</span>;
+    case 'vector': {
+      const vector = parseVector(value, columnType);
+      return (
+        <span className="flex min-w-0 items-center gap-2">
+          <Sparkline values={vector} />
+          <span className="shrink-0 text-xs text-muted-foreground">[{vector.length}]</span>
+        </span>
+      );
+    }
+    case 'binary': {
+      const bytes = decodeBinary(value, columnType);
+      return (
+        <span className="flex min-w-0 items-center gap-1">
+          <Binary className="h-3 w-3 shrink-0 text-muted-foreground" />
+          <span className="truncate">
+            {'\\x'}
+            {toHex(bytes, 16)}
+          </span>
+          <span className="shrink-0 text-xs text-muted-foreground">
+            {bytes.length.toLocaleString()} B
+          </span>
+        </span>
+      );
+    }
+    case 'json': {
+      const json = jsonValue(value, columnType);
+      return (
+        <span className="flex min-w-0 items-center gap-1">
+          <Braces className="h-3 w-3 shrink-0 text-muted-foreground" />
+          <span className="truncate">{JSON.stringify(json)}</span>
+        </span>
+      );
+    }
+    case 'timestamp': {
+      const date = parseTimestamp(value, columnType);
+      return (
+        <span className="truncate" title={String(value)}>
+          {formatTimestamp(date, relativeTimestamps)}
+        </span>
+      );
+    }
+    case 'boolean':
+      return (
+        <span
+          className={cn(value ? 'text-green-600 dark:text-green-400' : 'text-muted-foreground')}
+        >
+          {String(value)}
+        </span>
+      );
+    case 'number':
+      return <span className="ml-auto truncate tabular-nums">{String(value)}</span>;
+    default:
+      return <span className="truncate">{String(value)}</span>;
+  }
+}
+
+// Opens the full value; the detail view is only built while the popover is open
+export function CellDetailButton({ value, columnType, column }: CellProps & { column: string }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          onClick={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+          className={cn(
+            'ml-1 shrink-0 rounded p-0.5 text-muted-foreground opacity-0 hover:bg-background hover:text-foreground group-hover/cell:opacity-100',
+            open && 'opacity-100'
+          )}
+        >
+          <Maximize2 className="h-3 w-3" />
+          <span className="sr-only">Show full value</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-[480px] p-0"
+        // Events inside the portal still bubble to the row through React
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        {open && <CellDetail value={value} columnType={columnType} column={column} />}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function CellDetail({ value, columnType, column }: CellProps & { column: string }) {
+  const kind = detectCellKind(value, columnType);
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Could not access the clipboard');
+    }
+  };
+
+  let body: React.ReactNode;
+  let copyText = cellText(value, { pretty: true });
+  if (kind === 'json') {
+    const json = jsonValue(value, columnType);
+    copyText = JSON.stringify(json, null, 2);
+    body = (
+      <div className="p-3 font-mono text-xs">
+        <JsonTree value={json} />
+      </div>
+    );
+  } else if (kind === 'vector') {
+    const vector = parseVector(value, columnType);
+    const stats = vectorStats(vector);
+    copyText = JSON.stringify(vector);
+    body = (
+      <div className="space-y-3 p-3">
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="secondary">{stats.dimensions} dimensions</Badge>
+          <Badge variant="secondary">min {stats.min.toFixed(4)}</Badge>
+          <Badge variant="secondary">max {stats.max.toFixed(4)}</Badge>
+          <Badge variant="secondary">norm {stats.norm.toFixed(4)}</Badge>
+        </div>
+        <Sparkline values={vector} width={448} height={48} />
+        <VectorHeatmap values={vector} />
+      </div>
+    );
+  } else if (kind === 'binary') {
+    const bytes = decodeBinary(value, columnType);
+    body = (
+      <Tabs defaultValue="hex" className="p-3">
+        <TabsList className="h-8">
+          <TabsTrigger value="hex" className="text-xs">
+            Hex
+          </TabsTrigger>
+          <TabsTrigger value="base64" className="text-xs">
+            Base64
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="hex">
+          <pre className="whitespace-pre font-mono text-xs">{hexDump(bytes)}</pre>
+        </TabsContent>
+        <TabsContent value="base64">
+          <pre className="whitespace-pre-wrap break-all font-mono text-xs">{toBase64(bytes)}</pre>
+        </TabsContent>
+      </Tabs>
+    );
+    copyText = `\\x${toHex(bytes)}`;
+  } else if (kind === 'timestamp') {
+    const date = parseTimestamp(value, columnType);
+    body = (
+      <dl className="grid grid-cols-[80px_1fr] gap-y-1 p-3 text-sm">
+        <dt className="text-muted-foreground">Value</dt>
+        <dd className="font-mono">{String(value)}</dd>
+        <dt className="text-muted-foreground">Local</dt>
+        <dd className="font-mono">{formatTimestamp(date, false)}</dd>
+        <dt className="text-muted-foreground">UTC</dt>
+        <dd className="font-mono">{date.toISOString()}</dd>
+        <dt className="text-muted-foreground">Relative</dt>
+        <dd>{formatTimestamp(date, true)}</dd>
+      </dl>
+    );
+    copyText = String(value);
+  } else {
+    body = (
+      <pre
+        className={cn(
+          'whitespace-pre-wrap break-words p-3 font-mono text-xs',
+          (kind === 'null' || kind === 'empty') && 'italic text-muted-foreground'
+        )}
+      >
+        {kind === 'empty' ? '(empty string)' : cellText(value)}
+      </pre>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between border-b px-3 py-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium">{column}</p>
+          <p className="text-xs text-muted-foreground">{columnType ?? kind}</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7"
+          onClick={() => copy(copyText)}
+          disabled={kind === 'null'}
+        >
+          <Copy className="mr-1 h-3 w-3" />
+          Copy
+        </Button>
+      </div>
+      <div className="max-h-[360px] overflow-auto">{body}</div>
+    </div>
+  );
+}
+
+export function Sparkline({
+  values,
+  width = 80,
+  height = 16,
+}: {
+  values: number[];
+  width?: number;
+  height?: number;
+}) {
+  const points = downsample(values, Math.max(2, Math.floor(width / 2)));
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const range = max - min || 1;
+  const path = points
+    .map((point, i) => {
+      const x = (i / Math.max(1, points.length - 1)) * width;
+      const y = height - ((point - min) / range) * (height - 2) - 1;
+      return `${i === 0 ? 'M' : 'L'} ${x.toFixed(1)} ${y.toFixed(1)}`;
+    })
+    .join(' ');
+  return (
+    <svg width={width} height={height} className="shrink-0 text-primary">
+      <path d={path} fill="none" stroke="currentColor" strokeWidth={1} />
+    </svg>
+  );
+}
+
+// One square per dimension, blue below zero and red above, scaled to the largest magnitude
+function VectorHeatmap({ values }: { values: number[] }) {
+  const scale = Math.max(...values.map(Math.abs)) || 1;
+  const columns = Math.min(32, values.length);
+  return (
+    <div
+      className="grid gap-px"
+      style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+    >
+      {values.map((value, i) => {
+        const intensity = Math.abs(value) / scale;
+        return (
+          <div
+            key={i}
+            title={`[${i}] ${value}`}
+            className="aspect-square"
+            style={{
+              backgroundColor:
+                value >= 0 ? `rgba(239, 68, 68, ${intensity})` : `rgba(59, 130, 246, ${intensity})`,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export function JsonTree({
+  value,
+  name,
+  depth = 0,
+}: {
+  value: unknown;
+  name?: string;
+  depth?: number;
+}) {
+  const [expanded, setExpanded] = useState(depth < 2);
+  const label = name !== undefined && <span className="text-muted-foreground">{name}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="pl-4">
+        {label}
+        <span
+          className={cn(
+            typeof value === 'string' && 'text-green-600 dark:text-green-400',
+            typeof value === 'number' && 'text-blue-600 dark:text-blue-400',
+            (typeof value === 'boolean' || value === null) && 'text-purple-600 dark:text-purple-400'
+          )}
+        >
+          {JSON.stringify(value)}
+        </span>
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, i) => [String(i), item] as const)
+    : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center hover:text-foreground"
+      >
+        <ChevronRight className={cn('h-3 w-3 transition-transform', expanded && 'rotate-90')} />
+        {label}
+        {open}
+        {!expanded && (
+          <span className="text-muted-foreground">
+            {' '}
+            {entries.length} {entries.length === 1 ? 'item' : 'items'} {close}
+          </span>
+        )}
+      </button>
+      {expanded && (
+        <>
+          <div className="border-l pl-2">
+            {entries.map(([key, item]) => (
+              <JsonTree key={key} name={key} value={item} depth={depth + 1} />
+            ))}
+          </div>
+          <div className="pl-4">{close}</div>
+        </>
+      )}
+    </div>
+  );
+}
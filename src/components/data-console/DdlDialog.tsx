@@ -0,0 +1,60 @@
+import { toast } from 'sonner';
+import { Copy, SquarePen } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { SchemaTable } from '@/hooks/useApi';
+import { buildCreateTableDdl } from '@/lib/schema';
+
+interface DdlDialogProps {
+  table: SchemaTable | null;
+  onOpenChange: (open: boolean) => void;
+  onOpenInEditor: (sql: string) => void;
+}
+
+export function DdlDialog({ table, onOpenChange, onOpenInEditor }: DdlDialogProps) {
+  const ddl = table ? buildCreateTableDdl(table) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(ddl);
+      toast.success('DDL copied');
+    } catch {
+      toast.error('Could not access the clipboard');
+    }
+  };
+
+  return (
+    <Dialog open={table !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>DDL for {table?.name}</DialogTitle>
+          <DialogDescription>
+            Rebuilt from the reported schema; constraints the backend does not report, such as
+            checks and triggers, are not included.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-80 rounded-md border bg-muted/50">
+          <pre className="p-3 font-mono text-xs">{ddl}</pre>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCopy}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button onClick={() => onOpenInEditor(ddl)}>
+            <SquarePen className="mr-2 h-4 w-4" />
+            Open in editor
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
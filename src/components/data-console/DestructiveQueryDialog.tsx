@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { SqlClassification } from '@/lib/sql';
+
+interface DestructiveQueryDialogProps {
+  sql: string | null;
+  classification: SqlClassification | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+export function DestructiveQueryDialog({
+  sql,
+  classification,
+  onOpenChange,
+  onConfirm,
+}: DestructiveQueryDialogProps) {
+  const [typed, setTyped] = useState('');
+  const phrase = classification?.confirmationPhrase ?? '';
+
+  useEffect(() => {
+    setTyped('');
+  }, [sql]);
+
+  return (
+    <AlertDialog open={sql !== null && classification !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="sm:max-w-[560px]">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Confirm destructive query
+          </AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <ul className="list-disc space-y-1 pl-5">
+              {classification?.reasons.map((reason) => <li key={reason}>{reason}</li>)}
+            </ul>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-3 font-mono text-xs">
+          {sql}
+        </pre>
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (typed === phrase) onConfirm();
+          }}
+        >
+          <Label htmlFor="destructive-confirmation">
+            Type <span className="font-mono font-semibold">{phrase}</span> to run it
+          </Label>
+          <Input
+            id="destructive-confirmation"
+            value={typed}
+            onChange={(event) => setTyped(event.target.value)}
+            autoComplete="off"
+            className="font-mono"
+            autoFocus
+          />
+          <AlertDialogFooter className="pt-2">
+            <AlertDialogCancel type="button">Cancel</AlertDialogCancel>
+            <Button type="submit" variant="destructive" disabled={typed !== phrase}>
+              Run query
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ChevronRight, Flame, RefreshCw } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useFetchQuery } from '@/hooks/useApi';
+import {
+  buildExplainQuery,
+  hotNodes,
+  isSeqScan,
+  nodeWeight,
+  parseExplainResult,
+  planWarnings,
+  type ExplainPlan,
+  type PlanNode,
+} from '@/lib/explain';
+import { cn } from '@/lib/utils';
+
+interface ExplainPanelProps {
+  // The statement to explain; null closes the panel
+  sql: string | null;
+  // ANALYZE executes the statement, so it is only offered for reads
+  canAnalyze: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatMs = (ms: number) => (ms < 1 ? `${ms.toFixed(3)} ms` : `${ms.toFixed(1)} ms`);
+
+export function ExplainPanel({ sql, canAnalyze, onOpenChange }: ExplainPanelProps) {
+  const [analyze, setAnalyze] = useState(false);
+  const [buffers, setBuffers] = useState(false);
+  const [plan, setPlan] = useState<ExplainPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { mutateAsync: fetchQuery, isPending } = useFetchQuery();
+
+  const runExplain = useCallback(async () => {
+    if (!sql) return;
+    setError(null);
+    try {
+      const result = await fetchQuery({
+        sql: buildExplainQuery(sql, { analyze: analyze && canAnalyze, buffers }),
+      });
+      setPlan(parseExplainResult(result));
+    } catch (explainError) {
+      setPlan(null);
+      setError(explainError instanceof Error ? explainError.message : 'Explain failed');
+    }
+  }, [analyze, buffers, canAnalyze, fetchQuery, sql]);
+
+  // A different statement starts from an empty panel rather than the previous plan
+  useEffect(() => {
+    setPlan(null);
+    setError(null);
+  }, [sql]);
+
+  useEffect(() => {
+    runExplain();
+  }, [runExplain]);
+
+  const hot = useMemo(() => (plan ? hotNodes(plan) : new Set<string>()), [plan]);
+  const warnings = useMemo(() => (plan ? planWarnings(plan) : []), [plan]);
+  const flagged = useMemo(() => new Set(warnings.map((warning) => warning.nodeId)), [warnings]);
+
+  return (
+    <Sheet open={sql !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-[400px] flex-col sm:w-[720px] sm:max-w-[720px]">
+        <SheetHeader>
+          <SheetTitle>Query Plan</SheetTitle>
+          <SheetDescription className="line-clamp-2 font-mono text-xs">{sql}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="explain-analyze"
+              checked={analyze && canAnalyze}
+              onCheckedChange={setAnalyze}
+              disabled={!canAnalyze}
+            />
+            <Label htmlFor="explain-analyze" className="text-sm">
+              ANALYZE
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="explain-buffers"
+              checked={buffers}
+              onCheckedChange={setBuffers}
+              disabled={!analyze || !canAnalyze}
+            />
+            <Label htmlFor="explain-buffers" className="text-sm">
+              BUFFERS
+            </Label>
+          </div>
+          <Button variant="outline" size="sm" onClick={runExplain} disabled={isPending}>
+            <RefreshCw className={cn('mr-2 h-4 w-4', isPending && 'animate-spin')} />
+            Re-run
+          </Button>
+        </div>
+        {!canAnalyze && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            ANALYZE runs the statement, so it is only available for read-only queries
+          </p>
+        )}
+
+        {isPending && !plan ? (
+          <div className="mt-4 space-y-2">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="mt-4 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+            {error}
+          </p>
+        ) : (
+          plan && (
+            <ScrollArea className="-mx-2 mt-4 flex-1">
+              <div className="space-y-4 px-2">
+                {/* Summary */}
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">Cost {plan.root.totalCost.toFixed(2)}</Badge>
+                  <Badge variant="secondary">
+                    {plan.analyzed ? 'Rows' : 'Estimated rows'}{' '}
+                    {(plan.root.actualRows ?? plan.root.planRows).toLocaleString()}
+                  </Badge>
+                  {plan.planningTime !== null && (
+                    <Badge variant="secondary">Planning {formatMs(plan.planningTime)}</Badge>
+                  )}
+                  {plan.executionTime !== null && (
+                    <Badge variant="secondary">Execution {formatMs(plan.executionTime)}</Badge>
+                  )}
+                </div>
+
+                {warnings.length > 0 && (
+                  <ul className="space-y-1 rounded-md border border-amber-500/50 bg-amber-500/5 p-3 text-sm">
+                    {warnings.map((warning, i) => (
+                      <li key={i} className="flex items-start gap-2">
+                        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+                        {warning.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {/* Plan tree */}
+                <div className="rounded-md border">
+                  <PlanNodeRow node={plan.root} plan={plan} hot={hot} flagged={flagged} depth={0} />
+                </div>
+              </div>
+            </ScrollArea>
+          )
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface PlanNodeRowProps {
+  node: PlanNode;
+  plan: ExplainPlan;
+  hot: Set<string>;
+  flagged: Set<string>;
+  depth: number;
+}
+
+function PlanNodeRow({ node, plan, hot, flagged, depth }: PlanNodeRowProps) {
+  const [expanded, setExpanded] = useState(true);
+  const [showDetails, setShowDetails] = useState(false);
+  const total = plan.analyzed ? (plan.root.totalTime ?? 0) : plan.root.totalCost;
+  const share = total > 0 ? Math.min(1, nodeWeight(plan, node) / total) : 0;
+  const isHot = hot.has(node.id);
+
+  return (
+    <div>
+      <div
+        className={cn(
+          'border-b px-2 py-1.5 text-sm last:border-b-0',
+          isHot && 'bg-destructive/10',
+          !isHot && isSeqScan(node) && 'bg-amber-500/10'
+        )}
+        style={{ paddingLeft: 8 + depth * 16 }}
+      >
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className={cn('shrink-0', node.children.length === 0 && 'invisible')}
+          >
+            <ChevronRight className={cn('h-4 w-4 transition-transform', expanded && 'rotate-90')} />
+            <span className="sr-only">{expanded ? 'Collapse' : 'Expand'}</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowDetails(!showDetails)}
+            className="flex min-w-0 flex-1 items-center gap-2 text-left"
+          >
+            {isHot && <Flame className="h-4 w-4 shrink-0 text-destructive" />}
+            {!isHot && flagged.has(node.id) && (
+              <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+            )}
+            <span className="font-medium">{node.nodeType}</span>
+            {node.relation && (
+              <span className="truncate font-mono text-xs">on {node.relation}</span>
+            )}
+            {node.indexName && (
+              <span className="truncate font-mono text-xs text-muted-foreground">
+                using {node.indexName}
+              </span>
+            )}
+            {node.detail && (
+              <span className="truncate text-xs text-muted-foreground">({node.detail})</span>
+            )}
+          </button>
+          <div className="flex shrink-0 items-center gap-3 text-xs tabular-nums text-muted-foreground">
+            <span title="Total cost">cost {node.totalCost.toFixed(1)}</span>
+            <span title="Estimated rows, or actual rows × loops">
+              {node.actualRows === null
+                ? `${node.planRows.toLocaleString()} rows`
+                : `${node.actualRows.toLocaleString()}${node.loops > 1 ? ` × ${node.loops}` : ''} rows`}
+            </span>
+            {node.exclusiveTime !== null && (
+              <span title="Time in this node, excluding its children">
+                {formatMs(node.exclusiveTime)}
+              </span>
+            )}
+          </div>
+        </div>
+        {/* Share of the total time (or cost) spent in this node alone */}
+        <div className="ml-5 mt-1 h-1 rounded bg-muted">
+          <div
+            className={cn('h-1 rounded', isHot ? 'bg-destructive' : 'bg-primary/60')}
+            style={{ width: `${share * 100}%` }}
+          />
+        </div>
+        {showDetails && (
+          <dl className="ml-5 mt-2 grid grid-cols-[160px_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Startup / total cost</dt>
+            <dd className="font-mono">
+              {node.startupCost.toFixed(2)} / {node.totalCost.toFixed(2)}
+            </dd>
+            <dt className="text-muted-foreground">Estimated rows</dt>
+            <dd className="font-mono">{node.planRows.toLocaleString()}</dd>
+            {node.properties.map(([key, value]) => (
+              <div key={key} className="contents">
+                <dt className="text-muted-foreground">{key}</dt>
+                <dd className="break-words font-mono">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+      {expanded &&
+        node.children.map((child) => (
+          <PlanNodeRow
+            key={child.id}
+            node={child}
+            plan={plan}
+            hot={hot}
+            flagged={flagged}
+            depth={depth + 1}
+          />
+        ))}
+    </div>
+  );
+}
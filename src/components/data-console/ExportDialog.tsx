@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { QueryResult } from '@/hooks/useApi';
+import { EXPORT_FORMATS, exportRows, type ExportFormat } from '@/lib/export';
+import { downloadFile } from '@/lib/utils';
+
+export type ExportScope = 'page' | 'selected' | 'full';
+
+const DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: string[];
+  pageRows: Record<string, unknown>[];
+  totalRows: number | null;
+  table: string | null;
+  columnTypes?: Record<string, string>;
+  // Re-runs the current query without paging; null when there is nothing to re-run
+  fetchFullResult: (() => Promise<QueryResult>) | null;
+  // Rows selected in the grid, offered as their own scope when there are any
+  selectedRows?: Record<string, unknown>[];
+  // The scope chosen each time the dialog opens
+  defaultScope?: ExportScope;
+}
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  columns,
+  pageRows,
+  totalRows,
+  table,
+  columnTypes,
+  fetchFullResult,
+  selectedRows = [],
+  defaultScope = 'page',
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [delimiter, setDelimiter] = useState(',');
+  const [header, setHeader] = useState(true);
+  const [nullValue, setNullValue] = useState('');
+  const [scope, setScope] = useState<ExportScope>(defaultScope);
+  const [isExporting, setIsExporting] = useState(false);
+  const info = EXPORT_FORMATS[format];
+  const isFull = scope === 'full' && fetchFullResult !== null;
+  const isFormatAvailable = !info.requiresTable || table !== null;
+
+  useEffect(() => {
+    if (open) setScope(defaultScope);
+  }, [defaultScope, open]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = isFull
+        ? await fetchFullResult()
+        : { columns, rows: scope === 'selected' ? selectedRows : pageRows };
+      const resultColumns = result.columns?.length ? result.columns : columns;
+      const content = exportRows(format, resultColumns, result.rows ?? [], {
+        delimiter,
+        header,
+        nullValue,
+        table,
+        columnTypes,
+      });
+      const timestamp = new Date().toISOString().replace(/:/g, '-');
+      downloadFile(content, `${table || 'export'}_${timestamp}.${info.extension}`, info.mimeType);
+      toast.success(`Exported ${(result.rows ?? []).length} rows as ${info.label}`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Export Results</DialogTitle>
+          <DialogDescription>
+            Download the current result in a format of your choice.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-format">Format</Label>
+            <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+                  <SelectItem
+                    key={key}
+                    value={key}
+                    disabled={EXPORT_FORMATS[key].requiresTable && table === null}
+                  >
+                    {EXPORT_FORMATS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {info.requiresTable && table && (
+              <p className="text-xs text-muted-foreground">
+                Statements insert into <span className="font-mono">{table}</span>.
+              </p>
+            )}
+          </div>
+
+          {info.delimiter && (
+            <div className="space-y-2">
+              <Label htmlFor="export-delimiter">Delimiter</Label>
+              <Select value={delimiter} onValueChange={setDelimiter}>
+                <SelectTrigger id="export-delimiter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIMITERS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {info.nullValue && (
+            <div className="space-y-2">
+              <Label htmlFor="export-null">Write NULL as</Label>
+              <Input
+                id="export-null"
+                value={nullValue}
+                onChange={(e) => setNullValue(e.target.value)}
+                placeholder="(empty)"
+                className="font-mono"
+              />
+            </div>
+          )}
+
+          {info.header && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-header">Include header row</Label>
+              <Switch id="export-header" checked={header} onCheckedChange={setHeader} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Rows</Label>
+            <RadioGroup value={scope} onValueChange={(value: ExportScope) => setScope(value)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="page" id="export-page" />
+                <Label htmlFor="export-page" className="font-normal">
+                  Rows shown on this page ({pageRows.length})
+                </Label>
+              </div>
+              {selectedRows.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="selected" id="export-selected" />
+                  <Label htmlFor="export-selected" className="font-normal">
+                    Selected rows ({selectedRows.length})
+                  </Label>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="full" id="export-full" disabled={fetchFullResult === null} />
+                <Label htmlFor="export-full" className="font-normal">
+                  Full result from the server
+                  {totalRows !== null && ` (${totalRows.toLocaleString()})`}
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || !isFormatAvailable || columns.length === 0}
+          >
+            {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,447 @@
+import { useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, Download, FileUp, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { HttpError, useFetchQuery, type SchemaTable } from '@/hooks/useApi';
+import {
+  autoMapColumns,
+  buildImportStatement,
+  buildRejectsFile,
+  importBatchSize,
+  mappingErrors,
+  parseImportFile,
+  prepareImport,
+  type ColumnMapping,
+  type ImportMode,
+  type ImportSource,
+  type RejectedRow,
+} from '@/lib/import';
+import { cn, downloadFile } from '@/lib/utils';
+
+const PREVIEW_ROWS = 50;
+const UNMAPPED = '__default__';
+// Gateway errors mean the backend could not be reached, not that it rejected the rows
+const UNREACHABLE_STATUSES = new Set([502, 503, 504]);
+
+const isRejection = (error: unknown) =>
+  error instanceof HttpError && !UNREACHABLE_STATUSES.has(error.status);
+
+type Step = 'upload' | 'map' | 'import';
+
+interface ImportProgress {
+  done: number;
+  imported: number;
+  rejects: RejectedRow[];
+  finished: boolean;
+  // Why the import ended early: a cancel, timeout or lost connection rather than a bad row
+  error: string | null;
+}
+
+interface ImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  table: SchemaTable | null;
+}
+
+export function ImportWizard({ open, onOpenChange, table }: ImportWizardProps) {
+  const queryClient = useQueryClient();
+  const { mutateAsync: fetchQuery } = useFetchQuery();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mode, setMode] = useState<ImportMode>('insert');
+  const [nullValue, setNullValue] = useState('');
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const stopRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const columns = useMemo(() => table?.columns ?? [], [table]);
+  const isRunning = progress !== null && !progress.finished;
+
+  const errors = useMemo(() => mappingErrors(columns, mapping, mode), [columns, mapping, mode]);
+  const prepared = useMemo(
+    () =>
+      source && errors.length === 0
+        ? prepareImport(source, columns, mapping, {
+            nullValue: source.format === 'csv' ? nullValue : null,
+          })
+        : null,
+    [columns, errors.length, mapping, nullValue, source]
+  );
+  const rejectedRows = useMemo(
+    () => new Map(prepared?.rejects.map((reject) => [reject.row, reject.error])),
+    [prepared]
+  );
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSource(null);
+    setMapping({});
+    setMode('insert');
+    setProgress(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (isRunning) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      setFileName(file.name);
+      setSource(parsed);
+      setMapping(autoMapColumns(columns, parsed.fields));
+      setStep('map');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read file');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  // Each batch is one statement; a rejected batch is retried row by row to find the rows at
+  // fault. Any other failure ends the import, as the rows after it would fail the same way.
+  const handleImport = async () => {
+    if (!table || !prepared) return;
+    const { columns: targetColumns, rows } = prepared;
+    const batchSize = importBatchSize(targetColumns.length);
+    const state: ImportProgress = {
+      done: 0,
+      imported: 0,
+      rejects: [...prepared.rejects],
+      finished: false,
+      error: null,
+    };
+    stopRef.current = false;
+    setStep('import');
+    setProgress({ ...state });
+
+    const run = (batch: typeof rows) =>
+      fetchQuery(buildImportStatement(table.name, targetColumns, batch, mode));
+
+    try {
+      for (let start = 0; start < rows.length && !stopRef.current; start += batchSize) {
+        const batch = rows.slice(start, start + batchSize);
+        try {
+          await run(batch);
+          state.imported += batch.length;
+          state.done += batch.length;
+        } catch (error) {
+          if (!isRejection(error)) throw error;
+          for (const row of batch) {
+            if (stopRef.current) break;
+            try {
+              await run([row]);
+              state.imported += 1;
+            } catch (rowError) {
+              if (!isRejection(rowError)) throw rowError;
+              state.rejects.push({
+                row: row.row,
+                source: source.rows[row.row - 1],
+                error: rowError instanceof Error ? rowError.message : 'Insert failed',
+              });
+            }
+            state.done += 1;
+          }
+        }
+        setProgress({ ...state });
+      }
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : 'Import failed';
+    }
+
+    state.rejects.sort((a, b) => a.row - b.row);
+    state.finished = true;
+    setProgress({ ...state });
+    if (state.imported > 0) queryClient.invalidateQueries({ queryKey: ['query'] });
+    if (state.error) {
+      toast.error(`Import stopped after ${state.imported} rows: ${state.error}`);
+    } else if (state.rejects.length > 0) {
+      toast.warning(`Imported ${state.imported} rows, ${state.rejects.length} rejected`);
+    } else {
+      toast.success(`Imported ${state.imported} rows into ${table.name}`);
+    }
+  };
+
+  const handleDownloadRejects = () => {
+    if (!source || !progress) return;
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'import';
+    downloadFile(buildRejectsFile(source, progress.rejects), `${baseName}_rejects.csv`, 'text/csv');
+  };
+
+  const mappedColumns = columns.filter((column) => mapping[column.name]);
+  const total = prepared?.rows.length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[860px]">
+        <DialogHeader>
+          <DialogTitle>Import into {table?.name}</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Load rows from a CSV, TSV, JSON or NDJSON file.'}
+            {step === 'map' &&
+              `${fileName}: ${source?.rows.length.toLocaleString()} rows. Choose which field fills each column.`}
+            {step === 'import' && `Importing ${fileName} in batches.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Upload */}
+        {step === 'upload' && (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(event) => event.preventDefault()}
+            onDrop={(event) => {
+              event.preventDefault();
+              handleFile(event.dataTransfer.files[0]);
+            }}
+            className="flex h-48 w-full flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed text-sm text-muted-foreground transition-colors hover:bg-accent"
+          >
+            <FileUp className="h-8 w-8" />
+            Drop a file here or click to choose one
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,.json,.ndjson,.jsonl,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </button>
+        )}
+
+        {/* Mapping & preview */}
+        {step === 'map' && source && (
+          <div className="space-y-4">
+            <ScrollArea className="max-h-56 rounded-md border">
+              <div className="grid grid-cols-2 gap-x-4 gap-y-2 p-3">
+                {columns.map((column) => (
+                  <div key={column.name} className="flex items-center gap-2">
+                    <Label className="w-36 shrink-0 truncate font-mono text-xs" title={column.name}>
+                      {column.name}
+                      <span className="ml-1 text-muted-foreground">{column.type}</span>
+                    </Label>
+                    <Select
+                      value={mapping[column.name] ?? UNMAPPED}
+                      onValueChange={(value) =>
+                        setMapping((prev) => ({
+                          ...prev,
+                          [column.name]: value === UNMAPPED ? null : value,
+                        }))
+                      }
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED} className="text-xs italic">
+                          Skip (use default)
+                        </SelectItem>
+                        {source.fields.map((field) => (
+                          <SelectItem key={field} value={field} className="font-mono text-xs">
+                            {field}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <RadioGroup
+                value={mode}
+                onValueChange={(value: ImportMode) => setMode(value)}
+                className="flex gap-4"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="insert" id="import-insert" />
+                  <Label htmlFor="import-insert" className="font-normal">
+                    Insert
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="upsert" id="import-upsert" />
+                  <Label htmlFor="import-upsert" className="font-normal">
+                    Upsert on primary key
+                  </Label>
+                </div>
+              </RadioGroup>
+              {source.format === 'csv' && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="import-null" className="whitespace-nowrap font-normal">
+                    Read as NULL
+                  </Label>
+                  <Input
+                    id="import-null"
+                    value={nullValue}
+                    onChange={(e) => setNullValue(e.target.value)}
+                    placeholder="(empty)"
+                    className="h-8 w-28 font-mono text-xs"
+                  />
+                </div>
+              )}
+            </div>
+
+            {errors.length > 0 ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{errors.join('. ')}</AlertDescription>
+              </Alert>
+            ) : (
+              prepared && (
+                <>
+                  <div className="flex gap-2 text-sm">
+                    <Badge variant="secondary">{prepared.rows.length.toLocaleString()} valid</Badge>
+                    {prepared.rejects.length > 0 && (
+                      <Badge variant="destructive">
+                        {prepared.rejects.length.toLocaleString()} with errors
+                      </Badge>
+                    )}
+                  </div>
+                  <ScrollArea className="h-64 rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">#</TableHead>
+                          {mappedColumns.map((column) => (
+                            <TableHead key={column.name} className="font-mono text-xs">
+                              {column.name}
+                            </TableHead>
+                          ))}
+                          <TableHead>Problem</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {source.rows.slice(0, PREVIEW_ROWS).map((record, index) => {
+                          const error = rejectedRows.get(index + 1);
+                          return (
+                            <TableRow key={index} className={cn(error && 'bg-destructive/10')}>
+                              <TableCell className="text-xs text-muted-foreground">
+                                {index + 1}
+                              </TableCell>
+                              {mappedColumns.map((column) => {
+                                const value = record[mapping[column.name]];
+                                return (
+                                  <TableCell
+                                    key={column.name}
+                                    className="max-w-[200px] truncate font-mono text-xs"
+                                  >
+                                    {value === null || value === undefined
+                                      ? 'NULL'
+                                      : typeof value === 'object'
+                                        ? JSON.stringify(value)
+                                        : String(value)}
+                                  </TableCell>
+                                );
+                              })}
+                              <TableCell className="text-xs text-destructive">{error}</TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                    <ScrollBar orientation="horizontal" />
+                  </ScrollArea>
+                  {source.rows.length > PREVIEW_ROWS && (
+                    <p className="text-xs text-muted-foreground">
+                      Showing the first {PREVIEW_ROWS} rows. Rows with errors are skipped and
+                      listed in the rejects file.
+                    </p>
+                  )}
+                </>
+              )
+            )}
+          </div>
+        )}
+
+        {/* Progress */}
+        {step === 'import' && progress && (
+          <div className="space-y-3">
+            <Progress value={total > 0 ? (progress.done / total) * 100 : 100} />
+            <p className="text-sm text-muted-foreground">
+              {progress.done.toLocaleString()} of {total.toLocaleString()} rows processed,{' '}
+              {progress.imported.toLocaleString()} imported, {progress.rejects.length.toLocaleString()}{' '}
+              rejected
+              {progress.finished && stopRef.current && ' (stopped)'}
+            </p>
+            {progress.error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Import stopped: {progress.error}. Rows after the last one processed were not
+                  imported.
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={!prepared || prepared.rows.length === 0}>
+                Import {prepared?.rows.length.toLocaleString() ?? 0} rows
+              </Button>
+            </>
+          )}
+          {step === 'import' && progress && !progress.finished && (
+            <Button variant="outline" onClick={() => (stopRef.current = true)}>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Stop
+            </Button>
+          )}
+          {step === 'import' && progress?.finished && (
+            <>
+              {progress.rejects.length > 0 && (
+                <Button variant="outline" onClick={handleDownloadRejects}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download rejects
+                </Button>
+              )}
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
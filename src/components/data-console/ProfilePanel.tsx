@@ -0,0 +1,300 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, KeyRound, RefreshCw } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useFetchQuery } from '@/hooks/useApi';
+import {
+  buildColumnProfiles,
+  buildHistogramQuery,
+  buildProfileStatsQuery,
+  buildTopValuesQuery,
+  formatRatio,
+  profileSource,
+  withHistograms,
+  withTopValues,
+  type ColumnProfile,
+  type ProfileTarget,
+} from '@/lib/profile';
+import { cn } from '@/lib/utils';
+
+interface ProfilePanelProps {
+  // The rows to profile; null closes the panel
+  target: ProfileTarget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SAMPLE_OPTIONS = [
+  { value: 'all', label: 'All rows' },
+  { value: '10000', label: 'First 10,000 rows' },
+  { value: '100000', label: 'First 100,000 rows' },
+];
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export function ProfilePanel({ target, onOpenChange }: ProfilePanelProps) {
+  const [sample, setSample] = useState('all');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [profiles, setProfiles] = useState<ColumnProfile[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProfiling, setIsProfiling] = useState(false);
+  const { mutateAsync: fetchQuery } = useFetchQuery();
+  // Results of a run that was superseded (new target or sample) are dropped
+  const runRef = useRef(0);
+
+  const runProfile = useCallback(async () => {
+    if (!target) return;
+    const run = ++runRef.current;
+    const source = profileSource(target.source, sample === 'all' ? null : Number(sample));
+    const fetchWith = (sql: string) => fetchQuery({ sql, params: source.params });
+    setError(null);
+    setIsProfiling(true);
+    try {
+      // Counts first, as the top values and histograms are built from them
+      let next = buildColumnProfiles(
+        target.columns,
+        await fetchWith(buildProfileStatsQuery(source.sql, target.columns))
+      );
+      if (run !== runRef.current) return;
+      setProfiles(next);
+      const topValuesQuery = buildTopValuesQuery(source.sql, next);
+      if (topValuesQuery) next = withTopValues(next, await fetchWith(topValuesQuery));
+      const histogramQuery = buildHistogramQuery(source.sql, next);
+      if (histogramQuery) next = withHistograms(next, await fetchWith(histogramQuery));
+      if (run === runRef.current) setProfiles(next);
+    } catch (profileError) {
+      if (run !== runRef.current) return;
+      setError(profileError instanceof Error ? profileError.message : 'Profiling failed');
+    } finally {
+      if (run === runRef.current) setIsProfiling(false);
+    }
+  }, [fetchQuery, sample, target]);
+
+  // A different target starts from an empty panel rather than the previous profile
+  useEffect(() => {
+    setProfiles(null);
+    setError(null);
+  }, [target]);
+
+  useEffect(() => {
+    runProfile();
+  }, [runProfile]);
+
+  const flagged = profiles?.filter((profile) => profile.flags.length > 0) ?? [];
+  const shown = flaggedOnly ? flagged : (profiles ?? []);
+
+  return (
+    <Sheet open={target !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-[400px] flex-col sm:w-[720px] sm:max-w-[720px]">
+        <SheetHeader>
+          <SheetTitle>Column Profile</SheetTitle>
+          <SheetDescription className="line-clamp-2 font-mono text-xs">
+            {target?.label}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <Select value={sample} onValueChange={setSample}>
+            <SelectTrigger className="h-8 w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SAMPLE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="profile-flagged" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+            <Label htmlFor="profile-flagged" className="text-sm">
+              Flagged columns only
+            </Label>
+          </div>
+          <Button variant="outline" size="sm" onClick={runProfile} disabled={isProfiling}>
+            <RefreshCw className={cn('mr-2 h-4 w-4', isProfiling && 'animate-spin')} />
+            Re-run
+          </Button>
+        </div>
+
+        {isProfiling && !profiles ? (
+          <div className="mt-4 space-y-2">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="mt-4 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+            {error}
+          </p>
+        ) : (
+          profiles && (
+            <ScrollArea className="-mx-2 mt-4 flex-1">
+              <div className="space-y-4 px-2">
+                {/* Summary */}
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">
+                    {(profiles[0]?.total ?? 0).toLocaleString()} rows profiled
+                  </Badge>
+                  <Badge variant="secondary">{profiles.length} columns</Badge>
+                  <Badge variant={flagged.length > 0 ? 'destructive' : 'secondary'}>
+                    {flagged.length} flagged
+                  </Badge>
+                </div>
+
+                {flagged.length > 0 && (
+                  <ul className="space-y-1 rounded-md border border-amber-500/50 bg-amber-500/5 p-3 text-sm">
+                    {flagged.flatMap((profile) =>
+                      profile.flags.map((flag) => (
+                        <li key={`${profile.column.name}-${flag.kind}`} className="flex gap-2">
+                          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+                          <span>
+                            <span className="font-mono">{profile.column.name}</span>: {flag.message}
+                          </span>
+                        </li>
+                      ))
+                    )}
+                  </ul>
+                )}
+
+                {shown.map((profile) => (
+                  <ColumnProfileCard key={profile.column.name} profile={profile} />
+                ))}
+                {flaggedOnly && flagged.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No columns were flagged</p>
+                )}
+              </div>
+            </ScrollArea>
+          )
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function ColumnProfileCard({ profile }: { profile: ColumnProfile }) {
+  const values = profile.total - profile.nulls;
+  const stats: Array<[string, string]> = [
+    ['Nulls', `${profile.nulls.toLocaleString()} (${formatRatio(profile.nullRatio)})`],
+    [
+      'Distinct',
+      `${profile.distinct.toLocaleString()}${
+        values > 0 ? ` (${formatRatio(profile.distinct / values)} of values)` : ''
+      }`,
+    ],
+  ];
+  if (profile.min !== null) stats.push(['Min', profile.min], ['Max', profile.max ?? '']);
+  if (profile.mean !== null) stats.push(['Mean', formatNumber(profile.mean)]);
+  if (profile.length) {
+    stats.push([
+      'Length',
+      `${profile.length.min}–${profile.length.max}, avg ${formatNumber(profile.length.mean)}`,
+    ]);
+  }
+  const peak = Math.max(1, ...profile.histogram.map((bin) => bin.count));
+
+  return (
+    <div
+      className={cn(
+        'space-y-3 rounded-md border p-3',
+        profile.flags.length > 0 && 'border-amber-500/50'
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono text-sm font-medium">{profile.column.name}</span>
+        <span className="text-xs text-muted-foreground">{profile.column.type}</span>
+        {profile.column.key && (
+          <Badge variant="outline" className="gap-1 text-xs">
+            <KeyRound className="h-3 w-3" />
+            Key
+          </Badge>
+        )}
+        {profile.flags.map((flag) => (
+          <Badge
+            key={flag.kind}
+            variant="outline"
+            className="border-amber-500/50 text-xs text-amber-600"
+          >
+            {flag.kind === 'all-null'
+              ? 'All NULL'
+              : flag.kind === 'constant'
+                ? 'Constant'
+                : 'Duplicates'}
+          </Badge>
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-[90px_1fr] gap-x-3 gap-y-1 text-xs">
+        {stats.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="break-words font-mono">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {profile.topValues.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Top values</p>
+          {profile.topValues.map((top) => (
+            <div key={top.value} className="flex items-center gap-2 text-xs">
+              <span className="w-40 shrink-0 truncate font-mono" title={top.value}>
+                {top.value}
+              </span>
+              <div className="h-1.5 flex-1 rounded bg-muted">
+                <div
+                  className="h-1.5 rounded bg-primary/60"
+                  style={{ width: `${(top.count / Math.max(1, values)) * 100}%` }}
+                />
+              </div>
+              <span className="w-20 shrink-0 text-right tabular-nums text-muted-foreground">
+                {top.count.toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {profile.histogram.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">
+            {profile.kind === 'number' ? 'Value distribution' : 'Length distribution'}
+          </p>
+          <div className="flex h-16 items-end gap-px">
+            {profile.histogram.map((bin) => (
+              <div
+                key={bin.label}
+                title={`${bin.label}: ${bin.count.toLocaleString()}`}
+                className="flex-1 rounded-t bg-primary/60"
+                style={{ height: `${(bin.count / peak) * 100}%` }}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-muted-foreground">
+            <span>{profile.histogram[0].label}</span>
+            <span>{profile.histogram[profile.histogram.length - 1].label}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,548 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowDownUp, Filter, Link2, Play, Plus, SquarePen, Trash2 } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { SchemaTable } from '@/hooks/useApi';
+import { columnKind, type ColumnKind } from '@/lib/columns';
+import {
+  OPERATOR_LABELS,
+  operatorNeedsValue,
+  operatorsForKind,
+  type FilterOperator,
+} from '@/lib/filters';
+import {
+  buildBuilderQuery,
+  emptyBuilderState,
+  filterError,
+  findColumn,
+  removeJoin,
+  suggestJoins,
+  type BuilderFilter,
+  type BuilderState,
+  type ColumnRef,
+} from '@/lib/queryBuilder';
+import { createId } from '@/stores/consoleStore';
+
+interface QueryBuilderPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schema: SchemaTable[] | undefined;
+  // Table the builder starts from when it has none yet
+  initialTable: string;
+  onApply: (sql: string, run: boolean) => void;
+}
+
+// Column references are Select values, so they are encoded to survive dots in table names
+const refKey = (ref: ColumnRef) => JSON.stringify([ref.table, ref.column]);
+const parseRefKey = (key: string): ColumnRef => {
+  const [table, column] = JSON.parse(key);
+  return { table, column };
+};
+
+export function QueryBuilderPanel({
+  open,
+  onOpenChange,
+  schema,
+  initialTable,
+  onApply,
+}: QueryBuilderPanelProps) {
+  const [state, setState] = useState<BuilderState | null>(null);
+  const tables = useMemo(() => schema ?? [], [schema]);
+
+  // Starts from the selected table, but keeps an earlier draft while that table still exists
+  useEffect(() => {
+    if (!open || tables.length === 0) return;
+    setState((prev) => {
+      if (prev && tables.some((table) => table.name === prev.table)) return prev;
+      const start = tables.find((table) => table.name === initialTable) ?? tables[0];
+      return emptyBuilderState(start.name);
+    });
+  }, [initialTable, open, tables]);
+
+  const tablesInQuery = state ? [state.table, ...state.joins.map((join) => join.table)] : [];
+  const availableColumns = tablesInQuery.flatMap((name) =>
+    (tables.find((table) => table.name === name)?.columns ?? []).map((column) => ({
+      table: name,
+      column: column.name,
+      type: column.type,
+    }))
+  );
+  const joinSuggestions = state ? suggestJoins(tables, tablesInQuery) : [];
+  const sql = state ? buildBuilderQuery(state, tables) : '';
+  const invalidFilters = state
+    ? state.filters.filter((filter) => filterError(filter, findColumn(tables, filter))).length
+    : 0;
+  const showTableNames = tablesInQuery.length > 1;
+  const columnLabel = (ref: ColumnRef) =>
+    showTableNames ? `${ref.table}.${ref.column}` : ref.column;
+
+  const update = (patch: Partial<BuilderState>) => setState((prev) => ({ ...prev, ...patch }));
+  const updateFilter = (id: string, patch: Partial<BuilderFilter>) =>
+    update({
+      filters: state.filters.map((filter) => (filter.id === id ? { ...filter, ...patch } : filter)),
+    });
+
+  const addFilter = () => {
+    const first = availableColumns[0];
+    if (!first) return;
+    const operator = operatorsForKind(columnKind(first.type))[0];
+    update({
+      filters: [
+        ...state.filters,
+        {
+          id: createId(),
+          table: first.table,
+          column: first.column,
+          operator,
+          value: '',
+          valueTo: '',
+        },
+      ],
+    });
+  };
+
+  const toggleColumn = (ref: ColumnRef, checked: boolean) =>
+    update({
+      columns: checked
+        ? [...state.columns, ref]
+        : state.columns.filter((column) => refKey(column) !== refKey(ref)),
+    });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-[400px] flex-col sm:w-[640px] sm:max-w-[640px]">
+        <SheetHeader>
+          <SheetTitle>Query Builder</SheetTitle>
+          <SheetDescription>
+            Pick a table, columns and conditions; the SQL goes into the editor to run or tweak
+          </SheetDescription>
+        </SheetHeader>
+
+        {!state ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No tables found. Connect to your backend to build a query.
+          </p>
+        ) : (
+          <ScrollArea className="-mx-2 mt-4 flex-1">
+            <div className="space-y-6 px-2">
+              {/* Table & joins */}
+              <section className="space-y-2">
+                <Label>Table</Label>
+                <Select
+                  value={state.table}
+                  onValueChange={(table) => setState(emptyBuilderState(table))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tables.map((table) => (
+                      <SelectItem key={table.name} value={table.name}>
+                        {table.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {state.joins.map((join) => (
+                  <div
+                    key={join.id}
+                    className="flex items-center gap-2 rounded-md border p-2 text-sm"
+                  >
+                    <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <Select
+                      value={join.type}
+                      onValueChange={(type: 'inner' | 'left') =>
+                        update({
+                          joins: state.joins.map((item) =>
+                            item.id === join.id ? { ...item, type } : item
+                          ),
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-[150px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="inner">Only matches</SelectItem>
+                        <SelectItem value="left">Keep all rows</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <span className="min-w-0 flex-1 truncate font-mono text-xs">
+                      {join.table} on {join.on.left.table}.{join.on.left.column} = {join.on.column}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setState(removeJoin(state, join.id))}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      <span className="sr-only">Remove join</span>
+                    </Button>
+                  </div>
+                ))}
+                {joinSuggestions.length > 0 && (
+                  <Select
+                    value=""
+                    onValueChange={(index) => {
+                      const suggestion = joinSuggestions[Number(index)];
+                      update({
+                        joins: [
+                          ...state.joins,
+                          {
+                            id: createId(),
+                            table: suggestion.table,
+                            type: 'left',
+                            on: suggestion.on,
+                          },
+                        ],
+                      });
+                    }}
+                  >
+                    <SelectTrigger className="text-muted-foreground">
+                      <SelectValue placeholder="Join a related table..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {joinSuggestions.map((suggestion, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {suggestion.table} on {suggestion.on.left.table}.
+                          {suggestion.on.left.column} = {suggestion.on.column}
+                          <Badge variant="secondary" className="ml-2 text-xs">
+                            {suggestion.reason}
+                          </Badge>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </section>
+
+              {/* Columns */}
+              <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Columns</Label>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => update({ columns: [] })}
+                    disabled={state.columns.length === 0}
+                  >
+                    All columns
+                  </Button>
+                </div>
+                <div className="grid max-h-48 grid-cols-2 gap-x-4 gap-y-2 overflow-y-auto rounded-md border p-3">
+                  {availableColumns.map((column) => {
+                    const key = refKey(column);
+                    return (
+                      <label key={key} className="flex min-w-0 items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={
+                            state.columns.length === 0 ||
+                            state.columns.some((selected) => refKey(selected) === key)
+                          }
+                          onCheckedChange={(checked) =>
+                            state.columns.length === 0
+                              ? // Unticking from "all columns" keeps everything but this one
+                                update({
+                                  columns: availableColumns
+                                    .filter((other) => refKey(other) !== key)
+                                    .map(({ table, column: name }) => ({ table, column: name })),
+                                })
+                              : toggleColumn(column, checked === true)
+                          }
+                        />
+                        <span className="truncate" title={column.type}>
+                          {columnLabel(column)}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </section>
+
+              {/* Filters */}
+              <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="flex items-center gap-1">
+                    <Filter className="h-3 w-3" />
+                    Conditions
+                  </Label>
+                  <Button variant="outline" size="sm" onClick={addFilter}>
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add condition
+                  </Button>
+                </div>
+                {state.filters.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Every row is included</p>
+                )}
+                {state.filters.map((filter) => {
+                  const column = findColumn(tables, filter);
+                  const kind = columnKind(column?.type);
+                  const error = filterError(filter, column);
+                  return (
+                    <div key={filter.id} className="space-y-1 rounded-md border p-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Select
+                          value={refKey(filter)}
+                          onValueChange={(key) => {
+                            const ref = parseRefKey(key);
+                            const operators = operatorsForKind(
+                              columnKind(findColumn(tables, ref)?.type)
+                            );
+                            updateFilter(filter.id, {
+                              ...ref,
+                              operator: operators.includes(filter.operator)
+                                ? filter.operator
+                                : operators[0],
+                            });
+                          }}
+                        >
+                          <SelectTrigger className="h-8 w-[180px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {availableColumns.map((option) => (
+                              <SelectItem key={refKey(option)} value={refKey(option)}>
+                                {columnLabel(option)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={filter.operator}
+                          onValueChange={(operator: FilterOperator) =>
+                            updateFilter(filter.id, { operator })
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-[150px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {operatorsForKind(kind).map((operator) => (
+                              <SelectItem key={operator} value={operator}>
+                                {OPERATOR_LABELS[operator]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {operatorNeedsValue(filter.operator) &&
+                          (kind === 'boolean' ? (
+                            <Select
+                              value={filter.value}
+                              onValueChange={(value) => updateFilter(filter.id, { value })}
+                            >
+                              <SelectTrigger className="h-8 w-[100px]">
+                                <SelectValue placeholder="Pick..." />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="true">true</SelectItem>
+                                <SelectItem value="false">false</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <ValueInput
+                              kind={kind}
+                              value={filter.value}
+                              onChange={(value) => updateFilter(filter.id, { value })}
+                            />
+                          ))}
+                        {filter.operator === 'between' && (
+                          <>
+                            <span className="text-sm text-muted-foreground">and</span>
+                            <ValueInput
+                              kind={kind}
+                              value={filter.valueTo}
+                              onChange={(valueTo) => updateFilter(filter.id, { valueTo })}
+                            />
+                          </>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="ml-auto h-7 w-7"
+                          onClick={() =>
+                            update({
+                              filters: state.filters.filter((item) => item.id !== filter.id),
+                            })
+                          }
+                        >
+                          <Trash2 className="h-3 w-3" />
+                          <span className="sr-only">Remove condition</span>
+                        </Button>
+                      </div>
+                      {error && <p className="text-xs text-destructive">{error}</p>}
+                    </div>
+                  );
+                })}
+              </section>
+
+              {/* Sort & limit */}
+              <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="flex items-center gap-1">
+                    <ArrowDownUp className="h-3 w-3" />
+                    Sort
+                  </Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      update({
+                        sort: [
+                          ...state.sort,
+                          {
+                            table: availableColumns[0].table,
+                            column: availableColumns[0].column,
+                            direction: 'asc',
+                          },
+                        ],
+                      })
+                    }
+                    disabled={availableColumns.length === 0}
+                  >
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add sort
+                  </Button>
+                </div>
+                {state.sort.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={refKey(item)}
+                      onValueChange={(key) =>
+                        update({
+                          sort: state.sort.map((other, i) =>
+                            i === index ? { ...other, ...parseRefKey(key) } : other
+                          ),
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8 flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableColumns.map((option) => (
+                          <SelectItem key={refKey(option)} value={refKey(option)}>
+                            {columnLabel(option)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={item.direction}
+                      onValueChange={(direction: 'asc' | 'desc') =>
+                        update({
+                          sort: state.sort.map((other, i) =>
+                            i === index ? { ...other, direction } : other
+                          ),
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-[140px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="asc">Ascending</SelectItem>
+                        <SelectItem value="desc">Descending</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => update({ sort: state.sort.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      <span className="sr-only">Remove sort</span>
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2 pt-2">
+                  <Label htmlFor="builder-limit" className="text-sm font-normal">
+                    Row limit
+                  </Label>
+                  <Input
+                    id="builder-limit"
+                    type="number"
+                    min={0}
+                    placeholder="No limit"
+                    value={state.limit ?? ''}
+                    onChange={(e) =>
+                      update({ limit: e.target.value === '' ? null : Number(e.target.value) })
+                    }
+                    className="h-8 w-[120px]"
+                  />
+                </div>
+              </section>
+
+              {/* Preview */}
+              <section className="space-y-2">
+                <Label>SQL</Label>
+                <pre className="overflow-x-auto rounded-md border bg-muted/50 p-3 font-mono text-xs">
+                  {sql}
+                </pre>
+                {invalidFilters > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {invalidFilters} incomplete condition{invalidFilters === 1 ? ' is' : 's are'}{' '}
+                    left out
+                  </p>
+                )}
+              </section>
+            </div>
+          </ScrollArea>
+        )}
+
+        <SheetFooter className="mt-4 gap-2">
+          <Button variant="outline" onClick={() => onApply(sql, false)} disabled={!state}>
+            <SquarePen className="mr-2 h-4 w-4" />
+            Open in editor
+          </Button>
+          <Button onClick={() => onApply(sql, true)} disabled={!state}>
+            <Play className="mr-2 h-4 w-4" />
+            Run
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function ValueInput({
+  kind,
+  value,
+  onChange,
+}: {
+  kind: ColumnKind;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <Input
+      type={kind === 'date' ? 'date' : 'text'}
+      inputMode={kind === 'number' ? 'decimal' : undefined}
+      placeholder={kind === 'datetime' ? 'YYYY-MM-DD HH:MM' : 'Value'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-8 w-[160px]"
+    />
+  );
+}
@@ -0,0 +1,114 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, Play, Search, Trash2, XCircle } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useDebounce } from '@/hooks/useDebounce';
+import type { QueryHistoryEntry } from '@/stores/consoleStore';
+
+interface QueryHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  history: QueryHistoryEntry[];
+  onRun: (entry: QueryHistoryEntry) => void;
+  onClear: () => void;
+}
+
+export function QueryHistoryPanel({
+  open,
+  onOpenChange,
+  history,
+  onRun,
+  onClear,
+}: QueryHistoryPanelProps) {
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebounce(search, 200);
+
+  const entries = useMemo(() => {
+    const needle = debouncedSearch.trim().toLowerCase();
+    if (!needle) return history;
+    return history.filter((entry) => entry.sql.toLowerCase().includes(needle));
+  }, [debouncedSearch, history]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-[400px] flex-col sm:w-[540px]">
+        <SheetHeader>
+          <SheetTitle>Query History</SheetTitle>
+          <SheetDescription>Every query executed from the console</SheetDescription>
+        </SheetHeader>
+        <div className="mt-4 flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search history..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={onClear}
+            disabled={history.length === 0}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Clear history</span>
+          </Button>
+        </div>
+        <ScrollArea className="-mx-2 mt-4 flex-1">
+          <div className="space-y-2 px-2">
+            {entries.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {debouncedSearch ? 'No matching queries' : 'No queries executed yet'}
+              </p>
+            ) : (
+              entries.map((entry) => (
+                <div key={entry.id} className="group rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <div className="flex items-center gap-2">
+                      {entry.success ? (
+                        <CheckCircle className="h-3 w-3 text-green-500" />
+                      ) : (
+                        <XCircle className="h-3 w-3 text-destructive" />
+                      )}
+                      <span>{format(new Date(entry.executedAt), 'MMM d, HH:mm:ss')}</span>
+                      {entry.executionTime !== null && <span>{entry.executionTime}ms</span>}
+                      {entry.rowCount !== null && (
+                        <span>{entry.rowCount.toLocaleString()} rows</span>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2"
+                      onClick={() => onRun(entry)}
+                    >
+                      <Play className="mr-1 h-3 w-3" />
+                      Run
+                    </Button>
+                  </div>
+                  <pre className="mt-2 line-clamp-4 whitespace-pre-wrap break-all font-mono text-xs">
+                    {entry.sql}
+                  </pre>
+                  {entry.error && (
+                    <p className="mt-1 text-xs text-destructive">{entry.error}</p>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { coerceParam, type SqlParam, type SqlParamType } from '@/lib/sql';
+
+const PARAM_TYPES: SqlParamType[] = ['text', 'number', 'boolean', 'json', 'null'];
+
+interface QueryParamsDialogProps {
+  names: string[] | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: Record<string, SqlParam>) => void;
+}
+
+export function QueryParamsDialog({ names, onOpenChange, onSubmit }: QueryParamsDialogProps) {
+  // Values are kept across prompts so re-running a query only needs the changed ones
+  const [inputs, setInputs] = useState<Record<string, { value: string; type: SqlParamType }>>({});
+
+  const inputFor = (name: string) => inputs[name] ?? { value: '', type: 'text' as SqlParamType };
+
+  const update = (name: string, patch: Partial<{ value: string; type: SqlParamType }>) =>
+    setInputs((prev) => ({ ...prev, [name]: { ...inputFor(name), ...patch } }));
+
+  const handleSubmit = () => {
+    if (!names) return;
+    try {
+      onSubmit(
+        Object.fromEntries(
+          names.map((name) => {
+            const { value, type } = inputFor(name);
+            try {
+              return [name, coerceParam(value, type)];
+            } catch (error) {
+              throw new Error(`:${name}: ${error instanceof Error ? error.message : error}`);
+            }
+          })
+        )
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid parameter');
+    }
+  };
+
+  return (
+    <Dialog open={names !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Query Parameters</DialogTitle>
+          <DialogDescription>Values are sent as bound parameters, never inlined.</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleSubmit();
+          }}
+        >
+          {names?.map((name, index) => {
+            const { value, type } = inputFor(name);
+            return (
+              <div key={name} className="space-y-2">
+                <Label htmlFor={`query-param-${name}`} className="font-mono">
+                  :{name}
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`query-param-${name}`}
+                    value={value}
+                    autoFocus={index === 0}
+                    disabled={type === 'null'}
+                    onChange={(e) => update(name, { value: e.target.value })}
+                    className="font-mono text-sm"
+                  />
+                  <Select
+                    value={type}
+                    onValueChange={(next) => update(name, { type: next as SqlParamType })}
+                  >
+                    <SelectTrigger className="w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PARAM_TYPES.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            );
+          })}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Run</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import { Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { QueryTab } from '@/stores/consoleStore';
+import { cn } from '@/lib/utils';
+
+interface QueryTabBarProps {
+  tabs: QueryTab[];
+  activeTabId: string;
+  // Tabs with a statement still in flight
+  runningTabIds: Set<string>;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onAdd: () => void;
+}
+
+export function QueryTabBar({
+  tabs,
+  activeTabId,
+  runningTabIds,
+  onSelect,
+  onClose,
+  onAdd,
+}: QueryTabBarProps) {
+  return (
+    <div className="flex items-center gap-1 overflow-x-auto border-b">
+      {tabs.map((tab) => (
+        <div
+          key={tab.id}
+          className={cn(
+            'group flex shrink-0 items-center gap-1 border-b-2 border-transparent px-3 py-2 text-sm text-muted-foreground transition-colors hover:text-foreground',
+            tab.id === activeTabId && 'border-primary font-medium text-foreground'
+          )}
+        >
+          {runningTabIds.has(tab.id) && <Loader2 className="h-3 w-3 shrink-0 animate-spin" />}
+          <button type="button" onClick={() => onSelect(tab.id)} className="max-w-[160px] truncate">
+            {tab.title}
+          </button>
+          <button
+            type="button"
+            onClick={() => onClose(tab.id)}
+            className="rounded-sm opacity-0 hover:bg-accent group-hover:opacity-100"
+          >
+            <X className="h-3 w-3" />
+            <span className="sr-only">Close {tab.title}</span>
+          </button>
+        </div>
+      ))}
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onAdd}>
+        <Plus className="h-4 w-4" />
+        <span className="sr-only">New tab</span>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useMemo, useRef } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CalendarIcon, KeyRound } from 'lucide-react';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { SchemaColumn } from '@/hooks/useApi';
+import {
+  columnKind,
+  datePart,
+  recordFieldName,
+  recordSchema,
+  withDate,
+  type ColumnKind,
+} from '@/lib/columns';
+import { toCellValue, type CellValue } from '@/lib/changeset';
+import { cn } from '@/lib/utils';
+
+// undefined leaves the column out of an INSERT so the database default applies
+type FieldValue = CellValue | undefined;
+type FieldState = 'value' | 'null' | 'default';
+
+const stateOf = (value: FieldValue): FieldState =>
+  value === undefined ? 'default' : value === null ? 'null' : 'value';
+
+const formatOriginal = (value: unknown) => {
+  const cell = toCellValue(value);
+  return cell === null ? 'NULL' : cell === '' ? "''" : cell;
+};
+
+interface RecordFormProps {
+  columns: SchemaColumn[];
+  mode: 'create' | 'edit';
+  values: Record<string, FieldValue>;
+  original: Record<string, unknown> | null;
+  readOnly?: boolean;
+  submitLabel: string;
+  actions?: React.ReactNode;
+  onSubmit: (values: Record<string, FieldValue>) => void;
+}
+
+export function RecordForm({
+  columns,
+  mode,
+  values,
+  original,
+  readOnly = false,
+  submitLabel,
+  actions,
+  onSubmit,
+}: RecordFormProps) {
+  const schema = useMemo(() => recordSchema(columns, mode), [columns, mode]);
+  const form = useForm<Record<string, FieldValue>>({
+    resolver: zodResolver(schema),
+    defaultValues: Object.fromEntries(
+      columns.map((column, index) => [recordFieldName(index), values[column.name]])
+    ),
+  });
+  // Remembers typed text so switching a field to NULL and back does not lose it
+  const lastTextRef = useRef<Record<string, string>>({});
+
+  const handleSubmit = form.handleSubmit((data) =>
+    onSubmit(
+      Object.fromEntries(
+        columns.map((column, index) => [column.name, data[recordFieldName(index)]])
+      )
+    )
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {columns.map((column, index) => {
+          const name = recordFieldName(index);
+          const kind = columnKind(column.type);
+          const locked = readOnly || (mode === 'edit' && column.primary_key);
+          return (
+            <FormField
+              key={column.name}
+              control={form.control}
+              name={name}
+              render={({ field }) => {
+                const state = stateOf(field.value);
+                const text = typeof field.value === 'string' ? field.value : '';
+                const setText = (next: string) => field.onChange(next);
+                const isChanged =
+                  mode === 'edit' &&
+                  original !== null &&
+                  toCellValue(original[column.name]) !== field.value;
+                const placeholder =
+                  state === 'null'
+                    ? 'NULL'
+                    : state === 'default'
+                      ? `DEFAULT${column.default ? ` (${column.default})` : ''}`
+                      : column.type;
+
+                return (
+                  <FormItem className="space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <FormLabel className="flex items-center gap-1.5">
+                        {column.primary_key && <KeyRound className="h-3 w-3" />}
+                        {column.name}
+                        <span className="font-mono text-xs font-normal text-muted-foreground">
+                          {column.type}
+                          {!column.nullable && ' not null'}
+                        </span>
+                      </FormLabel>
+                      {!locked && (
+                        <ToggleGroup
+                          type="single"
+                          size="sm"
+                          value={state}
+                          onValueChange={(next: FieldState | '') => {
+                            if (typeof field.value === 'string') {
+                              lastTextRef.current[name] = field.value;
+                            }
+                            if (next === 'null') field.onChange(null);
+                            else if (next === 'default') field.onChange(undefined);
+                            else if (next === 'value') field.onChange(lastTextRef.current[name] ?? '');
+                          }}
+                          className="gap-0"
+                        >
+                          <ToggleGroupItem value="value" className="h-6 px-2 text-xs">
+                            Value
+                          </ToggleGroupItem>
+                          {column.nullable && (
+                            <ToggleGroupItem value="null" className="h-6 px-2 font-mono text-xs">
+                              NULL
+                            </ToggleGroupItem>
+                          )}
+                          {mode === 'create' && (
+                            <ToggleGroupItem value="default" className="h-6 px-2 text-xs">
+                              Default
+                            </ToggleGroupItem>
+                          )}
+                        </ToggleGroup>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      {kind === 'boolean' && state === 'value' ? (
+                        <Select value={text} onValueChange={setText} disabled={locked}>
+                          <FormControl>
+                            <SelectTrigger className="font-mono text-sm">
+                              <SelectValue placeholder="Choose true or false" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="true">true</SelectItem>
+                            <SelectItem value="false">false</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : kind === 'json' && state === 'value' ? (
+                        <FormControl>
+                          <Textarea
+                            value={text}
+                            onChange={(event) => setText(event.target.value)}
+                            readOnly={locked}
+                            spellCheck={false}
+                            className={cn('font-mono text-xs', isChanged && 'border-amber-500')}
+                          />
+                        </FormControl>
+                      ) : (
+                        <FormControl>
+                          <Input
+                            value={text}
+                            onChange={(event) => setText(event.target.value)}
+                            readOnly={locked}
+                            disabled={state !== 'value'}
+                            inputMode={kind === 'number' ? 'decimal' : undefined}
+                            placeholder={placeholder}
+                            className={cn(
+                              'font-mono text-sm',
+                              state !== 'value' && 'placeholder:italic',
+                              isChanged && 'border-amber-500'
+                            )}
+                          />
+                        </FormControl>
+                      )}
+                      {(kind === 'date' || kind === 'datetime') && state === 'value' && !locked && (
+                        <DatePicker value={text} kind={kind} onChange={setText} />
+                      )}
+                    </div>
+                    {isChanged && original && (
+                      <FormDescription className="text-xs">
+                        Was{' '}
+                        <span className="font-mono line-through">
+                          {formatOriginal(original[column.name])}
+                        </span>
+                      </FormDescription>
+                    )}
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                );
+              }}
+            />
+          );
+        })}
+        <div className="flex flex-wrap gap-2 pt-4">
+          {!readOnly && (
+            <Button type="submit" className="flex-1">
+              {submitLabel}
+            </Button>
+          )}
+          {actions}
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function DatePicker({
+  value,
+  kind,
+  onChange,
+}: {
+  value: string;
+  kind: ColumnKind;
+  onChange: (value: string) => void;
+}) {
+  const selected = datePart(value);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="icon" className="shrink-0">
+          <CalendarIcon className="h-4 w-4" />
+          <span className="sr-only">Pick a date</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="single"
+          selected={selected}
+          defaultMonth={selected}
+          onSelect={(date) => date && onChange(withDate(value, date, kind))}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowUpRight, CornerDownRight, Link2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useFetchQuery, type SchemaForeignKey, type SchemaTable } from '@/hooks/useApi';
+import { rowLabel, toCellValue } from '@/lib/changeset';
+import { buildReferencingRowsQuery, incomingReferences, type Relationship } from '@/lib/schema';
+
+interface RelatedRecordsProps {
+  schema: SchemaTable[];
+  table: SchemaTable;
+  row: Record<string, unknown>;
+  onFollow: (foreignKey: SchemaForeignKey) => void;
+  onOpen: (table: string, row: Record<string, unknown>) => void;
+}
+
+interface ReferencingRows {
+  relationship: Relationship;
+  rows: Record<string, unknown>[] | null;
+  error: string | null;
+}
+
+// Child rows listed per foreign key; one more is fetched to tell whether there are others
+const REFERENCING_LIMIT = 10;
+
+const formatValues = (row: Record<string, unknown>, columns: string[]) =>
+  columns.map((column) => toCellValue(row[column]) ?? 'NULL').join(', ');
+
+export function RelatedRecords({ schema, table, row, onFollow, onOpen }: RelatedRecordsProps) {
+  const { mutateAsync: fetchQuery } = useFetchQuery();
+  const [referencing, setReferencing] = useState<ReferencingRows[]>([]);
+  // Rows fetched for a record that is no longer shown are dropped
+  const runRef = useRef(0);
+  const tableByName = useMemo(() => new Map(schema.map((entry) => [entry.name, entry])), [schema]);
+  const incoming = useMemo(() => incomingReferences(schema, table.name), [schema, table.name]);
+
+  useEffect(() => {
+    const run = ++runRef.current;
+    setReferencing(incoming.map((relationship) => ({ relationship, rows: null, error: null })));
+    incoming.forEach((relationship, index) => {
+      const statement = buildReferencingRowsQuery(
+        relationship,
+        row,
+        tableByName.get(relationship.from),
+        REFERENCING_LIMIT + 1
+      );
+      const settle = (patch: Partial<ReferencingRows>) => {
+        if (run !== runRef.current) return;
+        setReferencing((prev) =>
+          prev.map((entry, position) => (position === index ? { ...entry, ...patch } : entry))
+        );
+      };
+      if (!statement) {
+        settle({ rows: [] });
+        return;
+      }
+      fetchQuery(statement).then(
+        (result) => settle({ rows: result.rows ?? [] }),
+        (error: Error) => settle({ error: error.message })
+      );
+    });
+  }, [fetchQuery, incoming, row, tableByName]);
+
+  const outgoing = table.foreign_keys ?? [];
+  if (outgoing.length === 0 && incoming.length === 0) return null;
+
+  return (
+    <div className="mt-6 space-y-4 border-t pt-4">
+      {outgoing.length > 0 && (
+        <section className="space-y-2">
+          <Label>References</Label>
+          {outgoing.map((foreignKey) => {
+            const isSet = foreignKey.columns.every(
+              (column) => row[column] !== null && row[column] !== undefined
+            );
+            return (
+              <Button
+                key={foreignKey.name}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-auto w-full justify-start gap-2 py-1.5 text-left"
+                disabled={!isSet}
+                onClick={() => onFollow(foreignKey)}
+              >
+                <Link2 className="h-3 w-3 shrink-0 text-muted-foreground" />
+                <span className="min-w-0 flex-1 truncate">
+                  <span className="font-mono text-xs">{foreignKey.columns.join(', ')}</span>
+                  <span className="mx-1 text-muted-foreground">→</span>
+                  {foreignKey.references.table}
+                </span>
+                <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                  {formatValues(row, foreignKey.columns)}
+                </span>
+              </Button>
+            );
+          })}
+        </section>
+      )}
+
+      {incoming.length > 0 && (
+        <section className="space-y-3">
+          <Label>Referenced by</Label>
+          {referencing.map(({ relationship, rows, error }) => {
+            const source = tableByName.get(relationship.from);
+            const shown = rows?.slice(0, REFERENCING_LIMIT) ?? [];
+            return (
+              <div
+                key={`${relationship.from}.${relationship.foreignKey.name}`}
+                className="space-y-1"
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <CornerDownRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{relationship.from}</span>
+                  <span className="truncate font-mono text-xs text-muted-foreground">
+                    {relationship.foreignKey.columns.join(', ')}
+                  </span>
+                  {rows && (
+                    <Badge variant="secondary" className="ml-auto shrink-0 text-xs">
+                      {rows.length > REFERENCING_LIMIT ? `${REFERENCING_LIMIT}+` : rows.length}
+                    </Badge>
+                  )}
+                </div>
+                {error ? (
+                  <p className="pl-5 text-xs text-destructive">{error}</p>
+                ) : !rows ? (
+                  <Skeleton className="ml-5 h-7" />
+                ) : (
+                  shown.map((child, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => onOpen(relationship.from, child)}
+                      className="ml-5 flex w-[calc(100%-1.25rem)] items-center gap-2 rounded-md px-2 py-1 text-left font-mono text-xs transition-colors hover:bg-accent"
+                    >
+                      <span className="min-w-0 flex-1 truncate">
+                        {source ? rowLabel(source, child) : formatValues(child, Object.keys(child))}
+                      </span>
+                      <ArrowUpRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                    </button>
+                  ))
+                )}
+              </div>
+            );
+          })}
+        </section>
+      )}
+    </div>
+  );
+}
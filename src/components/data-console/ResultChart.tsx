@@ -0,0 +1,395 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown } from 'lucide-react';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  axisKind,
+  buildChartData,
+  resolveChartSpec,
+  type ChartAggregate,
+  type ChartSpec,
+  type ChartType,
+  type TimeBucket,
+} from '@/lib/chart';
+
+interface ResultChartProps {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  columnTypes: Record<string, string>;
+  // null until the chart is first configured, which starts from a guess based on the columns
+  spec: ChartSpec | null;
+  onSpecChange: (spec: ChartSpec) => void;
+}
+
+const CHART_TYPES: Array<{ value: ChartType; label: string }> = [
+  { value: 'line', label: 'Line' },
+  { value: 'bar', label: 'Bar' },
+  { value: 'area', label: 'Area' },
+  { value: 'scatter', label: 'Scatter' },
+  { value: 'histogram', label: 'Histogram' },
+];
+
+const AGGREGATES: Array<{ value: ChartAggregate; label: string }> = [
+  { value: 'count', label: 'Count rows' },
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'min', label: 'Minimum' },
+  { value: 'max', label: 'Maximum' },
+];
+
+const BUCKETS: Array<{ value: TimeBucket; label: string }> = [
+  { value: 'none', label: 'Exact time' },
+  { value: 'minute', label: 'Per minute' },
+  { value: 'hour', label: 'Per hour' },
+  { value: 'day', label: 'Per day' },
+  { value: 'week', label: 'Per week' },
+  { value: 'month', label: 'Per month' },
+];
+
+const SERIES_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--genesis-neural))',
+  'hsl(var(--warning))',
+  'hsl(var(--success))',
+  'hsl(var(--destructive))',
+  'hsl(var(--genesis-data))',
+  'hsl(var(--info))',
+];
+
+// Select items cannot have an empty value
+const NO_GROUP = '__none__';
+
+export function ResultChart({ columns, rows, columnTypes, spec, onSpecChange }: ResultChartProps) {
+  const resolved = useMemo(
+    () => resolveChartSpec(spec, columns, columnTypes),
+    [columnTypes, columns, spec]
+  );
+  const data = useMemo(
+    () => buildChartData(rows, resolved, columnTypes),
+    [columnTypes, resolved, rows]
+  );
+  const update = (patch: Partial<ChartSpec>) => onSpecChange({ ...resolved, ...patch });
+
+  const numericColumns = columns.filter((column) => axisKind(columnTypes[column]) === 'number');
+  const isHistogram = resolved.type === 'histogram';
+  const isScatter = resolved.type === 'scatter';
+  const xIsTime = data.xKind === 'time';
+  const usesY = !isHistogram && (isScatter || resolved.aggregate !== 'count');
+
+  const config = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        data.series.map((series, i) => [
+          series.key,
+          { label: series.label, color: SERIES_COLORS[i % SERIES_COLORS.length] },
+        ])
+      ),
+    [data.series]
+  );
+
+  const formatX = (value: unknown) => {
+    if (xIsTime && typeof value === 'number') {
+      return format(
+        new Date(value),
+        ['day', 'week', 'month'].includes(resolved.bucket) ? 'yyyy-MM-dd' : 'MM-dd HH:mm'
+      );
+    }
+    return typeof value === 'number' ? value.toLocaleString() : String(value ?? '');
+  };
+
+  const numericX = data.xKind !== 'category' && resolved.type !== 'bar';
+  const axes = [
+    <CartesianGrid key="grid" vertical={false} />,
+    <XAxis
+      key="x"
+      dataKey="x"
+      type={numericX ? 'number' : 'category'}
+      domain={numericX ? ['dataMin', 'dataMax'] : undefined}
+      tickFormatter={formatX}
+      minTickGap={24}
+    />,
+    <YAxis key="y" dataKey={isScatter ? 'y' : undefined} width={56} />,
+    <ChartTooltip
+      key="tooltip"
+      content={
+        <ChartTooltipContent labelFormatter={(_, payload) => formatX(payload?.[0]?.payload?.x)} />
+      }
+    />,
+    data.series.length > 1 && <ChartLegend key="legend" content={<ChartLegendContent />} />,
+  ];
+
+  const renderChart = () => {
+    if (isScatter) {
+      return (
+        <ScatterChart>
+          {axes}
+          {data.series.map((series) => (
+            <Scatter
+              key={series.key}
+              name={series.label}
+              data={data.points
+                .filter((point) => point[series.key] !== undefined)
+                .map((point) => ({ x: point.x, y: point[series.key] }))}
+              fill={`var(--color-${series.key})`}
+            />
+          ))}
+        </ScatterChart>
+      );
+    }
+    if (resolved.type === 'line') {
+      return (
+        <LineChart data={data.points}>
+          {axes}
+          {data.series.map((series) => (
+            <Line
+              key={series.key}
+              dataKey={series.key}
+              name={series.key}
+              stroke={`var(--color-${series.key})`}
+              dot={data.points.length <= 60}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      );
+    }
+    if (resolved.type === 'area') {
+      return (
+        <AreaChart data={data.points}>
+          {axes}
+          {data.series.map((series) => (
+            <Area
+              key={series.key}
+              dataKey={series.key}
+              name={series.key}
+              stroke={`var(--color-${series.key})`}
+              fill={`var(--color-${series.key})`}
+              fillOpacity={0.2}
+              stackId={resolved.groupBy ? 'groups' : undefined}
+              connectNulls
+            />
+          ))}
+        </AreaChart>
+      );
+    }
+    return (
+      <BarChart data={data.points}>
+        {axes}
+        {data.series.map((series) => (
+          <Bar
+            key={series.key}
+            dataKey={series.key}
+            name={series.key}
+            fill={`var(--color-${series.key})`}
+            stackId={resolved.groupBy ? 'groups' : undefined}
+          />
+        ))}
+      </BarChart>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Chart settings */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Chart</Label>
+          <Select value={resolved.type} onValueChange={(type: ChartType) => update({ type })}>
+            <SelectTrigger className="h-8 w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHART_TYPES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">{isHistogram ? 'Values' : 'X axis'}</Label>
+          <Select value={resolved.x} onValueChange={(x) => update({ x })}>
+            <SelectTrigger className="h-8 w-[170px]">
+              <SelectValue placeholder="Column" />
+            </SelectTrigger>
+            <SelectContent>
+              {(isHistogram ? numericColumns : columns).map((column) => (
+                <SelectItem key={column} value={column}>
+                  {column}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {!isHistogram && !isScatter && (
+          <div className="space-y-1">
+            <Label className="text-xs">Aggregate</Label>
+            <Select
+              value={resolved.aggregate}
+              onValueChange={(aggregate: ChartAggregate) => update({ aggregate })}
+            >
+              <SelectTrigger className="h-8 w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AGGREGATES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {usesY && (
+          <div className="space-y-1">
+            <Label className="text-xs">
+              {resolved.groupBy ? 'Y axis (first column)' : 'Y axis'}
+            </Label>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="h-8 w-[190px] justify-between">
+                  <span className="truncate">
+                    {resolved.y.length > 0 ? resolved.y.join(', ') : 'Choose columns'}
+                  </span>
+                  <ChevronDown className="h-4 w-4 shrink-0 opacity-50" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="max-h-72 overflow-auto">
+                {numericColumns.length === 0 && (
+                  <p className="px-2 py-1.5 text-sm text-muted-foreground">No numeric columns</p>
+                )}
+                {numericColumns.map((column) => (
+                  <DropdownMenuCheckboxItem
+                    key={column}
+                    checked={resolved.y.includes(column)}
+                    onCheckedChange={(checked) =>
+                      update({
+                        y: checked
+                          ? [...resolved.y, column]
+                          : resolved.y.filter((item) => item !== column),
+                      })
+                    }
+                    onSelect={(event) => event.preventDefault()}
+                  >
+                    {column}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs">Color by</Label>
+          <Select
+            value={resolved.groupBy ?? NO_GROUP}
+            onValueChange={(value) => update({ groupBy: value === NO_GROUP ? null : value })}
+          >
+            <SelectTrigger className="h-8 w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_GROUP}>Nothing</SelectItem>
+              {columns
+                .filter((column) => column !== resolved.x)
+                .map((column) => (
+                  <SelectItem key={column} value={column}>
+                    {column}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {xIsTime && !isHistogram && !isScatter && (
+          <div className="space-y-1">
+            <Label className="text-xs">Time buckets</Label>
+            <Select
+              value={resolved.bucket}
+              onValueChange={(bucket: TimeBucket) => update({ bucket })}
+            >
+              <SelectTrigger className="h-8 w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUCKETS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {isHistogram && (
+          <div className="space-y-1">
+            <Label htmlFor="chart-bins" className="text-xs">
+              Bins
+            </Label>
+            <Input
+              id="chart-bins"
+              type="number"
+              min={1}
+              max={200}
+              className="h-8 w-20"
+              value={resolved.bins}
+              onChange={(e) =>
+                update({
+                  bins: Math.min(200, Math.max(1, Math.floor(Number(e.target.value) || 1))),
+                })
+              }
+            />
+          </div>
+        )}
+      </div>
+
+      {data.points.length === 0 ? (
+        <div className="flex h-[360px] items-center justify-center rounded-md border text-sm text-muted-foreground">
+          {usesY && resolved.y.length === 0
+            ? 'Choose a numeric column to plot'
+            : 'No values to plot in these rows'}
+        </div>
+      ) : (
+        <ChartContainer config={config} className="aspect-auto h-[360px] w-full">
+          {renderChart()}
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
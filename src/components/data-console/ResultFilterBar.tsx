@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { Filter, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { columnKind } from '@/lib/columns';
+import {
+  OPERATOR_LABELS,
+  conditionError,
+  describeFilter,
+  operatorNeedsValue,
+  operatorsForKind,
+  type ColumnFilter,
+  type FilterMode,
+  type FilterOperator,
+} from '@/lib/filters';
+import { createId } from '@/stores/consoleStore';
+import { cn } from '@/lib/utils';
+
+interface ResultFilterBarProps {
+  columns: string[];
+  // Reported or inferred type of every result column
+  columnTypes: Record<string, string>;
+  filters: ColumnFilter[];
+  mode: FilterMode;
+  // Pushing down needs a query to wrap
+  canPushDown: boolean;
+  onChange: (filters: ColumnFilter[]) => void;
+  onModeChange: (mode: FilterMode) => void;
+}
+
+export function ResultFilterBar({
+  columns,
+  columnTypes,
+  filters,
+  mode,
+  canPushDown,
+  onChange,
+  onModeChange,
+}: ResultFilterBarProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const save = (filter: ColumnFilter) => {
+    onChange(
+      filters.some((item) => item.id === filter.id)
+        ? filters.map((item) => (item.id === filter.id ? filter : item))
+        : [...filters, filter]
+    );
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Filter className="h-4 w-4 text-muted-foreground" />
+      {filters.map((filter) => {
+        const invalid = !columns.includes(filter.column) || conditionError(filter, filter.type);
+        return (
+          <FilterEditor
+            key={filter.id}
+            open={editing === filter.id}
+            onOpenChange={(open) => setEditing(open ? filter.id : null)}
+            columns={columns}
+            columnTypes={columnTypes}
+            filter={filter}
+            onSave={save}
+          >
+            <div
+              className={cn(
+                'flex h-7 items-center gap-1 rounded-full border bg-secondary pl-3 pr-1 text-xs',
+                invalid && 'border-destructive text-destructive'
+              )}
+            >
+              <button className="max-w-[260px] truncate font-mono" title={describeFilter(filter)}>
+                {describeFilter(filter)}
+              </button>
+              <button
+                className="rounded-full p-0.5 hover:bg-background"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onChange(filters.filter((item) => item.id !== filter.id));
+                }}
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove filter</span>
+              </button>
+            </div>
+          </FilterEditor>
+        );
+      })}
+      <FilterEditor
+        open={editing === 'new'}
+        onOpenChange={(open) => setEditing(open ? 'new' : null)}
+        columns={columns}
+        columnTypes={columnTypes}
+        filter={null}
+        onSave={save}
+      >
+        <Button variant="outline" size="sm" className="h-7" disabled={columns.length === 0}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add filter
+        </Button>
+      </FilterEditor>
+      {filters.length > 0 && (
+        <>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={mode}
+            onValueChange={(value: FilterMode) => value && onModeChange(value)}
+          >
+            <ToggleGroupItem value="client" className="h-7 text-xs">
+              This page
+            </ToggleGroupItem>
+            <ToggleGroupItem value="server" className="h-7 text-xs" disabled={!canPushDown}>
+              Re-query server
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Button variant="ghost" size="sm" className="h-7" onClick={() => onChange([])}>
+            Clear
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface FilterEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: string[];
+  columnTypes: Record<string, string>;
+  // null adds a new filter
+  filter: ColumnFilter | null;
+  onSave: (filter: ColumnFilter) => void;
+  children: React.ReactNode;
+}
+
+function FilterEditor({
+  open,
+  onOpenChange,
+  columns,
+  columnTypes,
+  filter,
+  onSave,
+  children,
+}: FilterEditorProps) {
+  const [draft, setDraft] = useState<ColumnFilter | null>(null);
+
+  // The draft is rebuilt each time the popover opens so cancelled edits are dropped
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      const column = filter?.column ?? columns[0];
+      const type = filter?.type ?? columnTypes[column];
+      setDraft(
+        filter ?? {
+          id: createId(),
+          column,
+          type,
+          operator: operatorsForKind(columnKind(type))[0],
+          value: '',
+          valueTo: '',
+        }
+      );
+    }
+    onOpenChange(next);
+  };
+
+  const kind = columnKind(draft?.type);
+  const error = draft ? conditionError(draft, draft.type) : null;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent align="start" className="w-80">
+        {draft && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!error) onSave(draft);
+            }}
+          >
+            <div className="space-y-1">
+              <Label className="text-xs">Column</Label>
+              <Select
+                value={draft.column}
+                onValueChange={(column) => {
+                  const type = columnTypes[column];
+                  const operators = operatorsForKind(columnKind(type));
+                  setDraft({
+                    ...draft,
+                    column,
+                    type,
+                    operator: operators.includes(draft.operator) ? draft.operator : operators[0],
+                  });
+                }}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {columns.map((column) => (
+                    <SelectItem key={column} value={column}>
+                      {column}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {columnTypes[column]}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Condition</Label>
+              <Select
+                value={draft.operator}
+                onValueChange={(operator: FilterOperator) => setDraft({ ...draft, operator })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {operatorsForKind(kind).map((operator) => (
+                    <SelectItem key={operator} value={operator}>
+                      {OPERATOR_LABELS[operator]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {operatorNeedsValue(draft.operator) &&
+              (kind === 'boolean' ? (
+                <Select
+                  value={draft.value}
+                  onValueChange={(value) => setDraft({ ...draft, value })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Pick..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="true">true</SelectItem>
+                    <SelectItem value="false">false</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Input
+                    autoFocus
+                    type={kind === 'date' ? 'date' : 'text'}
+                    placeholder={
+                      draft.operator === 'regex'
+                        ? 'Pattern'
+                        : kind === 'datetime'
+                          ? 'YYYY-MM-DD HH:MM'
+                          : 'Value'
+                    }
+                    value={draft.value}
+                    onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+                    className="h-8"
+                  />
+                  {draft.operator === 'between' && (
+                    <>
+                      <span className="text-xs text-muted-foreground">and</span>
+                      <Input
+                        type={kind === 'date' ? 'date' : 'text'}
+                        placeholder={kind === 'datetime' ? 'YYYY-MM-DD HH:MM' : 'Value'}
+                        value={draft.valueTo}
+                        onChange={(e) => setDraft({ ...draft, valueTo: e.target.value })}
+                        className="h-8"
+                      />
+                    </>
+                  )}
+                </div>
+              ))}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={Boolean(error)}>
+                Apply
+              </Button>
+            </div>
+          </form>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
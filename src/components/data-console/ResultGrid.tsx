@@ -0,0 +1,468 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ArrowDown, ArrowUp, ArrowUpDown, KeyRound, Link2 } from 'lucide-react';
+import type { SortSpec } from '@/lib/sql';
+import { sameValue, toCellValue, type CellValue } from '@/lib/changeset';
+import { cn } from '@/lib/utils';
+import { CellEditor, type CellMove } from '@/components/data-console/CellEditor';
+import { CellContent, CellDetailButton } from '@/components/data-console/CellRenderer';
+import { Checkbox } from '@/components/ui/checkbox';
+
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 40;
+const MIN_COLUMN_WIDTH = 64;
+const SELECT_WIDTH = 40;
+// A single click waits this long so that a double click can start editing instead
+const CLICK_DELAY = 250;
+
+interface ResultGridProps {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  pinnedColumns?: string[];
+  sort?: SortSpec | null;
+  onSort?: (column: string) => void;
+  onRowClick?: (row: Record<string, unknown>) => void;
+  cellClassName?: (row: Record<string, unknown>, column: string) => string | undefined;
+  columnTypes?: Record<string, string>;
+  relativeTimestamps?: boolean;
+  isCellEditable?: (row: Record<string, unknown>, column: string) => boolean;
+  onCellEdit?: (row: Record<string, unknown>, column: string, value: CellValue) => void;
+  emptyMessage?: string;
+  className?: string;
+  // Rows are selected by identity, so rows from a new result start out unselected
+  selectedRows?: Set<Record<string, unknown>>;
+  onSelectionChange?: (rows: Set<Record<string, unknown>>) => void;
+  // Foreign key columns and the table each references; their values link to that row
+  references?: Map<string, string>;
+  onFollowReference?: (row: Record<string, unknown>, column: string) => void;
+}
+
+const defaultWidth = (column: string) => Math.min(320, Math.max(120, column.length * 9 + 48));
+
+export function ResultGrid({
+  columns,
+  rows,
+  pinnedColumns = [],
+  sort,
+  onSort,
+  onRowClick,
+  cellClassName,
+  columnTypes = {},
+  relativeTimestamps = false,
+  isCellEditable = () => true,
+  onCellEdit,
+  emptyMessage = 'No data available',
+  className,
+  selectedRows,
+  onSelectionChange,
+  references,
+  onFollowReference,
+}: ResultGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const [order, setOrder] = useState<string[]>(columns);
+  const [dragColumn, setDragColumn] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ rowIndex: number; column: string } | null>(null);
+  const resizingRef = useRef(false);
+  const clickTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  // The row a shift-click selects a range from
+  const anchorRef = useRef<number | null>(null);
+  const selectable = Boolean(onSelectionChange);
+
+  useEffect(() => () => clearTimeout(clickTimerRef.current), []);
+
+  useEffect(() => {
+    setOrder((current) => {
+      const kept = current.filter((column) => columns.includes(column));
+      return [...kept, ...columns.filter((column) => !kept.includes(column))];
+    });
+  }, [columns]);
+
+  // A different result set ends any edit in progress
+  const columnsKey = columns.join('\u0000');
+  useEffect(() => {
+    setEditing(null);
+    anchorRef.current = null;
+  }, [columnsKey]);
+
+  const pinned = useMemo(
+    () => order.filter((column) => pinnedColumns.includes(column)),
+    [order, pinnedColumns]
+  );
+  const scrollable = useMemo(
+    () => order.filter((column) => !pinnedColumns.includes(column)),
+    [order, pinnedColumns]
+  );
+
+  const widthOf = useCallback(
+    (column: string) => widths[column] ?? defaultWidth(column),
+    [widths]
+  );
+  const pinnedWidth = pinned.reduce(
+    (total, column) => total + widthOf(column),
+    selectable ? SELECT_WIDTH : 0
+  );
+
+  const rowVirtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    paddingStart: HEADER_HEIGHT,
+    overscan: 12,
+  });
+
+  const columnVirtualizer = useVirtualizer({
+    horizontal: true,
+    count: scrollable.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => widthOf(scrollable[index]),
+    paddingStart: pinnedWidth,
+    overscan: 4,
+  });
+
+  useEffect(() => {
+    columnVirtualizer.measure();
+  }, [columnVirtualizer, scrollable, widths]);
+
+  const totalWidth = columnVirtualizer.getTotalSize();
+  const virtualColumns = columnVirtualizer.getVirtualItems();
+
+  const startResize = useCallback(
+    (column: string, event: React.PointerEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      resizingRef.current = true;
+      const startX = event.clientX;
+      const startWidth = widthOf(column);
+
+      const handleMove = (moveEvent: PointerEvent) => {
+        const next = Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX);
+        setWidths((prev) => ({ ...prev, [column]: next }));
+      };
+      const handleUp = () => {
+        window.removeEventListener('pointermove', handleMove);
+        window.removeEventListener('pointerup', handleUp);
+        // Let the click that ends a resize fall through without toggling the sort
+        setTimeout(() => {
+          resizingRef.current = false;
+        }, 0);
+      };
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerup', handleUp);
+    },
+    [widthOf]
+  );
+
+  const canEdit = (rowIndex: number, column: string) =>
+    Boolean(onCellEdit) && rowIndex >= 0 && rowIndex < rows.length && isCellEditable(rows[rowIndex], column);
+
+  const startEditing = (rowIndex: number, column: string) => {
+    setEditing({ rowIndex, column });
+    rowVirtualizer.scrollToIndex(rowIndex);
+    const columnIndex = scrollable.indexOf(column);
+    if (columnIndex !== -1) columnVirtualizer.scrollToIndex(columnIndex);
+  };
+
+  // Enter moves down a column and Tab along a row, wrapping onto the next row
+  const moveEditing = (rowIndex: number, column: string, move: CellMove) => {
+    const visible = [...pinned, ...scrollable];
+    let next: { rowIndex: number; column: string } | null = null;
+    if (move === 'down' || move === 'up') {
+      const target = rowIndex + (move === 'down' ? 1 : -1);
+      if (canEdit(target, column)) next = { rowIndex: target, column };
+    } else if (move) {
+      const step = move === 'next' ? 1 : -1;
+      let position = rowIndex * visible.length + visible.indexOf(column) + step;
+      while (position >= 0 && position < rows.length * visible.length) {
+        const candidate = {
+          rowIndex: Math.floor(position / visible.length),
+          column: visible[position % visible.length],
+        };
+        if (canEdit(candidate.rowIndex, candidate.column)) {
+          next = candidate;
+          break;
+        }
+        position += step;
+      }
+    }
+    if (next) startEditing(next.rowIndex, next.column);
+    else setEditing(null);
+  };
+
+  const handleCommit = (rowIndex: number, column: string, value: CellValue, move: CellMove) => {
+    const row = rows[rowIndex];
+    if (row && !sameValue(row[column], value)) onCellEdit?.(row, column, value);
+    moveEditing(rowIndex, column, move);
+  };
+
+  const handleRowClick = (row: Record<string, unknown>, event: React.MouseEvent) => {
+    if (!onRowClick) return;
+    if (!onCellEdit) {
+      onRowClick(row);
+      return;
+    }
+    clearTimeout(clickTimerRef.current);
+    if (event.detail > 1) return;
+    clickTimerRef.current = setTimeout(() => onRowClick(row), CLICK_DELAY);
+  };
+
+  // Shift-click selects every row between the last clicked one and this one
+  const toggleRow = (rowIndex: number, shiftKey: boolean) => {
+    const next = new Set(selectedRows);
+    const anchor = anchorRef.current;
+    if (shiftKey && anchor !== null && anchor < rows.length) {
+      const [from, to] = anchor < rowIndex ? [anchor, rowIndex] : [rowIndex, anchor];
+      rows.slice(from, to + 1).forEach((row) => next.add(row));
+    } else if (next.has(rows[rowIndex])) {
+      next.delete(rows[rowIndex]);
+    } else {
+      next.add(rows[rowIndex]);
+    }
+    anchorRef.current = rowIndex;
+    onSelectionChange?.(next);
+  };
+
+  const selectedCount = selectable ? rows.filter((row) => selectedRows?.has(row)).length : 0;
+
+  const moveColumn = useCallback((source: string, target: string) => {
+    if (source === target) return;
+    setOrder((current) => {
+      const next = current.filter((column) => column !== source);
+      next.splice(next.indexOf(target), 0, source);
+      return next;
+    });
+  }, []);
+
+  const renderHeader = (column: string, style: React.CSSProperties) => {
+    const isPinned = pinnedColumns.includes(column);
+    const SortIcon =
+      sort?.column !== column ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <div
+        key={column}
+        style={style}
+        draggable={!isPinned}
+        onDragStart={() => setDragColumn(column)}
+        onDragOver={(event) => {
+          if (dragColumn && !isPinned) event.preventDefault();
+        }}
+        onDrop={() => {
+          if (dragColumn) moveColumn(dragColumn, column);
+          setDragColumn(null);
+        }}
+        onDragEnd={() => setDragColumn(null)}
+        className={cn(
+          'group flex h-full items-center border-r px-3 text-sm font-medium text-muted-foreground',
+          dragColumn === column && 'opacity-50'
+        )}
+      >
+        <button
+          type="button"
+          onClick={() => {
+            if (!resizingRef.current) onSort?.(column);
+          }}
+          className="flex min-w-0 items-center gap-1 hover:text-foreground"
+        >
+          {isPinned && <KeyRound className="h-3 w-3 shrink-0" />}
+          {!isPinned && references?.has(column) && <Link2 className="h-3 w-3 shrink-0" />}
+          <span className="truncate">{column}</span>
+          <SortIcon
+            className={cn(
+              'h-3 w-3 shrink-0',
+              sort?.column !== column && 'text-muted-foreground/50'
+            )}
+          />
+        </button>
+        <div
+          onPointerDown={(event) => startResize(column, event)}
+          className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize group-hover:bg-border"
+        />
+      </div>
+    );
+  };
+
+  const renderCell = (rowIndex: number, column: string, style: React.CSSProperties) => {
+    const row = rows[rowIndex];
+    const isEditing = editing?.rowIndex === rowIndex && editing.column === column;
+    return (
+      <div
+        key={column}
+        style={style}
+        onDoubleClick={() => {
+          if (!canEdit(rowIndex, column)) return;
+          clearTimeout(clickTimerRef.current);
+          startEditing(rowIndex, column);
+        }}
+        className={cn(
+          'group/cell flex h-full items-center border-r font-mono text-sm',
+          isEditing ? 'z-10 overflow-visible p-0' : 'px-3',
+          cellClassName?.(row, column)
+        )}
+      >
+        {isEditing ? (
+          <CellEditor
+            initialValue={toCellValue(row[column])}
+            columnType={columnTypes[column]}
+            onCommit={(value, move) => handleCommit(rowIndex, column, value, move)}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <>
+            {onFollowReference &&
+            references?.has(column) &&
+            row[column] !== null &&
+            row[column] !== undefined ? (
+              <button
+                type="button"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  clearTimeout(clickTimerRef.current);
+                  onFollowReference(row, column);
+                }}
+                onDoubleClick={(event) => event.stopPropagation()}
+                title={`Open the referenced row in ${references.get(column)}`}
+                className="flex min-w-0 flex-1 items-center overflow-hidden text-primary underline-offset-2 hover:underline"
+              >
+                <CellContent
+                  value={row[column]}
+                  columnType={columnTypes[column]}
+                  relativeTimestamps={relativeTimestamps}
+                />
+              </button>
+            ) : (
+              <span className="flex min-w-0 flex-1 items-center overflow-hidden">
+                <CellContent
+                  value={row[column]}
+                  columnType={columnTypes[column]}
+                  relativeTimestamps={relativeTimestamps}
+                />
+              </span>
+            )}
+            {row[column] !== null && row[column] !== undefined && (
+              <CellDetailButton
+                value={row[column]}
+                columnType={columnTypes[column]}
+                column={column}
+              />
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      className={cn('relative max-h-[480px] overflow-auto rounded-md border', className)}
+    >
+      <div
+        className="relative"
+        style={{ width: totalWidth, height: rowVirtualizer.getTotalSize() || HEADER_HEIGHT }}
+      >
+        <div
+          className="sticky top-0 z-20 border-b bg-background"
+          style={{ width: totalWidth, height: HEADER_HEIGHT }}
+        >
+          <div className="sticky left-0 z-10 flex h-full bg-background" style={{ width: pinnedWidth }}>
+            {selectable && (
+              <div
+                className="flex h-full shrink-0 items-center justify-center border-r"
+                style={{ width: SELECT_WIDTH }}
+              >
+                <Checkbox
+                  checked={
+                    selectedCount > 0 && selectedCount === rows.length
+                      ? true
+                      : selectedCount > 0
+                        ? 'indeterminate'
+                        : false
+                  }
+                  onCheckedChange={(checked) =>
+                    onSelectionChange(checked === true ? new Set(rows) : new Set())
+                  }
+                  disabled={rows.length === 0}
+                  aria-label="Select all rows"
+                />
+              </div>
+            )}
+            {pinned.map((column) =>
+              renderHeader(column, { position: 'relative', width: widthOf(column) })
+            )}
+          </div>
+          {virtualColumns.map((virtualColumn) =>
+            renderHeader(scrollable[virtualColumn.index], {
+              position: 'absolute',
+              top: 0,
+              left: virtualColumn.start,
+              width: virtualColumn.size,
+            })
+          )}
+        </div>
+
+        {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+          const row = rows[virtualRow.index];
+          const isSelected = selectable && Boolean(selectedRows?.has(row));
+          return (
+            <div
+              key={virtualRow.key}
+              onClick={(event) => handleRowClick(row, event)}
+              className={cn(
+                'group/row absolute left-0 cursor-pointer border-b hover:bg-muted/50',
+                isSelected && 'bg-primary/5'
+              )}
+              style={{
+                top: virtualRow.start,
+                height: ROW_HEIGHT,
+                width: totalWidth,
+                // The cell being edited may open a panel that overlaps the rows below
+                zIndex: editing?.rowIndex === virtualRow.index ? 30 : undefined,
+              }}
+            >
+              <div
+                className={cn(
+                  'sticky left-0 z-10 flex h-full bg-background group-hover/row:bg-muted',
+                  isSelected && 'bg-muted'
+                )}
+                style={{ width: pinnedWidth }}
+              >
+                {selectable && (
+                  <div
+                    className="flex h-full shrink-0 items-center justify-center border-r"
+                    style={{ width: SELECT_WIDTH }}
+                    onClick={(event) => event.stopPropagation()}
+                  >
+                    <Checkbox
+                      checked={isSelected}
+                      onClick={(event) => {
+                        event.preventDefault();
+                        toggleRow(virtualRow.index, event.shiftKey);
+                      }}
+                      aria-label={`Select row ${virtualRow.index + 1}`}
+                    />
+                  </div>
+                )}
+                {pinned.map((column) =>
+                  renderCell(virtualRow.index, column, { position: 'relative', width: widthOf(column) })
+                )}
+              </div>
+              {virtualColumns.map((virtualColumn) =>
+                renderCell(virtualRow.index, scrollable[virtualColumn.index], {
+                  position: 'absolute',
+                  top: 0,
+                  left: virtualColumn.start,
+                  width: virtualColumn.size,
+                })
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {rows.length === 0 && (
+        <div className="flex h-24 items-center justify-center text-sm text-muted-foreground">
+          {emptyMessage}
+        </div>
+      )}
+    </div>
+  );
+}
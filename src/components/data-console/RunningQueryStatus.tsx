@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { RunningQuery } from '@/stores/consoleStore';
+
+interface RunningQueryStatusProps {
+  queries: RunningQuery[];
+  onCancel: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, '0')}s`;
+};
+
+// Elapsed time of the longest-running statement in a tab, with a button to stop them all
+export function RunningQueryStatus({ queries, onCancel }: RunningQueryStatusProps) {
+  const [now, setNow] = useState(Date.now());
+  const startedAt = Math.min(...queries.map((query) => query.startedAt));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="flex items-center gap-2 text-sm tabular-nums text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Running {formatElapsed(Math.max(0, now - startedAt))}
+        {queries.length > 1 && ` (${queries.length} statements)`}
+      </span>
+      <Button variant="destructive" onClick={onCancel}>
+        <Square className="mr-2 h-4 w-4" />
+        Cancel
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import type { SavedQueryInput } from '@/stores/consoleStore';
+
+interface SaveQueryDialogProps {
+  query: SavedQueryInput | null;
+  folders: string[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (query: SavedQueryInput) => void;
+}
+
+export function SaveQueryDialog({ query, folders, onOpenChange, onSave }: SaveQueryDialogProps) {
+  const [values, setValues] = useState<SavedQueryInput>({
+    name: '',
+    folder: '',
+    description: '',
+    sql: '',
+  });
+
+  useEffect(() => {
+    if (query) setValues(query);
+  }, [query]);
+
+  const update = (patch: Partial<SavedQueryInput>) =>
+    setValues((prev) => ({ ...prev, ...patch }));
+
+  const canSave = values.name.trim() !== '' && values.sql.trim() !== '';
+
+  return (
+    <Dialog open={query !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{query?.id ? 'Edit Saved Query' : 'Save Query'}</DialogTitle>
+          <DialogDescription>
+            Use <code className="font-mono">:name</code> placeholders for values you want to be
+            prompted for when running it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-query-name">Name</Label>
+            <Input
+              id="saved-query-name"
+              value={values.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="Orphaned memory links"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saved-query-folder">Folder</Label>
+            <Input
+              id="saved-query-folder"
+              list="saved-query-folders"
+              value={values.folder}
+              onChange={(e) => update({ folder: e.target.value })}
+              placeholder="Diagnostics"
+            />
+            <datalist id="saved-query-folders">
+              {folders.map((folder) => (
+                <option key={folder} value={folder} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saved-query-description">Description</Label>
+            <Input
+              id="saved-query-description"
+              value={values.description}
+              onChange={(e) => update({ description: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saved-query-sql">SQL</Label>
+            <Textarea
+              id="saved-query-sql"
+              value={values.sql}
+              onChange={(e) => update({ sql: e.target.value })}
+              className="min-h-[120px] font-mono text-sm"
+            />
+          </div>
+          {values.chart && (
+            <p className="text-sm text-muted-foreground">
+              The {values.chart.type} chart of the result is saved with the query and shown when it
+              is run from the library.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!canSave}
+            onClick={() =>
+              onSave({ ...values, name: values.name.trim(), folder: values.folder.trim() })
+            }
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,225 @@
+import { useMemo, useRef, useState } from 'react';
+import {
+  Download,
+  ExternalLink,
+  Folder,
+  Pencil,
+  Pin,
+  PinOff,
+  Play,
+  Search,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useDebounce } from '@/hooks/useDebounce';
+import { parseSavedQueries, serializeSavedQueries } from '@/lib/savedQueries';
+import { downloadFile } from '@/lib/utils';
+import type { SavedQuery } from '@/stores/consoleStore';
+
+interface SavedQueriesPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  queries: SavedQuery[];
+  onRun: (query: SavedQuery) => void;
+  onOpenInTab: (query: SavedQuery) => void;
+  onEdit: (query: SavedQuery) => void;
+  onDelete: (id: string) => void;
+  onTogglePin: (id: string) => void;
+  onImport: (queries: SavedQuery[]) => void;
+}
+
+export function SavedQueriesPanel({
+  open,
+  onOpenChange,
+  queries,
+  onRun,
+  onOpenInTab,
+  onEdit,
+  onDelete,
+  onTogglePin,
+  onImport,
+}: SavedQueriesPanelProps) {
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebounce(search, 200);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const folders = useMemo(() => {
+    const needle = debouncedSearch.trim().toLowerCase();
+    const grouped = new Map<string, SavedQuery[]>();
+    queries
+      .filter(
+        (query) =>
+          !needle ||
+          query.name.toLowerCase().includes(needle) ||
+          query.sql.toLowerCase().includes(needle) ||
+          query.folder.toLowerCase().includes(needle)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((query) => {
+        grouped.set(query.folder, [...(grouped.get(query.folder) ?? []), query]);
+      });
+    return [...grouped.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [debouncedSearch, queries]);
+
+  const handleExport = () => {
+    downloadFile(
+      serializeSavedQueries(queries),
+      `genesis-saved-queries_${new Date().toISOString()}.json`,
+      'application/json'
+    );
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseSavedQueries(await file.text());
+      onImport(imported);
+      toast.success(`Imported ${imported.length} saved queries`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-[400px] flex-col sm:w-[540px]">
+        <SheetHeader>
+          <SheetTitle>Saved Queries</SheetTitle>
+          <SheetDescription>Named queries shared across your editor tabs</SheetDescription>
+        </SheetHeader>
+        <div className="mt-4 flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search saved queries..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Button variant="outline" size="icon" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            <span className="sr-only">Import</span>
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleExport}
+            disabled={queries.length === 0}
+          >
+            <Download className="h-4 w-4" />
+            <span className="sr-only">Export</span>
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </div>
+        <ScrollArea className="-mx-2 mt-4 flex-1">
+          <div className="space-y-4 px-2">
+            {folders.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {debouncedSearch ? 'No matching queries' : 'No saved queries yet'}
+              </p>
+            ) : (
+              folders.map(([folder, items]) => (
+                <div key={folder} className="space-y-2">
+                  <div className="flex items-center gap-2 text-xs font-medium uppercase text-muted-foreground">
+                    <Folder className="h-3 w-3" />
+                    {folder || 'Unfiled'}
+                  </div>
+                  {items.map((query) => (
+                    <div key={query.id} className="rounded-md border p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="truncate text-sm font-medium">{query.name}</p>
+                          {query.description && (
+                            <p className="text-xs text-muted-foreground">{query.description}</p>
+                          )}
+                        </div>
+                        <div className="flex shrink-0 items-center">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => onTogglePin(query.id)}
+                          >
+                            {query.pinned ? (
+                              <PinOff className="h-3 w-3" />
+                            ) : (
+                              <Pin className="h-3 w-3" />
+                            )}
+                            <span className="sr-only">{query.pinned ? 'Unpin' : 'Pin'}</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => onEdit(query)}
+                          >
+                            <Pencil className="h-3 w-3" />
+                            <span className="sr-only">Edit</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => onOpenInTab(query)}
+                          >
+                            <ExternalLink className="h-3 w-3" />
+                            <span className="sr-only">Open in new tab</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive"
+                            onClick={() => {
+                              if (window.confirm(`Delete saved query "${query.name}"?`)) {
+                                onDelete(query.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                            <span className="sr-only">Delete</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2"
+                            onClick={() => onRun(query)}
+                          >
+                            <Play className="mr-1 h-3 w-3" />
+                            Run
+                          </Button>
+                        </div>
+                      </div>
+                      <pre className="mt-2 line-clamp-3 whitespace-pre-wrap break-all font-mono text-xs text-muted-foreground">
+                        {query.sql}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
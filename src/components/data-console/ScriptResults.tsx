@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import {
+  BarChart3,
+  CheckCircle,
+  Circle,
+  Loader2,
+  MinusCircle,
+  Table2,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ResultGrid } from '@/components/data-console/ResultGrid';
+import { ResultChart } from '@/components/data-console/ResultChart';
+import { scriptSummary, type ScriptRun, type ScriptStepStatus } from '@/lib/script';
+import { inferColumnType } from '@/lib/filters';
+import type { ChartSpec } from '@/lib/chart';
+
+interface ScriptResultsProps {
+  run: ScriptRun;
+  relativeTimestamps: boolean;
+  onClose: () => void;
+}
+
+const STATUS_ICONS: Record<ScriptStepStatus, React.ReactNode> = {
+  pending: <Circle className="h-3 w-3 text-muted-foreground" />,
+  running: <Loader2 className="h-3 w-3 animate-spin" />,
+  success: <CheckCircle className="h-3 w-3 text-green-500" />,
+  error: <XCircle className="h-3 w-3 text-destructive" />,
+  skipped: <MinusCircle className="h-3 w-3 text-muted-foreground" />,
+};
+
+export function ScriptResults({ run, relativeTimestamps, onClose }: ScriptResultsProps) {
+  const [selected, setSelected] = useState('0');
+  // Statements shown as a chart, with the chart settings of each
+  const [charts, setCharts] = useState<Record<number, ChartSpec | null>>({});
+  const summary = scriptSummary(run);
+  const firstError = run.steps.findIndex((step) => step.status === 'error');
+
+  // Follow the statement that is running, then land on the first failure once the run ends
+  const runningIndex = run.steps.findIndex((step) => step.status === 'running');
+  useEffect(() => {
+    if (runningIndex !== -1) setSelected(String(runningIndex));
+  }, [runningIndex]);
+  useEffect(() => {
+    if (run.finished && firstError !== -1) setSelected(String(firstError));
+  }, [firstError, run.finished]);
+  // A new run starts every statement back on its table
+  useEffect(() => {
+    setCharts({});
+  }, [run.id]);
+
+  const toggleChart = (index: number) =>
+    setCharts((current) => {
+      const next = { ...current };
+      if (index in next) delete next[index];
+      else next[index] = null;
+      return next;
+    });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base">Script results</CardTitle>
+            <CardDescription>
+              {run.steps.length} statements
+              {run.continueOnError ? ', continuing past errors' : ', stopping at the first error'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">{summary.succeeded} succeeded</Badge>
+            {summary.failed > 0 && <Badge variant="destructive">{summary.failed} failed</Badge>}
+            {summary.skipped > 0 && <Badge variant="outline">{summary.skipped} skipped</Badge>}
+            {run.finished && <Badge variant="outline">{summary.executionTime}ms</Badge>}
+            <Button variant="ghost" size="icon" onClick={onClose} disabled={!run.finished}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Close script results</span>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={selected} onValueChange={setSelected}>
+          <TabsList className="h-auto flex-wrap justify-start">
+            {run.steps.map((step, index) => (
+              <TabsTrigger key={index} value={String(index)} className="gap-1.5">
+                {STATUS_ICONS[step.status]}
+                {index + 1}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {run.steps.map((step, index) => (
+            <TabsContent key={index} value={String(index)} className="space-y-3">
+              <pre className="max-h-32 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 font-mono text-xs">
+                {step.sql}
+              </pre>
+              {step.status === 'error' && (
+                <p className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                  {step.error}
+                </p>
+              )}
+              {step.status === 'skipped' && (
+                <p className="text-sm text-muted-foreground">
+                  Not run because an earlier statement failed or the script was cancelled
+                </p>
+              )}
+              {(step.status === 'pending' || step.status === 'running') && (
+                <p className="text-sm text-muted-foreground">
+                  {step.status === 'running' ? 'Running...' : 'Waiting for earlier statements'}
+                </p>
+              )}
+              {step.result && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-muted-foreground">
+                      {step.result.columns?.length
+                        ? `${step.result.rows.length.toLocaleString()} rows`
+                        : `${(step.result.rowCount ?? 0).toLocaleString()} rows affected`}{' '}
+                      in {step.result.executionTime}ms
+                    </p>
+                    {step.result.columns?.length > 0 && (
+                      <Button variant="outline" size="sm" onClick={() => toggleChart(index)}>
+                        {index in charts ? (
+                          <Table2 className="mr-2 h-4 w-4" />
+                        ) : (
+                          <BarChart3 className="mr-2 h-4 w-4" />
+                        )}
+                        {index in charts ? 'Table' : 'Chart'}
+                      </Button>
+                    )}
+                  </div>
+                  {step.result.columns?.length > 0 && index in charts && (
+                    <ResultChart
+                      columns={step.result.columns}
+                      rows={step.result.rows}
+                      columnTypes={Object.fromEntries(
+                        step.result.columns.map((column) => [
+                          column,
+                          inferColumnType(step.result.rows.map((row) => row[column])),
+                        ])
+                      )}
+                      spec={charts[index]}
+                      onSpecChange={(spec) =>
+                        setCharts((current) => ({ ...current, [index]: spec }))
+                      }
+                    />
+                  )}
+                  {step.result.columns?.length > 0 && !(index in charts) && (
+                    <ResultGrid
+                      columns={step.result.columns}
+                      rows={step.result.rows}
+                      relativeTimestamps={relativeTimestamps}
+                      className="max-h-[360px]"
+                    />
+                  )}
+                </>
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
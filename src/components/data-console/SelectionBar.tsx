@@ -0,0 +1,122 @@
+import { ChevronDown, Copy, CopyPlus, Download, Pencil, Trash2, X } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import type { BulkAction } from '@/components/data-console/BulkActionDialog';
+
+export type CopyFormat = 'json' | 'csv' | 'sql';
+
+interface SelectionBarProps {
+  count: number;
+  allMatching: boolean;
+  // Offered once the whole page is selected and the query has more rows; null otherwise
+  matchingCount: number | null;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onCopy: (format: CopyFormat) => void;
+  canCopyAsSql: boolean;
+  onExport: () => void;
+  // Why the selected rows cannot be changed (no table, or no key columns), if they cannot
+  writeBlockedReason: string | null;
+  // Hidden altogether on a read-only connection
+  showWriteActions: boolean;
+  // Copies are inserted from the loaded rows, so they cannot cover rows that were not loaded
+  canDuplicate: boolean;
+  onAction: (action: BulkAction) => void;
+}
+
+export function SelectionBar({
+  count,
+  allMatching,
+  matchingCount,
+  onSelectAllMatching,
+  onClear,
+  onCopy,
+  canCopyAsSql,
+  onExport,
+  writeBlockedReason,
+  showWriteActions,
+  canDuplicate,
+  onAction,
+}: SelectionBarProps) {
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+      <span className="font-medium">
+        {count.toLocaleString()} {count === 1 ? 'row' : 'rows'} selected
+      </span>
+      {allMatching ? (
+        <span className="text-muted-foreground">(every row matching the query)</span>
+      ) : (
+        matchingCount !== null && (
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAllMatching}>
+            Select all {matchingCount.toLocaleString()} matching rows
+          </Button>
+        )
+      )}
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+              <ChevronDown className="ml-1 h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => onCopy('json')}>As JSON</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onCopy('csv')}>As CSV</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onCopy('sql')} disabled={!canCopyAsSql}>
+              As INSERT statements
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button variant="outline" size="sm" onClick={onExport}>
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+        {showWriteActions && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onAction('duplicate')}
+              disabled={writeBlockedReason !== null || !canDuplicate}
+              title={writeBlockedReason ?? undefined}
+            >
+              <CopyPlus className="mr-2 h-4 w-4" />
+              Duplicate
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onAction('update')}
+              disabled={writeBlockedReason !== null}
+              title={writeBlockedReason ?? undefined}
+            >
+              <Pencil className="mr-2 h-4 w-4" />
+              Update column
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => onAction('delete')}
+              disabled={writeBlockedReason !== null}
+              title={writeBlockedReason ?? undefined}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          </>
+        )}
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Clear selection</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
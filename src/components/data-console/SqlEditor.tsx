@@ -0,0 +1,268 @@
+import { useEffect, useRef } from 'react';
+import { basicSetup } from 'codemirror';
+import { acceptCompletion } from '@codemirror/autocomplete';
+import { Compartment, EditorState, Prec, type Extension } from '@codemirror/state';
+import { EditorView, hoverTooltip, keymap, placeholder as placeholderText } from '@codemirror/view';
+import { HighlightStyle, syntaxHighlighting } from '@codemirror/language';
+import { PostgreSQL, sql, type SQLNamespace } from '@codemirror/lang-sql';
+import { tags } from '@lezer/highlight';
+import type { SchemaColumn, SchemaTable } from '@/hooks/useApi';
+import { cn } from '@/lib/utils';
+
+interface SqlEditorProps {
+  // Identifies the document being edited, such as a query tab; each keeps its own undo history
+  docId?: string;
+  value: string;
+  onChange: (value: string) => void;
+  onRun?: (sql: string) => void;
+  onSelectionChange?: (selection: string) => void;
+  schema?: SchemaTable[];
+  placeholder?: string;
+  className?: string;
+}
+
+const editorTheme = EditorView.theme({
+  '&': {
+    fontSize: '0.875rem',
+    backgroundColor: 'transparent',
+    color: 'hsl(var(--foreground))',
+  },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': {
+    fontFamily:
+      'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", monospace',
+    minHeight: '120px',
+    maxHeight: '360px',
+  },
+  '.cm-content': { caretColor: 'hsl(var(--foreground))' },
+  '.cm-gutters': {
+    backgroundColor: 'transparent',
+    color: 'hsl(var(--muted-foreground))',
+    border: 'none',
+  },
+  '.cm-activeLine, .cm-activeLineGutter': { backgroundColor: 'hsl(var(--muted) / 0.5)' },
+  '&.cm-focused .cm-selectionBackground, .cm-selectionBackground, ::selection': {
+    backgroundColor: 'hsl(var(--primary) / 0.25)',
+  },
+  '&.cm-focused .cm-matchingBracket': { backgroundColor: 'hsl(var(--primary) / 0.3)' },
+  '.cm-tooltip': {
+    backgroundColor: 'hsl(var(--popover))',
+    color: 'hsl(var(--popover-foreground))',
+    border: '1px solid hsl(var(--border))',
+    borderRadius: 'calc(var(--radius) - 2px)',
+  },
+  '.cm-tooltip-autocomplete ul li[aria-selected]': {
+    backgroundColor: 'hsl(var(--accent))',
+    color: 'hsl(var(--accent-foreground))',
+  },
+});
+
+const highlightStyle = HighlightStyle.define([
+  { tag: tags.keyword, color: 'hsl(var(--primary))', fontWeight: '600' },
+  { tag: [tags.string, tags.special(tags.string)], color: 'hsl(var(--success))' },
+  { tag: [tags.number, tags.bool, tags.null], color: 'hsl(var(--warning))' },
+  { tag: [tags.typeName, tags.standard(tags.name)], color: 'hsl(var(--info))' },
+  {
+    tag: [tags.lineComment, tags.blockComment],
+    color: 'hsl(var(--muted-foreground))',
+    fontStyle: 'italic',
+  },
+  { tag: [tags.special(tags.name), tags.quote], color: 'hsl(var(--foreground))' },
+]);
+
+// Schema-qualified tables ("memory.episodes") are nested so completion works at each level
+function buildNamespace(schema: SchemaTable[]): SQLNamespace {
+  const namespace: Record<string, SQLNamespace> = {};
+  schema.forEach((table) => {
+    const parts = table.name.split('.');
+    let level = namespace;
+    parts.slice(0, -1).forEach((part) => {
+      level[part] = (level[part] as Record<string, SQLNamespace>) ?? {};
+      level = level[part] as Record<string, SQLNamespace>;
+    });
+    level[parts[parts.length - 1]] = table.columns.map((column) => ({
+      label: column.name,
+      type: 'property',
+      detail: column.type,
+      boost: column.primary_key ? 1 : 0,
+    }));
+  });
+  return namespace;
+}
+
+const languageFor = (schema: SchemaTable[] | undefined) =>
+  sql({
+    dialect: PostgreSQL,
+    upperCaseKeywords: true,
+    schema: schema ? buildNamespace(schema) : undefined,
+  });
+
+function describeColumn(table: string, column: SchemaColumn) {
+  const flags = [column.type, !column.nullable && 'NOT NULL', column.primary_key && 'PRIMARY KEY'];
+  return `${table}.${column.name}: ${flags.filter(Boolean).join(' · ')}`;
+}
+
+function columnTooltip(getSchema: () => SchemaTable[] | undefined) {
+  return hoverTooltip((view, pos) => {
+    const line = view.state.doc.lineAt(pos);
+    const offset = pos - line.from;
+    const before = /[\w$]*$/.exec(line.text.slice(0, offset))?.[0] ?? '';
+    const after = /^[\w$]*/.exec(line.text.slice(offset))?.[0] ?? '';
+    const word = before + after;
+    if (!word) return null;
+
+    const start = pos - before.length;
+    const qualifier = /([\w$.]+)\.$/.exec(line.text.slice(0, start - line.from))?.[1];
+    const matches = (getSchema() ?? []).flatMap((table) =>
+      (!qualifier || table.name === qualifier || table.name.endsWith(`.${qualifier}`)
+        ? table.columns
+        : []
+      )
+        .filter((column) => column.name === word)
+        .map((column) => describeColumn(table.name, column))
+    );
+    if (matches.length === 0) return null;
+
+    return {
+      pos: start,
+      end: start + word.length,
+      above: true,
+      create: () => {
+        const dom = document.createElement('div');
+        dom.className = 'px-2 py-1 font-mono text-xs';
+        dom.textContent = matches.join('\n');
+        dom.style.whiteSpace = 'pre';
+        return { dom };
+      },
+    };
+  });
+}
+
+const selectedText = (state: EditorState) =>
+  state.selection.ranges
+    .filter((range) => !range.empty)
+    .map((range) => state.sliceDoc(range.from, range.to))
+    .join('\n');
+
+export function SqlEditor({
+  docId,
+  value,
+  onChange,
+  onRun,
+  onSelectionChange,
+  schema,
+  placeholder = '',
+  className,
+}: SqlEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const languageRef = useRef(new Compartment());
+  const placeholderRef = useRef(new Compartment());
+  const extensionsRef = useRef<Extension[]>([]);
+  // The state each document was left in, restored with its history when it is edited again
+  const statesRef = useRef(new Map<string, EditorState>());
+  const docIdRef = useRef(docId);
+  // Everything the editor reads is kept in refs so the view is only created once; later
+  // document, value, schema and placeholder changes are synced into it by the effects below
+  const callbacksRef = useRef({ onChange, onRun, onSelectionChange });
+  const propsRef = useRef({ value, schema, placeholder });
+  callbacksRef.current = { onChange, onRun, onSelectionChange };
+  propsRef.current = { value, schema, placeholder };
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const shortcuts = Prec.highest(
+      keymap.of([
+        {
+          key: 'Mod-Enter',
+          run: (view) => {
+            callbacksRef.current.onRun?.(selectedText(view.state) || view.state.doc.toString());
+            return true;
+          },
+        },
+        { key: 'Tab', run: acceptCompletion },
+      ])
+    );
+
+    extensionsRef.current = [
+      shortcuts,
+      basicSetup,
+      EditorState.allowMultipleSelections.of(true),
+      languageRef.current.of(languageFor(propsRef.current.schema)),
+      placeholderRef.current.of(placeholderText(propsRef.current.placeholder)),
+      syntaxHighlighting(highlightStyle),
+      columnTooltip(() => propsRef.current.schema),
+      editorTheme,
+      EditorView.lineWrapping,
+      EditorView.updateListener.of((update) => {
+        if (update.docChanged) {
+          callbacksRef.current.onChange(update.state.doc.toString());
+        }
+        if (update.selectionSet || update.docChanged) {
+          callbacksRef.current.onSelectionChange?.(selectedText(update.state));
+        }
+      }),
+    ];
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({ doc: propsRef.current.value, extensions: extensionsRef.current }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Swapping whole states keeps undo, selection and scroll with the document they belong to
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || docIdRef.current === docId) return;
+    if (docIdRef.current !== undefined) statesRef.current.set(docIdRef.current, view.state);
+    docIdRef.current = docId;
+
+    const { value, schema, placeholder } = propsRef.current;
+    view.setState(
+      (docId !== undefined && statesRef.current.get(docId)) ||
+        EditorState.create({ doc: value, extensions: extensionsRef.current })
+    );
+    // A saved state still has the schema and placeholder it was left with
+    view.dispatch({
+      effects: [
+        languageRef.current.reconfigure(languageFor(schema)),
+        placeholderRef.current.reconfigure(placeholderText(placeholder)),
+      ],
+    });
+    callbacksRef.current.onSelectionChange?.(selectedText(view.state));
+  }, [docId]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.state.doc.toString() === value) return;
+    view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: languageRef.current.reconfigure(languageFor(schema)),
+    });
+  }, [schema]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: placeholderRef.current.reconfigure(placeholderText(placeholder)),
+    });
+  }, [placeholder]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        'overflow-hidden rounded-md border border-input bg-background ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2',
+        className
+      )}
+    />
+  );
+}
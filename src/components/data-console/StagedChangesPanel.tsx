@@ -0,0 +1,127 @@
+import { Check, Undo2, X } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  toCellValue,
+  toInputValue,
+  type CellValue,
+  type StagedChange,
+  type StagedChangeKind,
+} from '@/lib/changeset';
+import { cn } from '@/lib/utils';
+
+const KIND_STYLES: Record<StagedChangeKind, string> = {
+  insert: 'border-green-500/50 text-green-600 dark:text-green-400',
+  update: 'border-amber-500/50 text-amber-600 dark:text-amber-400',
+  delete: 'border-destructive/50 text-destructive',
+};
+
+const formatValue = (value: CellValue) => (value === null ? 'NULL' : value === '' ? "''" : value);
+
+interface StagedChangesPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  changes: StagedChange[];
+  isCommitting: boolean;
+  onDiscard: (id: string) => void;
+  onDiscardAll: () => void;
+  onCommit: () => void;
+}
+
+export function StagedChangesPanel({
+  open,
+  onOpenChange,
+  changes,
+  isCommitting,
+  onDiscard,
+  onDiscardAll,
+  onCommit,
+}: StagedChangesPanelProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-[400px] flex-col sm:w-[540px]">
+        <SheetHeader>
+          <SheetTitle>Staged Changes</SheetTitle>
+          <SheetDescription>
+            Committed together in one transaction; nothing is written if any change fails
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="-mx-2 mt-4 flex-1">
+          <div className="space-y-2 px-2">
+            {changes.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">No staged changes</p>
+            ) : (
+              changes.map((change) => (
+                <div key={change.id} className="rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex min-w-0 items-center gap-2">
+                      <Badge variant="outline" className={cn('uppercase', KIND_STYLES[change.kind])}>
+                        {change.kind}
+                      </Badge>
+                      <span className="truncate font-mono text-sm">{change.table}</span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2"
+                      onClick={() => onDiscard(change.id)}
+                    >
+                      <Undo2 className="mr-1 h-3 w-3" />
+                      Discard
+                    </Button>
+                  </div>
+                  <dl className="mt-2 space-y-1 font-mono text-xs">
+                    {change.kind === 'delete'
+                      ? Object.entries(change.original ?? {}).map(([column, value]) => (
+                          <div key={column} className="flex gap-2 text-muted-foreground line-through">
+                            <dt className="shrink-0">{column}:</dt>
+                            <dd className="truncate">{toInputValue(value)}</dd>
+                          </div>
+                        ))
+                      : Object.entries(change.values).map(([column, value]) => (
+                          <div key={column} className="flex gap-2">
+                            <dt className="shrink-0 text-muted-foreground">{column}:</dt>
+                            {change.kind === 'update' && (
+                              <dd className="truncate text-destructive line-through">
+                                {formatValue(toCellValue(change.original?.[column]))}
+                              </dd>
+                            )}
+                            <dd className="truncate text-green-600 dark:text-green-400">
+                              {formatValue(value)}
+                            </dd>
+                          </div>
+                        ))}
+                  </dl>
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+        <div className="flex gap-2 border-t pt-4">
+          <Button className="flex-1" onClick={onCommit} disabled={changes.length === 0 || isCommitting}>
+            <Check className="mr-2 h-4 w-4" />
+            {isCommitting ? 'Committing...' : `Commit ${changes.length} changes`}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              if (window.confirm('Discard all staged changes?')) onDiscardAll();
+            }}
+            disabled={changes.length === 0 || isCommitting}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Rollback
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { AlertTriangle, Loader2, Plus, RotateCcw, SquarePen, Trash2 } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useApplySchemaChange, type SchemaTable } from '@/hooks/useApi';
+import { createId } from '@/stores/consoleStore';
+import {
+  buildDesignStatements,
+  COMMON_COLUMN_TYPES,
+  designColumn,
+  diffDesign,
+  validateDesign,
+  type ColumnChangeKind,
+  type DesignColumn,
+  type TableDesign,
+} from '@/lib/tableDesign';
+import { cn } from '@/lib/utils';
+
+interface TableDesignerProps {
+  open: boolean;
+  // The table to alter, or null to create a new one
+  table: SchemaTable | null;
+  schema: SchemaTable[] | undefined;
+  onOpenChange: (open: boolean) => void;
+  onOpenInEditor: (sql: string) => void;
+}
+
+const CHANGE_STYLES: Record<ColumnChangeKind, { label: string; className: string }> = {
+  add: { label: 'Add', className: 'border-green-500/50 text-green-600' },
+  drop: { label: 'Drop', className: 'border-destructive/50 text-destructive' },
+  alter: { label: 'Change', className: 'border-amber-500/50 text-amber-600' },
+};
+
+const designFromTable = (table: SchemaTable | null): TableDesign =>
+  table
+    ? { name: table.name, columns: table.columns.map((column) => designColumn(createId(), column)) }
+    : {
+        name: '',
+        columns: [
+          {
+            ...designColumn(createId()),
+            name: 'id',
+            type: 'bigserial',
+            nullable: false,
+            primaryKey: true,
+          },
+        ],
+      };
+
+export function TableDesigner({
+  open,
+  table,
+  schema,
+  onOpenChange,
+  onOpenInEditor,
+}: TableDesignerProps) {
+  const [design, setDesign] = useState<TableDesign>(() => designFromTable(table));
+  const applySchemaChange = useApplySchemaChange();
+
+  // Every opening starts from the definition as it is now
+  useEffect(() => {
+    if (open) setDesign(designFromTable(table));
+  }, [open, table]);
+
+  const errors = useMemo(
+    () => validateDesign(design, schema ?? [], table),
+    [design, schema, table]
+  );
+  const changes = useMemo(() => diffDesign(design, table), [design, table]);
+  const statements = useMemo(
+    () => (errors.length === 0 ? buildDesignStatements(design, table) : []),
+    [design, errors.length, table]
+  );
+  const sql = statements.map((statement) => `${statement};`).join('\n\n');
+  const drops = changes.filter((change) => change.kind === 'drop').length;
+
+  const updateColumn = (id: string, patch: Partial<DesignColumn>) =>
+    setDesign((prev) => ({
+      ...prev,
+      columns: prev.columns.map((column) => (column.id === id ? { ...column, ...patch } : column)),
+    }));
+
+  const handleApply = () => {
+    applySchemaChange.mutateAsync(statements.map((statement) => ({ sql: statement }))).then(
+      () => {
+        toast.success(table ? `Altered ${table.name}` : `Created ${design.name.trim()}`);
+        onOpenChange(false);
+      },
+      (error: Error) => toast.error(`Schema change failed and was rolled back: ${error.message}`)
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-[400px] flex-col sm:w-[720px] sm:max-w-[720px]">
+        <SheetHeader>
+          <SheetTitle>{table ? `Alter ${table.name}` : 'New table'}</SheetTitle>
+          <SheetDescription>
+            Define the columns; the statement below is what runs, in one transaction
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="-mx-2 mt-4 flex-1">
+          <div className="space-y-6 px-2">
+            {/* Name */}
+            <section className="space-y-2">
+              <Label htmlFor="design-table-name">Table name</Label>
+              <Input
+                id="design-table-name"
+                value={design.name}
+                onChange={(event) => setDesign((prev) => ({ ...prev, name: event.target.value }))}
+                placeholder="memory.experiments"
+                disabled={table !== null}
+                className="font-mono"
+              />
+            </section>
+
+            {/* Columns */}
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Columns</Label>
+                {table && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => setDesign(designFromTable(table))}
+                    disabled={changes.length === 0}
+                  >
+                    <RotateCcw className="mr-1 h-3 w-3" />
+                    Reset
+                  </Button>
+                )}
+              </div>
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_1fr_auto_auto_auto] items-center gap-2 px-1 text-xs text-muted-foreground">
+                  <span>Name</span>
+                  <span>Type</span>
+                  <span>Default</span>
+                  <span>Null</span>
+                  <span>Key</span>
+                  <span className="w-7" />
+                </div>
+                {design.columns.map((column) => (
+                  <div
+                    key={column.id}
+                    className="grid grid-cols-[1fr_1fr_1fr_auto_auto_auto] items-center gap-2"
+                  >
+                    <Input
+                      value={column.name}
+                      onChange={(event) => updateColumn(column.id, { name: event.target.value })}
+                      placeholder="column_name"
+                      className="h-8 font-mono text-xs"
+                      aria-label="Column name"
+                    />
+                    <Input
+                      value={column.type}
+                      onChange={(event) => updateColumn(column.id, { type: event.target.value })}
+                      list="design-column-types"
+                      className="h-8 font-mono text-xs"
+                      aria-label="Column type"
+                    />
+                    <Input
+                      value={column.default}
+                      onChange={(event) => updateColumn(column.id, { default: event.target.value })}
+                      placeholder="No default"
+                      className="h-8 font-mono text-xs"
+                      aria-label="Default expression"
+                    />
+                    {/* Key columns can never be NULL */}
+                    <Checkbox
+                      checked={column.nullable && !column.primaryKey}
+                      onCheckedChange={(checked) =>
+                        updateColumn(column.id, { nullable: checked === true })
+                      }
+                      disabled={column.primaryKey}
+                      aria-label="Nullable"
+                      className="mx-2"
+                    />
+                    <Checkbox
+                      checked={column.primaryKey}
+                      onCheckedChange={(checked) =>
+                        updateColumn(column.id, {
+                          primaryKey: checked === true,
+                          nullable: checked === true ? false : column.nullable,
+                        })
+                      }
+                      aria-label="Primary key"
+                      className="mx-2"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() =>
+                        setDesign((prev) => ({
+                          ...prev,
+                          columns: prev.columns.filter((candidate) => candidate.id !== column.id),
+                        }))
+                      }
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      <span className="sr-only">Remove column</span>
+                    </Button>
+                  </div>
+                ))}
+                <datalist id="design-column-types">
+                  {COMMON_COLUMN_TYPES.map((type) => (
+                    <option key={type} value={type} />
+                  ))}
+                </datalist>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setDesign((prev) => ({
+                    ...prev,
+                    columns: [...prev.columns, designColumn(createId())],
+                  }))
+                }
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add column
+              </Button>
+            </section>
+
+            {/* Changes against the current definition */}
+            {table && (
+              <section className="space-y-2">
+                <Label>Changes</Label>
+                {changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    The design matches the current definition
+                  </p>
+                ) : (
+                  <ul className="space-y-1 rounded-md border p-3 text-sm">
+                    {changes.map((change) => (
+                      <li key={`${change.kind}:${change.name}`} className="flex items-start gap-2">
+                        <Badge
+                          variant="outline"
+                          className={cn(
+                            'w-16 justify-center',
+                            CHANGE_STYLES[change.kind].className
+                          )}
+                        >
+                          {CHANGE_STYLES[change.kind].label}
+                        </Badge>
+                        <span className="font-mono text-xs leading-5">{change.name}</span>
+                        {change.details.length > 0 && (
+                          <span className="text-xs leading-5 text-muted-foreground">
+                            {change.details.join(', ')}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            )}
+
+            {/* Preview */}
+            <section className="space-y-2">
+              <Label>SQL</Label>
+              {errors.length > 0 ? (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="list-disc pl-4">
+                      {errors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <pre className="overflow-x-auto rounded-md border bg-muted/50 p-3 font-mono text-xs">
+                  {sql || '-- No changes'}
+                </pre>
+              )}
+              {drops > 0 && (
+                <p className="text-xs text-destructive">
+                  Dropping {drops === 1 ? 'a column deletes its' : `${drops} columns deletes their`}{' '}
+                  data for good
+                </p>
+              )}
+            </section>
+          </div>
+        </ScrollArea>
+
+        <SheetFooter className="mt-4 gap-2">
+          <Button variant="outline" onClick={() => onOpenInEditor(sql)} disabled={!sql}>
+            <SquarePen className="mr-2 h-4 w-4" />
+            Open in editor
+          </Button>
+          <Button
+            variant={drops > 0 ? 'destructive' : 'default'}
+            onClick={handleApply}
+            disabled={statements.length === 0 || applySchemaChange.isPending}
+          >
+            {applySchemaChange.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {table ? 'Apply changes' : 'Create table'}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,287 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import {
+  Activity,
+  ChevronRight,
+  Clock,
+  Copy,
+  Database,
+  FileCode,
+  Hash,
+  Network,
+  PencilRuler,
+  Play,
+  Search,
+  Star,
+} from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import type { SchemaTable } from '@/hooks/useApi';
+import { useDebounce } from '@/hooks/useDebounce';
+import { groupTables } from '@/lib/schema';
+import { cn } from '@/lib/utils';
+
+interface TablesSidebarProps {
+  tables: SchemaTable[] | undefined;
+  isLoading: boolean;
+  selectedTable: string;
+  favorites: string[];
+  recents: string[];
+  onSelect: (name: string) => void;
+  onToggleFavorite: (name: string) => void;
+  onSelectTop: (name: string) => void;
+  onCountRows: (name: string) => void;
+  onShowDdl: (table: SchemaTable) => void;
+  onProfile: (table: SchemaTable) => void;
+  // Left out on read-only connections
+  onDesign?: (table: SchemaTable) => void;
+}
+
+export function TablesSidebar({
+  tables,
+  isLoading,
+  selectedTable,
+  favorites,
+  recents,
+  onSelect,
+  onToggleFavorite,
+  onSelectTop,
+  onCountRows,
+  onShowDdl,
+  onProfile,
+  onDesign,
+}: TablesSidebarProps) {
+  const [filter, setFilter] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const debouncedFilter = useDebounce(filter, 150);
+  const navigate = useNavigate();
+
+  // Everything is derived from the latest schema, so favorites and recents of tables that
+  // disappear on refetch are hidden rather than shown as dead entries
+  const tableByName = useMemo(
+    () => new Map((tables ?? []).map((table) => [table.name, table])),
+    [tables]
+  );
+  const term = debouncedFilter.trim().toLowerCase();
+  const matches = useMemo(
+    () => [...tableByName.keys()].filter((name) => name.toLowerCase().includes(term)),
+    [tableByName, term]
+  );
+  const groups = useMemo(() => groupTables(matches), [matches]);
+  const favoriteTables = favorites.filter((name) => tableByName.has(name));
+  const recentTables = recents.filter((name) => tableByName.has(name));
+
+  const copyName = async (name: string) => {
+    try {
+      await navigator.clipboard.writeText(name);
+      toast.success(`Copied ${name}`);
+    } catch {
+      toast.error('Could not access the clipboard');
+    }
+  };
+
+  const toggleGroup = (name: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+
+  const renderTable = (name: string, section: string) => {
+    const table = tableByName.get(name);
+    const isFavorite = favorites.includes(name);
+    return (
+      <ContextMenu key={`${section}-${name}`}>
+        <ContextMenuTrigger asChild>
+          <div
+            className={cn(
+              'group flex w-full items-center gap-2 rounded-md px-3 py-2 text-sm transition-colors hover:bg-accent',
+              selectedTable === name && 'bg-accent font-medium'
+            )}
+          >
+            <button
+              onClick={() => onSelect(name)}
+              className="flex min-w-0 flex-1 items-center gap-2 text-left"
+              title={name}
+            >
+              <Database className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="truncate">
+                {section === 'group' ? name.slice(name.lastIndexOf('.') + 1) : name}
+              </span>
+            </button>
+            <button
+              onClick={() => onToggleFavorite(name)}
+              className={cn(
+                'shrink-0 text-muted-foreground hover:text-foreground',
+                !isFavorite && 'opacity-0 focus:opacity-100 group-hover:opacity-100'
+              )}
+            >
+              <Star className={cn('h-3.5 w-3.5', isFavorite && 'fill-amber-400 text-amber-400')} />
+              <span className="sr-only">
+                {isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              </span>
+            </button>
+            <Badge variant="secondary" className="shrink-0 text-xs">
+              {table.columns.length} cols
+            </Badge>
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-52">
+          <ContextMenuItem onSelect={() => onSelectTop(name)}>
+            <Play className="mr-2 h-4 w-4" />
+            SELECT top 100
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => onCountRows(name)}>
+            <Hash className="mr-2 h-4 w-4" />
+            Count rows
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => onProfile(table)}>
+            <Activity className="mr-2 h-4 w-4" />
+            Profile columns
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={() => copyName(name)}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy name
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => onShowDdl(table)}>
+            <FileCode className="mr-2 h-4 w-4" />
+            Show DDL
+          </ContextMenuItem>
+          {onDesign && (
+            <ContextMenuItem onSelect={() => onDesign(table)}>
+              <PencilRuler className="mr-2 h-4 w-4" />
+              Alter table...
+            </ContextMenuItem>
+          )}
+          <ContextMenuItem onSelect={() => navigate(`/schema?table=${encodeURIComponent(name)}`)}>
+            <Network className="mr-2 h-4 w-4" />
+            Open in Schema Explorer
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={() => onToggleFavorite(name)}>
+            <Star className="mr-2 h-4 w-4" />
+            {isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (!tables) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No tables found. Connect to your backend to see tables.
+      </p>
+    );
+  }
+
+  const hasGroups = groups.some((group) => group.name !== null);
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Filter tables..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && groups.length > 0) onSelect(groups[0].tables[0]);
+            if (e.key === 'Escape') setFilter('');
+          }}
+          className="h-9 pl-10"
+        />
+      </div>
+      <div className="max-h-[420px] space-y-3 overflow-y-auto pr-1">
+        {/* Favorites & recents are hidden while filtering so every match shows once */}
+        {!term && favoriteTables.length > 0 && (
+          <Section icon={Star} title="Favorites">
+            {favoriteTables.map((name) => renderTable(name, 'favorite'))}
+          </Section>
+        )}
+        {!term && recentTables.length > 0 && (
+          <Section icon={Clock} title="Recent">
+            {recentTables.map((name) => renderTable(name, 'recent'))}
+          </Section>
+        )}
+
+        {groups.map((group) =>
+          hasGroups ? (
+            <Collapsible
+              key={group.name ?? ''}
+              open={Boolean(term) || !collapsed.has(group.name ?? '')}
+              onOpenChange={() => toggleGroup(group.name ?? '')}
+            >
+              <CollapsibleTrigger className="flex w-full items-center gap-1 px-1 text-xs font-medium uppercase text-muted-foreground hover:text-foreground">
+                <ChevronRight
+                  className={cn(
+                    'h-3 w-3 transition-transform',
+                    (term || !collapsed.has(group.name ?? '')) && 'rotate-90'
+                  )}
+                />
+                {group.name ?? 'Other'}
+                <span className="ml-auto font-normal normal-case">{group.tables.length}</span>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-1 space-y-1">
+                {group.tables.map((name) =>
+                  renderTable(name, group.name === null ? 'all' : 'group')
+                )}
+              </CollapsibleContent>
+            </Collapsible>
+          ) : (
+            <div key="all" className="space-y-1">
+              {group.tables.map((name) => renderTable(name, 'all'))}
+            </div>
+          )
+        )}
+        {matches.length === 0 && (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            {term ? 'No matching tables' : 'The backend reported no tables'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Section({
+  icon: Icon,
+  title,
+  children,
+}: {
+  icon: typeof Star;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-1">
+      <p className="flex items-center gap-1 px-1 text-xs font-medium uppercase text-muted-foreground">
+        <Icon className="h-3 w-3" />
+        {title}
+      </p>
+      {children}
+    </div>
+  );
+}
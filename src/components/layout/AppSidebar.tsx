@@ -1,4 +1,13 @@
-import { Database, Brain, ScrollText, Settings, Wifi, WifiOff, Loader2 } from 'lucide-react';
+import {
+  Database,
+  Network,
+  Brain,
+  ScrollText,
+  Settings,
+  Wifi,
+  WifiOff,
+  Loader2,
+} from 'lucide-react';
 import { NavLink } from '@/components/NavLink';
 import { useAppStore, type ConnectionStatus } from '@/stores/appStore';
 import { cn } from '@/lib/utils';
@@ -20,6 +29,7 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 
 const navItems = [
   { title: 'Data Console', url: '/', icon: Database },
+  { title: 'Schema', url: '/schema', icon: Network },
   { title: 'Brain Visualization', url: '/brain', icon: Brain },
   { title: 'Logs', url: '/logs', icon: ScrollText },
   { title: 'Settings', url: '/settings', icon: Settings },
@@ -1,25 +1,61 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { useAppStore } from '@/stores/appStore';
+import { createId, useConsoleStore } from '@/stores/consoleStore';
+import type { SqlStatement } from '@/lib/sql';
 
-interface SchemaColumn {
+export interface SchemaColumn {
   name: string;
   type: string;
   nullable: boolean;
   primary_key: boolean;
+  // Default expression; null when the column has none, absent if the backend does not say
+  default?: string | null;
+  comment?: string | null;
 }
 
-interface SchemaTable {
+export interface SchemaIndex {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  primary?: boolean;
+  // Access method such as btree, gin or hnsw
+  method?: string;
+  definition?: string;
+}
+
+export interface SchemaForeignKey {
+  name: string;
+  columns: string[];
+  references: { table: string; columns: string[] };
+  on_delete?: string;
+  on_update?: string;
+}
+
+// The extended /schema fields are optional so older backends that only report columns still
+// work; absent means "not reported", which the UI keeps apart from an empty list.
+export interface SchemaTable {
   name: string;
   columns: SchemaColumn[];
+  comment?: string | null;
+  indexes?: SchemaIndex[];
+  foreign_keys?: SchemaForeignKey[];
+  // Planner estimate rather than an exact count
+  row_estimate?: number | null;
+  size_bytes?: number | null;
 }
 
-interface QueryResult {
+export interface QueryResult {
   columns: string[];
   rows: Record<string, unknown>[];
   rowCount: number;
   executionTime: number;
 }
 
+export interface TransactionResult {
+  results: QueryResult[];
+  executionTime: number;
+}
+
 interface HealthStatus {
   status: 'healthy' | 'unhealthy';
   database: boolean;
@@ -36,14 +72,85 @@ interface LogEntry {
   metadata?: Record<string, unknown>;
 }
 
+// The backend answered with an error status. Network failures, cancels and timeouts throw
+// plain errors instead, so callers can tell a rejected statement from one that never finished.
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number) {
+    super(`HTTP error! status: ${status}`);
+    this.status = status;
+  }
+}
+
 async function fetchWithError(url: string, options?: RequestInit) {
   const response = await fetch(url, options);
   if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
+    throw new HttpError(response.status);
   }
   return response.json();
 }
 
+// Aborts in-flight statements by id, from whichever tab or panel asks
+const controllers = new Map<string, AbortController>();
+
+// Aborts the request and asks the backend to stop the statement. Backends without a cancel
+// endpoint still stop sending the result, and the failed cancel request is ignored.
+export function cancelQuery(id: string) {
+  const controller = controllers.get(id);
+  if (!controller) return;
+  controller.abort();
+  const { apiBaseUrl } = useAppStore.getState().config;
+  fetch(`${apiBaseUrl}/query/cancel`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query_id: id }),
+  }).catch(() => undefined);
+}
+
+// Sends a statement with an id the backend can cancel it by and the configured timeout, which
+// the backend applies as its statement timeout and the client enforces by cancelling. Only
+// statements the user started are given a tab: they are listed as running there, can be
+// stopped from it and keep running if it is left. Background reads such as grid pages,
+// counts and profiles are not listed.
+export async function runStatement<T>(
+  path: string,
+  body: Record<string, unknown>,
+  sql: string,
+  tabId: string | null = null
+) {
+  const { apiBaseUrl, queryTimeoutSeconds } = useAppStore.getState().config;
+  const { startQuery, finishQuery } = useConsoleStore.getState();
+  const id = createId();
+  const controller = new AbortController();
+  const timeoutMs = queryTimeoutSeconds > 0 ? queryTimeoutSeconds * 1000 : null;
+  let timedOut = false;
+  const timer =
+    timeoutMs === null
+      ? undefined
+      : setTimeout(() => {
+          timedOut = true;
+          cancelQuery(id);
+        }, timeoutMs);
+  controllers.set(id, controller);
+  if (tabId !== null) startQuery({ id, tabId, sql, startedAt: Date.now() });
+  try {
+    return (await fetchWithError(`${apiBaseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, query_id: id, timeout_ms: timeoutMs }),
+      signal: controller.signal,
+    })) as T;
+  } catch (error) {
+    if (!controller.signal.aborted) throw error;
+    throw new Error(timedOut ? `Query timed out after ${queryTimeoutSeconds}s` : 'Query cancelled');
+  } finally {
+    clearTimeout(timer);
+    controllers.delete(id);
+    if (tabId !== null) finishQuery(id);
+  }
+}
+
 export function useSchema() {
   const { config } = useAppStore();
 
@@ -54,32 +161,49 @@ export function useSchema() {
   });
 }
 
-export function useQuery_(sql: string, enabled = true) {
-  const { config } = useAppStore();
+// React Query's own abort signal is deliberately not passed on: it fires when the query loses
+// its last observer, which would cancel a tab's statement as soon as another tab is opened.
+// Reads the user ran name the tab that owns them, so they are listed and can be stopped there.
+export function useQuery_(
+  statement: string | SqlStatement,
+  enabled = true,
+  tabId: string | null = null
+) {
+  const { sql, params = [] } = typeof statement === 'string' ? { sql: statement } : statement;
 
   return useQuery<QueryResult>({
-    queryKey: ['query', sql],
-    queryFn: () =>
-      fetchWithError(`${config.apiBaseUrl}/query`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sql }),
-      }),
+    queryKey: ['query', sql, params, tabId],
+    queryFn: () => runStatement<QueryResult>('/query', { sql, params }, sql, tabId),
     enabled: enabled && sql.length > 0,
+    placeholderData: keepPreviousData,
+    // A failed, cancelled or timed out statement would only fail the same way again
+    retry: false,
   });
 }
 
+// Scripts name the tab they were started from, as the active tab may change between statements
+export interface ExecuteRequest extends SqlStatement {
+  tabId?: string;
+}
+
 export function useExecuteQuery() {
-  const { config } = useAppStore();
   const queryClient = useQueryClient();
 
-  return useMutation({
-    mutationFn: (sql: string) =>
-      fetchWithError(`${config.apiBaseUrl}/query`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sql }),
-      }),
+  // Accepts either raw SQL or a statement whose values are bound to $1..$n placeholders
+  return useMutation<QueryResult, Error, string | ExecuteRequest>({
+    mutationFn: (statement) => {
+      const {
+        sql,
+        params = [],
+        tabId,
+      } = typeof statement === 'string' ? { sql: statement, tabId: undefined } : statement;
+      return runStatement<QueryResult>(
+        '/query',
+        { sql, params },
+        sql,
+        tabId ?? useConsoleStore.getState().activeTabId
+      );
+    },
     onSuccess: () => {
       // Invalidate all query caches on mutation
       queryClient.invalidateQueries({ queryKey: ['query'] });
@@ -87,6 +211,51 @@ export function useExecuteQuery() {
   });
 }
 
+// Runs a read on demand, such as a full export, without caching the possibly large result
+// or invalidating the queries on screen. Long runs of writes, such as an import, use it too
+// and invalidate once when they are done.
+export function useFetchQuery() {
+  return useMutation<QueryResult, Error, SqlStatement>({
+    mutationFn: ({ sql, params = [] }) => runStatement<QueryResult>('/query', { sql, params }, sql),
+  });
+}
+
+// POST /transaction runs { statements: [{ sql, params }, ...] } in order inside one
+// transaction. The backend commits only if every statement succeeds; on the first failure
+// it rolls back and responds with an error status, so nothing is partially applied.
+const runTransaction = (statements: SqlStatement[]) =>
+  runStatement<TransactionResult>(
+    '/transaction',
+    { statements: statements.map(({ sql, params = [] }) => ({ sql, params })) },
+    statements.map((statement) => statement.sql).join(';\n'),
+    useConsoleStore.getState().activeTabId
+  );
+
+export function useExecuteTransaction() {
+  const queryClient = useQueryClient();
+
+  return useMutation<TransactionResult, Error, SqlStatement[]>({
+    mutationFn: runTransaction,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['query'] });
+    },
+  });
+}
+
+// Runs DDL as one transaction like useExecuteTransaction, then refetches the schema so the
+// tables list and everything keyed on it pick up the change
+export function useApplySchemaChange() {
+  const queryClient = useQueryClient();
+
+  return useMutation<TransactionResult, Error, SqlStatement[]>({
+    mutationFn: runTransaction,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schema'] });
+      queryClient.invalidateQueries({ queryKey: ['query'] });
+    },
+  });
+}
+
 export function useHealth() {
   const { config } = useAppStore();
 
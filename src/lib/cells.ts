@@ -0,0 +1,159 @@
+import { format, formatDistanceToNow, isValid } from 'date-fns';
+import { columnKind } from '@/lib/columns';
+
+export type CellDisplayKind =
+  'null' | 'empty' | 'vector' | 'json' | 'binary' | 'timestamp' | 'boolean' | 'number' | 'text';
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+const PG_VECTOR = /^\[\s*-?[\d.eE+-]+(\s*,\s*-?[\d.eE+-]+)*\s*\]$/;
+const HEX_BYTEA = /^\\x([0-9a-f]{2})*$/i;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+// Arrays shorter than this read better as JSON than as a chart
+const MIN_VECTOR_LENGTH = 8;
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'number' && Number.isFinite(item));
+
+// Embeddings arrive as JSON arrays, or as pgvector text such as "[0.1,0.2]"
+export function parseVector(value: unknown, columnType?: string): number[] | null {
+  const isVectorColumn = /\bvector\b|halfvec|float\d*\[\]|real\[\]|double precision\[\]/i.test(
+    columnType ?? ''
+  );
+  let candidate = value;
+  if (typeof value === 'string' && PG_VECTOR.test(value.trim())) {
+    candidate = value
+      .trim()
+      .slice(1, -1)
+      .split(',')
+      .map((item) => Number(item));
+  }
+  if (!isNumberArray(candidate)) return null;
+  return isVectorColumn || candidate.length >= MIN_VECTOR_LENGTH ? candidate : null;
+}
+
+// bytea comes back as "\x..." hex, as a serialized Node Buffer, or base64 in a bytea column
+export function decodeBinary(value: unknown, columnType?: string): Uint8Array | null {
+  const isBinaryColumn = /bytea|blob|binary/i.test(columnType ?? '');
+  if (typeof value === 'string' && HEX_BYTEA.test(value)) {
+    const hex = value.slice(2);
+    return Uint8Array.from({ length: hex.length / 2 }, (_, i) =>
+      parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+    );
+  }
+  if (
+    value &&
+    typeof value === 'object' &&
+    (value as { type?: unknown }).type === 'Buffer' &&
+    isNumberArray((value as { data?: unknown }).data)
+  ) {
+    return Uint8Array.from((value as { data: number[] }).data);
+  }
+  if (isBinaryColumn && typeof value === 'string' && BASE64.test(value)) {
+    try {
+      return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function parseJsonText(value: string) {
+  const trimmed = value.trim();
+  if (!/^[[{]/.test(trimmed)) return undefined;
+  try {
+    return JSON.parse(trimmed) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+// Values of json columns may arrive as text; anything else that is an object is shown as JSON
+export function jsonValue(value: unknown, columnType?: string) {
+  if (value !== null && typeof value === 'object') return value;
+  if (typeof value === 'string' && columnKind(columnType) === 'json') return parseJsonText(value);
+  return undefined;
+}
+
+export function parseTimestamp(value: unknown, columnType?: string) {
+  const kind = columnKind(columnType);
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string') return null;
+  if (kind !== 'datetime' && kind !== 'date' && !ISO_TIMESTAMP.test(value)) return null;
+  const date = new Date(kind === 'date' ? `${value.slice(0, 10)}T00:00:00` : value);
+  return isValid(date) ? date : null;
+}
+
+export function detectCellKind(value: unknown, columnType?: string): CellDisplayKind {
+  if (value === null || value === undefined) return 'null';
+  if (value === '') return 'empty';
+  if (parseVector(value, columnType)) return 'vector';
+  if (decodeBinary(value, columnType)) return 'binary';
+  if (jsonValue(value, columnType) !== undefined) return 'json';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number' || typeof value === 'bigint') return 'number';
+  if (parseTimestamp(value, columnType)) return 'timestamp';
+  return 'text';
+}
+
+export function formatTimestamp(date: Date, relative: boolean) {
+  return relative
+    ? formatDistanceToNow(date, { addSuffix: true })
+    : format(date, 'yyyy-MM-dd HH:mm:ss');
+}
+
+export function toHex(bytes: Uint8Array, limit = bytes.length) {
+  return Array.from(bytes.slice(0, limit), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// Classic 16-bytes-per-line dump with offsets and printable ASCII
+export function hexDump(bytes: Uint8Array, limit = 4096) {
+  const lines: string[] = [];
+  for (let offset = 0; offset < Math.min(bytes.length, limit); offset += 16) {
+    const chunk = bytes.slice(offset, offset + 16);
+    const hex = Array.from(chunk, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(chunk, (byte) =>
+      byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'
+    ).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  if (bytes.length > limit) lines.push(`… ${(bytes.length - limit).toLocaleString()} more bytes`);
+  return lines.join('\n');
+}
+
+export function vectorStats(vector: number[]) {
+  let min = Infinity;
+  let max = -Infinity;
+  let sumOfSquares = 0;
+  vector.forEach((value) => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sumOfSquares += value * value;
+  });
+  return { dimensions: vector.length, min, max, norm: Math.sqrt(sumOfSquares) };
+}
+
+// Averages buckets of values so long embeddings fit a small sparkline
+export function downsample(values: number[], points: number) {
+  if (values.length <= points) return values;
+  const size = values.length / points;
+  return Array.from({ length: points }, (_, i) => {
+    const bucket = values.slice(Math.floor(i * size), Math.floor((i + 1) * size));
+    return bucket.reduce((sum, value) => sum + value, 0) / bucket.length;
+  });
+}
+
+// Single-line text for the grid and the clipboard; JSON is pretty-printed only for copying
+export function cellText(value: unknown, { pretty = false } = {}) {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'object') return JSON.stringify(value, null, pretty ? 2 : undefined);
+  return String(value);
+}
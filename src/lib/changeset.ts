@@ -0,0 +1,203 @@
+import {
+  buildDelete,
+  buildInsert,
+  buildUpdate,
+  paramFromCell,
+  type SqlStatement,
+} from '@/lib/sql';
+
+interface ColumnRef {
+  name: string;
+  type?: string;
+}
+
+interface TableRef {
+  name: string;
+  columns: Array<ColumnRef & { primary_key?: boolean }>;
+}
+
+export type StagedChangeKind = 'insert' | 'update' | 'delete';
+
+// A staged column value; null is SQL NULL, as distinct from an empty string
+export type CellValue = string | null;
+
+export interface StagedChange {
+  id: string;
+  kind: StagedChangeKind;
+  table: string;
+  // Identifies the loaded row an update or delete applies to; null for inserts
+  rowKey: string | null;
+  original: Record<string, unknown> | null;
+  // Every entered value for inserts, only changed ones for updates
+  values: Record<string, CellValue>;
+}
+
+// Form inputs hold text, so objects are shown as JSON rather than "[object Object]"
+export function toInputValue(value: unknown) {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function keyColumns(table: TableRef) {
+  const primaryKeys = table.columns.filter((column) => column.primary_key);
+  return primaryKeys.length > 0 ? primaryKeys : table.columns;
+}
+
+export function rowKey(table: TableRef, row: Record<string, unknown>) {
+  return `${table.name}:${JSON.stringify(keyColumns(table).map((column) => row[column.name] ?? null))}`;
+}
+
+// A short name for a row in breadcrumbs and lists, such as "id 42"; tables without a primary
+// key are named by their first column
+export function rowLabel(table: TableRef, row: Record<string, unknown>) {
+  const keys = table.columns.filter((column) => column.primary_key);
+  return (keys.length > 0 ? keys : table.columns.slice(0, 1))
+    .map((column) => {
+      const value = toCellValue(row[column.name]);
+      const text = value === null ? 'NULL' : value.length > 24 ? `${value.slice(0, 24)}...` : value;
+      return `${column.name} ${text}`;
+    })
+    .join(', ');
+}
+
+// The values a copy of the row is inserted with; primary keys are left to their defaults so the
+// copy does not collide with the original
+export function duplicateRow(table: TableRef, row: Record<string, unknown>) {
+  return Object.fromEntries(
+    table.columns
+      .filter((column) => !column.primary_key && column.name in row)
+      .map((column) => [column.name, toCellValue(row[column.name])])
+  ) as Record<string, CellValue>;
+}
+
+export function toCellValue(value: unknown): CellValue {
+  return value === null || value === undefined ? null : toInputValue(value);
+}
+
+export function sameValue(original: unknown, value: CellValue) {
+  return toCellValue(original) === value;
+}
+
+export function diffRow(original: Record<string, unknown>, values: Record<string, CellValue>) {
+  return Object.fromEntries(
+    Object.entries(values).filter(([column, value]) => !sameValue(original[column], value))
+  );
+}
+
+export function stageInsert(
+  changes: StagedChange[],
+  id: string,
+  table: TableRef,
+  values: Record<string, CellValue>
+): StagedChange[] {
+  const existing = changes.find((change) => change.id === id);
+  if (existing) {
+    return changes.map((change) => (change.id === id ? { ...change, values } : change));
+  }
+  return [...changes, { id, kind: 'insert', table: table.name, rowKey: null, original: null, values }];
+}
+
+// Repeated edits of a row are merged, and an update that ends up changing nothing is dropped
+export function stageUpdate(
+  changes: StagedChange[],
+  id: string,
+  table: TableRef,
+  original: Record<string, unknown>,
+  values: Record<string, CellValue>
+): StagedChange[] {
+  const key = rowKey(table, original);
+  const existing = changes.find((change) => change.rowKey === key);
+  if (existing?.kind === 'delete') return changes;
+  const changed = diffRow(original, { ...existing?.values, ...values });
+  const rest = changes.filter((change) => change !== existing);
+  if (Object.keys(changed).length === 0) return rest;
+  return [
+    ...rest,
+    {
+      id: existing?.id ?? id,
+      kind: 'update',
+      table: table.name,
+      rowKey: key,
+      original,
+      values: changed,
+    },
+  ];
+}
+
+// Deleting a row replaces any pending update of it
+export function stageDelete(
+  changes: StagedChange[],
+  id: string,
+  table: TableRef,
+  original: Record<string, unknown>
+): StagedChange[] {
+  const key = rowKey(table, original);
+  return [
+    ...changes.filter((change) => change.rowKey !== key),
+    { id, kind: 'delete', table: table.name, rowKey: key, original, values: {} },
+  ];
+}
+
+export function buildChangesetStatements(
+  changes: StagedChange[],
+  schema: TableRef[]
+): SqlStatement[] {
+  return changes.map((change) => {
+    const table = schema.find((candidate) => candidate.name === change.table);
+    if (!table) throw new Error(`Table ${change.table} no longer exists`);
+    const columnParams = (names: string[]) =>
+      table.columns
+        .filter((column) => names.includes(column.name))
+        .map((column) => ({
+          column,
+          param: paramFromCell(change.values[column.name], column.type),
+        }));
+
+    let statement: SqlStatement | null = null;
+    if (change.kind === 'insert') {
+      statement = buildInsert(table.name, columnParams(Object.keys(change.values)));
+    } else if (change.kind === 'update' && change.original) {
+      statement = buildUpdate(
+        table.name,
+        columnParams(Object.keys(change.values)),
+        keyColumns(table),
+        change.original
+      );
+    } else if (change.kind === 'delete' && change.original) {
+      statement = buildDelete(table.name, keyColumns(table), change.original);
+    }
+    if (!statement) throw new Error(`Cannot build the staged ${change.kind} on ${table.name}`);
+    return statement;
+  });
+}
+
+// Overlays a table's staged changes on a page of its rows: inserts first, then the loaded
+// rows with pending updates applied. Each resulting row maps back to the change it shows
+export function applyStagedChanges(
+  rows: Record<string, unknown>[],
+  changes: StagedChange[],
+  table: TableRef
+) {
+  const tableChanges = changes.filter((change) => change.table === table.name);
+  const byKey = new Map(tableChanges.map((change) => [change.rowKey, change]));
+  const changeByRow = new Map<Record<string, unknown>, StagedChange>();
+
+  const inserted = tableChanges
+    .filter((change) => change.kind === 'insert')
+    .map((change) => {
+      const row: Record<string, unknown> = { ...change.values };
+      changeByRow.set(row, change);
+      return row;
+    });
+
+  const loaded = rows.map((row) => {
+    const change = tableChanges.length > 0 ? byKey.get(rowKey(table, row)) : undefined;
+    if (!change) return row;
+    const shown = change.kind === 'update' ? { ...row, ...change.values } : row;
+    changeByRow.set(shown, change);
+    return shown;
+  });
+
+  return { rows: [...inserted, ...loaded], changeByRow };
+}
@@ -0,0 +1,256 @@
+import { startOfDay, startOfHour, startOfMinute, startOfMonth, startOfWeek } from 'date-fns';
+import { columnKind } from '@/lib/columns';
+import { parseTimestamp } from '@/lib/cells';
+
+export type ChartType = 'line' | 'bar' | 'area' | 'scatter' | 'histogram';
+export type ChartAggregate = 'count' | 'sum' | 'avg' | 'min' | 'max';
+export type TimeBucket = 'none' | 'minute' | 'hour' | 'day' | 'week' | 'month';
+export type AxisKind = 'number' | 'time' | 'category';
+
+// Saved with a query, so it only refers to result columns by name
+export interface ChartSpec {
+  type: ChartType;
+  // The category or time axis; for histograms, the column whose values are binned
+  x: string;
+  // One series per column, aggregated over rows that share an x value
+  y: string[];
+  // Splits the first y column (or the row count) into a series per distinct value
+  groupBy: string | null;
+  aggregate: ChartAggregate;
+  bucket: TimeBucket;
+  bins: number;
+}
+
+export interface ChartSeries {
+  // Series are keyed s0, s1, ... so column names never end up in CSS variable names
+  key: string;
+  label: string;
+}
+
+export type ChartPoint = Record<string, number | string>;
+
+export interface ChartData {
+  points: ChartPoint[];
+  series: ChartSeries[];
+  xKind: AxisKind;
+}
+
+// Groups beyond this many are folded into a single "Other" series
+const MAX_GROUPS = 10;
+const OTHER_GROUP = 'Other';
+
+const BUCKET_START: Record<Exclude<TimeBucket, 'none'>, (date: Date) => Date> = {
+  minute: startOfMinute,
+  hour: startOfHour,
+  day: startOfDay,
+  week: startOfWeek,
+  month: startOfMonth,
+};
+
+export function toChartNumber(value: unknown) {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+export function axisKind(columnType?: string): AxisKind {
+  const kind = columnKind(columnType);
+  if (kind === 'number') return 'number';
+  if (kind === 'date' || kind === 'datetime') return 'time';
+  return 'category';
+}
+
+// Plots the first numeric column over time when there is a time column, by category otherwise
+export function defaultChartSpec(
+  columns: string[],
+  columnTypes: Record<string, string>
+): ChartSpec {
+  const kinds = new Map(columns.map((column) => [column, axisKind(columnTypes[column])]));
+  const time = columns.find((column) => kinds.get(column) === 'time');
+  const x = time ?? columns.find((column) => kinds.get(column) === 'category') ?? columns[0] ?? '';
+  const y = columns.filter((column) => column !== x && kinds.get(column) === 'number').slice(0, 1);
+  return {
+    type: time ? 'line' : 'bar',
+    x,
+    y,
+    groupBy: null,
+    aggregate: y.length === 0 ? 'count' : time ? 'avg' : 'sum',
+    bucket: 'none',
+    bins: 20,
+  };
+}
+
+// Keeps what still applies to the current columns and falls back to the defaults for the rest
+export function resolveChartSpec(
+  spec: ChartSpec | null,
+  columns: string[],
+  columnTypes: Record<string, string>
+): ChartSpec {
+  const defaults = defaultChartSpec(columns, columnTypes);
+  if (!spec) return defaults;
+  return {
+    ...defaults,
+    ...spec,
+    x: columns.includes(spec.x) ? spec.x : defaults.x,
+    y: spec.y.filter((column) => columns.includes(column)),
+    groupBy: spec.groupBy && columns.includes(spec.groupBy) ? spec.groupBy : null,
+  };
+}
+
+const groupLabel = (value: unknown) =>
+  value === null || value === undefined
+    ? 'NULL'
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+
+// Works out the series and, for each row, which series it feeds and with what value
+function seriesFor(rows: Record<string, unknown>[], spec: ChartSpec) {
+  const counting = spec.aggregate === 'count' && spec.type !== 'scatter';
+  const valueOf = (row: Record<string, unknown>, column: string | undefined) =>
+    counting || spec.type === 'histogram' ? 1 : toChartNumber(column ? row[column] : undefined);
+
+  if (spec.groupBy) {
+    const frequency = new Map<string, number>();
+    rows.forEach((row) => {
+      const label = groupLabel(row[spec.groupBy]);
+      frequency.set(label, (frequency.get(label) ?? 0) + 1);
+    });
+    const ranked = [...frequency.keys()].sort((a, b) => frequency.get(b) - frequency.get(a));
+    const kept = ranked.slice(0, MAX_GROUPS);
+    const labels = ranked.length > MAX_GROUPS ? [...kept, OTHER_GROUP] : kept;
+    const series = labels.map((label, i) => ({ key: `s${i}`, label }));
+    const indexOf = new Map(kept.map((label, i) => [label, i]));
+    return {
+      series,
+      contributions: (row: Record<string, unknown>) => [
+        {
+          key: series[indexOf.get(groupLabel(row[spec.groupBy])) ?? kept.length].key,
+          value: valueOf(row, spec.y[0]),
+        },
+      ],
+    };
+  }
+
+  if (counting || spec.type === 'histogram' || spec.y.length === 0) {
+    return {
+      series: [{ key: 's0', label: 'count' }],
+      contributions: () => [{ key: 's0', value: 1 }],
+    };
+  }
+  const series = spec.y.map((column, i) => ({ key: `s${i}`, label: column }));
+  return {
+    series,
+    contributions: (row: Record<string, unknown>) =>
+      spec.y.map((column, i) => ({ key: series[i].key, value: valueOf(row, column) })),
+  };
+}
+
+function histogramData(
+  rows: Record<string, unknown>[],
+  spec: ChartSpec,
+  contributions: ReturnType<typeof seriesFor>['contributions']
+): ChartPoint[] {
+  const values = rows.map((row) => toChartNumber(row[spec.x]));
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return [];
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  const bins = Math.max(1, Math.floor(spec.bins));
+  const width = (max - min) / bins || 1;
+  const round = (value: number) => Number(value.toPrecision(4));
+  const points: ChartPoint[] = Array.from({ length: bins }, (_, i) => ({
+    x: `${round(min + i * width)}–${round(min + (i + 1) * width)}`,
+  }));
+  rows.forEach((row, i) => {
+    if (values[i] === null) return;
+    // The maximum belongs in the last bin rather than one past it
+    const point = points[Math.min(bins - 1, Math.floor((values[i] - min) / width))];
+    contributions(row).forEach(({ key }) => {
+      point[key] = ((point[key] as number) ?? 0) + 1;
+    });
+  });
+  return points;
+}
+
+interface Accumulator {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+const aggregateValue = (acc: Accumulator, aggregate: ChartAggregate) => {
+  if (aggregate === 'count') return acc.count;
+  if (aggregate === 'sum') return acc.sum;
+  if (aggregate === 'avg') return acc.sum / acc.count;
+  return aggregate === 'min' ? acc.min : acc.max;
+};
+
+export function buildChartData(
+  rows: Record<string, unknown>[],
+  spec: ChartSpec,
+  columnTypes: Record<string, string>
+): ChartData {
+  const { series, contributions } = seriesFor(rows, spec);
+  if (spec.type === 'histogram') {
+    return { points: histogramData(rows, spec, contributions), series, xKind: 'category' };
+  }
+
+  const xKind = axisKind(columnTypes[spec.x]);
+  const xValue = (value: unknown): number | string | null => {
+    if (value === null || value === undefined) return null;
+    if (xKind === 'number') return toChartNumber(value);
+    if (xKind === 'time') {
+      const date = parseTimestamp(value, columnTypes[spec.x]);
+      if (!date) return null;
+      return (spec.bucket === 'none' ? date : BUCKET_START[spec.bucket](date)).getTime();
+    }
+    return groupLabel(value);
+  };
+
+  // Scatter plots every row as it is; the other charts aggregate rows sharing an x value
+  if (spec.type === 'scatter') {
+    const points: ChartPoint[] = [];
+    rows.forEach((row) => {
+      const x = xValue(row[spec.x]);
+      if (x === null) return;
+      contributions(row).forEach(({ key, value }) => {
+        if (value !== null) points.push({ x, [key]: value });
+      });
+    });
+    return { points, series, xKind };
+  }
+
+  const groups = new Map<number | string, Map<string, Accumulator>>();
+  rows.forEach((row) => {
+    const x = xValue(row[spec.x]);
+    if (x === null) return;
+    if (!groups.has(x)) groups.set(x, new Map());
+    const accumulators = groups.get(x);
+    contributions(row).forEach(({ key, value }) => {
+      if (value === null) return;
+      const acc = accumulators.get(key) ?? { count: 0, sum: 0, min: Infinity, max: -Infinity };
+      accumulators.set(key, {
+        count: acc.count + 1,
+        sum: acc.sum + value,
+        min: Math.min(acc.min, value),
+        max: Math.max(acc.max, value),
+      });
+    });
+  });
+
+  const points = [...groups].map(([x, accumulators]) => {
+    const point: ChartPoint = { x };
+    accumulators.forEach((acc, key) => {
+      point[key] = aggregateValue(acc, spec.aggregate);
+    });
+    return point;
+  });
+  if (xKind !== 'category') points.sort((a, b) => (a.x as number) - (b.x as number));
+  return { points, series, xKind };
+}
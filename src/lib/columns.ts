@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { format, isValid, parseISO } from 'date-fns';
+import { NUMBER_TEXT, paramTypeForColumn } from '@/lib/sql';
+
+export type ColumnKind = 'text' | 'number' | 'boolean' | 'date' | 'datetime' | 'json';
+
+interface ColumnDefinition {
+  name: string;
+  type: string;
+  nullable: boolean;
+  primary_key: boolean;
+  default?: string | null;
+}
+
+const INTEGER_TYPE = /(int(eger|\d)?\b|serial)/;
+const DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function columnKind(columnType?: string): ColumnKind {
+  const paramType = paramTypeForColumn(columnType);
+  if (paramType !== 'text') return paramType;
+  const type = columnType?.toLowerCase() ?? '';
+  if (type.includes('timestamp') || type.includes('datetime')) return 'datetime';
+  if (type === 'date') return 'date';
+  return 'text';
+}
+
+// Returns why a non-NULL value cannot be stored in a column of this type, if it cannot
+export function validateValue(value: string, columnType?: string): string | null {
+  const kind = columnKind(columnType);
+  const type = columnType?.toLowerCase() ?? '';
+  if (kind === 'text') {
+    return type === 'uuid' && !UUID.test(value) ? 'Must be a UUID' : null;
+  }
+  if (value.trim() === '') return 'Enter a value or set NULL';
+  if (kind === 'number') {
+    // The same rule the value is bound by, so hex, binary and octal literals are refused here
+    if (!NUMBER_TEXT.test(value.trim())) return 'Must be a number';
+    return INTEGER_TYPE.test(type) && !Number.isInteger(Number(value))
+      ? 'Must be a whole number'
+      : null;
+  }
+  if (kind === 'boolean') {
+    return /^(true|false)$/i.test(value) ? null : 'Must be true or false';
+  }
+  if (kind === 'json') {
+    try {
+      JSON.parse(value);
+      return null;
+    } catch (error) {
+      return `Invalid JSON: ${error instanceof Error ? error.message : 'cannot be parsed'}`;
+    }
+  }
+  if (kind === 'date') {
+    return DATE_PREFIX.test(value) && isValid(parseISO(value)) ? null : 'Must be a date (YYYY-MM-DD)';
+  }
+  return Number.isNaN(Date.parse(value)) ? 'Must be a date and time' : null;
+}
+
+export function datePart(value: string | null | undefined) {
+  if (!value || !DATE_PREFIX.test(value)) return undefined;
+  const date = parseISO(value.slice(0, 10));
+  return isValid(date) ? date : undefined;
+}
+
+// Picking a day only replaces the date part, keeping any time and zone already entered
+export function withDate(value: string | null | undefined, date: Date, kind: ColumnKind) {
+  const day = format(date, 'yyyy-MM-dd');
+  if (kind !== 'datetime') return day;
+  return datePart(value) ? day + value.slice(10) : `${day} 00:00:00`;
+}
+
+// Form fields are keyed by position because column names may contain dots, which
+// react-hook-form would read as nested paths
+export const recordFieldName = (index: number) => `c${index}`;
+
+// A field is a value, NULL, or undefined for a column left out of an INSERT. Leaving a
+// column out is refused only when it is NOT NULL and the backend reports it has no default.
+export function recordSchema(columns: ColumnDefinition[], mode: 'create' | 'edit') {
+  return z.object(
+    Object.fromEntries(
+      columns.map((column, index) => [
+        recordFieldName(index),
+        z
+          .string()
+          .nullable()
+          .optional()
+          .superRefine((value, ctx) => {
+            let message: string | null = null;
+            if (value === undefined) {
+              if (mode === 'edit' || (!column.nullable && column.default === null)) {
+                message = 'Required';
+              }
+            } else if (value === null) {
+              if (!column.nullable) message = `${column.name} cannot be NULL`;
+            } else {
+              message = validateValue(value, column.type);
+            }
+            if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+          }),
+      ])
+    )
+  );
+}
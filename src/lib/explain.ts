@@ -0,0 +1,193 @@
+import type { QueryResult } from '@/hooks/useApi';
+
+export interface ExplainOptions {
+  // Runs the statement to measure it, so it is only offered for reads
+  analyze: boolean;
+  buffers: boolean;
+}
+
+export interface PlanNode {
+  id: string;
+  nodeType: string;
+  relation: string | null;
+  indexName: string | null;
+  // Join type, scan direction, strategy and the like, for the one-line summary
+  detail: string | null;
+  startupCost: number;
+  totalCost: number;
+  // Cost of this node alone, without its children
+  exclusiveCost: number;
+  planRows: number;
+  actualRows: number | null;
+  loops: number | null;
+  // Milliseconds across all loops; exclusive time leaves out the children
+  totalTime: number | null;
+  exclusiveTime: number | null;
+  // Conditions and counters worth showing, in plan order
+  properties: Array<[string, string]>;
+  children: PlanNode[];
+}
+
+export interface ExplainPlan {
+  root: PlanNode;
+  nodes: PlanNode[];
+  analyzed: boolean;
+  planningTime: number | null;
+  executionTime: number | null;
+}
+
+export interface PlanWarning {
+  nodeId: string;
+  message: string;
+}
+
+type RawPlan = Record<string, unknown>;
+
+// Keys already shown in the summary, or too internal to be worth listing
+const HIDDEN_KEYS = new Set([
+  'Node Type',
+  'Plans',
+  'Parent Relationship',
+  'Relation Name',
+  'Alias',
+  'Index Name',
+  'Startup Cost',
+  'Total Cost',
+  'Plan Rows',
+  'Plan Width',
+  'Actual Startup Time',
+  'Actual Total Time',
+  'Actual Rows',
+  'Actual Loops',
+  'Parallel Aware',
+  'Async Capable',
+]);
+
+const DETAIL_KEYS = ['Join Type', 'Scan Direction', 'Strategy', 'Sort Method', 'Command'];
+
+// Estimates further off than this factor are flagged
+const MISESTIMATE_FACTOR = 10;
+// Nodes taking at least this share of the total are highlighted
+const HOT_SHARE = 0.2;
+
+export function buildExplainQuery(sql: string, { analyze, buffers }: ExplainOptions) {
+  const options = ['FORMAT JSON', analyze && 'ANALYZE', analyze && buffers && 'BUFFERS'];
+  return `EXPLAIN (${options.filter(Boolean).join(', ')}) ${sql.trim().replace(/;\s*$/, '')}`;
+}
+
+const toNumber = (value: unknown) => (typeof value === 'number' ? value : null);
+
+const formatProperty = (value: unknown) =>
+  Array.isArray(value)
+    ? value.join(', ')
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+
+function toNode(raw: RawPlan, id: string): PlanNode {
+  const children = ((raw.Plans as RawPlan[]) ?? []).map((child, i) => toNode(child, `${id}.${i}`));
+  const totalCost = toNumber(raw['Total Cost']) ?? 0;
+  const loops = toNumber(raw['Actual Loops']);
+  const actualTime = toNumber(raw['Actual Total Time']);
+  // Actual times are per loop, so they are scaled up before children are subtracted
+  const totalTime = actualTime === null ? null : actualTime * (loops ?? 1);
+  const childTime = children.reduce((sum, child) => sum + (child.totalTime ?? 0), 0);
+  const childCost = children.reduce((sum, child) => sum + child.totalCost, 0);
+  const schema = typeof raw.Schema === 'string' ? `${raw.Schema}.` : '';
+  const relation =
+    typeof raw['Relation Name'] === 'string' ? `${schema}${raw['Relation Name']}` : null;
+
+  return {
+    id,
+    nodeType: `${raw['Parallel Aware'] ? 'Parallel ' : ''}${raw['Node Type']}`,
+    relation,
+    indexName: typeof raw['Index Name'] === 'string' ? raw['Index Name'] : null,
+    detail:
+      DETAIL_KEYS.map((key) => raw[key])
+        .filter((value) => typeof value === 'string')
+        .join(', ') || null,
+    startupCost: toNumber(raw['Startup Cost']) ?? 0,
+    totalCost,
+    exclusiveCost: Math.max(0, totalCost - childCost),
+    planRows: toNumber(raw['Plan Rows']) ?? 0,
+    actualRows: toNumber(raw['Actual Rows']),
+    loops,
+    totalTime,
+    exclusiveTime: totalTime === null ? null : Math.max(0, totalTime - childTime),
+    properties: Object.entries(raw)
+      .filter(
+        ([key, value]) => !HIDDEN_KEYS.has(key) && !DETAIL_KEYS.includes(key) && value !== null
+      )
+      .map(([key, value]) => [key, formatProperty(value)]),
+    children,
+  };
+}
+
+const flatten = (node: PlanNode): PlanNode[] => [node, ...node.children.flatMap(flatten)];
+
+// EXPLAIN (FORMAT JSON) returns one row holding [{ Plan, Planning Time, Execution Time }],
+// which drivers hand over either parsed or as text
+export function parseExplainResult(result: QueryResult): ExplainPlan {
+  const row = result.rows?.[0];
+  const cell = row ? Object.values(row)[0] : undefined;
+  let document: unknown = cell;
+  if (typeof cell === 'string') {
+    try {
+      document = JSON.parse(cell);
+    } catch {
+      throw new Error('The backend did not return a JSON plan');
+    }
+  }
+  const entry = (Array.isArray(document) ? document[0] : document) as RawPlan | undefined;
+  if (!entry || typeof entry.Plan !== 'object') {
+    throw new Error('The backend did not return a JSON plan');
+  }
+  const root = toNode(entry.Plan as RawPlan, '0');
+  return {
+    root,
+    nodes: flatten(root),
+    analyzed: root.totalTime !== null,
+    planningTime: toNumber(entry['Planning Time']),
+    executionTime: toNumber(entry['Execution Time']),
+  };
+}
+
+// What each node costs, in time when the plan was analyzed and in planner units otherwise
+export const nodeWeight = (plan: ExplainPlan, node: PlanNode) =>
+  plan.analyzed ? (node.exclusiveTime ?? 0) : node.exclusiveCost;
+
+export function hotNodes(plan: ExplainPlan) {
+  const total = plan.nodes.reduce((sum, node) => sum + nodeWeight(plan, node), 0);
+  if (total === 0) return new Set<string>();
+  return new Set(
+    plan.nodes.filter((node) => nodeWeight(plan, node) / total >= HOT_SHARE).map((node) => node.id)
+  );
+}
+
+export const isSeqScan = (node: PlanNode) => /Seq Scan$/.test(node.nodeType);
+
+export function planWarnings(plan: ExplainPlan): PlanWarning[] {
+  const warnings: PlanWarning[] = [];
+  plan.nodes.forEach((node) => {
+    if (isSeqScan(node)) {
+      const filtered = node.properties.find(([key]) => key === 'Filter');
+      warnings.push({
+        nodeId: node.id,
+        message: `Sequential scan on ${node.relation ?? 'a table'}${
+          filtered ? ' with a filter; an index on the filtered columns may help' : ''
+        }`,
+      });
+    }
+    if (node.actualRows !== null && node.planRows > 0) {
+      const actual = Math.max(1, node.actualRows);
+      const factor = Math.max(actual / node.planRows, node.planRows / actual);
+      if (factor >= MISESTIMATE_FACTOR) {
+        warnings.push({
+          nodeId: node.id,
+          message: `${node.nodeType} expected ${node.planRows.toLocaleString()} rows but got ${node.actualRows.toLocaleString()}; table statistics may be stale`,
+        });
+      }
+    }
+  });
+  return warnings;
+}
@@ -0,0 +1,173 @@
+import { quoteIdentifier, quoteTableName, toSqlLiteral } from '@/lib/sql';
+import { buildXlsx } from '@/lib/xlsx';
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'columnar' | 'xlsx' | 'markdown' | 'sql';
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  // Which of the dialog options the format honours
+  delimiter?: boolean;
+  header?: boolean;
+  nullValue?: boolean;
+  requiresTable?: boolean;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  csv: {
+    label: 'CSV',
+    extension: 'csv',
+    mimeType: 'text/csv',
+    delimiter: true,
+    header: true,
+    nullValue: true,
+  },
+  tsv: {
+    label: 'TSV',
+    extension: 'tsv',
+    mimeType: 'text/tab-separated-values',
+    header: true,
+    nullValue: true,
+  },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  columnar: { label: 'Columnar JSON', extension: 'columns.json', mimeType: 'application/json' },
+  xlsx: {
+    label: 'Excel (XLSX)',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    header: true,
+  },
+  markdown: { label: 'Markdown table', extension: 'md', mimeType: 'text/markdown', nullValue: true },
+  sql: {
+    label: 'SQL INSERT statements',
+    extension: 'sql',
+    mimeType: 'application/sql',
+    requiresTable: true,
+  },
+};
+
+export interface ExportOptions {
+  delimiter: string;
+  header: boolean;
+  nullValue: string;
+  table?: string | null;
+  columnTypes?: Record<string, string>;
+}
+
+type Row = Record<string, unknown>;
+
+const cellText = (value: unknown, nullValue: string) => {
+  if (value === null || value === undefined) return nullValue;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// RFC 4180: fields holding the delimiter, quotes or line breaks are quoted, quotes doubled.
+// An empty string is quoted too whenever NULL is written as nothing, so the two stay apart.
+export function toCsv(columns: string[], rows: Row[], { delimiter, header, nullValue }: ExportOptions) {
+  const field = (text: string, isNull = false) => {
+    const mustQuote =
+      text.includes(delimiter) || /["\r\n]/.test(text) || (text === '' && !isNull && nullValue === '');
+    return mustQuote ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = rows.map((row) =>
+    columns
+      .map((column) => {
+        const value = row[column];
+        return field(cellText(value, nullValue), value === null || value === undefined);
+      })
+      .join(delimiter)
+  );
+  if (header) lines.unshift(columns.map((column) => field(column)).join(delimiter));
+  return lines.map((line) => `${line}\r\n`).join('');
+}
+
+// Tabs, line breaks and backslashes are escaped so every record stays on one line
+export function toTsv(columns: string[], rows: Row[], { header, nullValue }: ExportOptions) {
+  const escape = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+  const lines = rows.map((row) =>
+    columns
+      .map((column) => {
+        const value = row[column];
+        return value === null || value === undefined ? nullValue : escape(cellText(value, ''));
+      })
+      .join('\t')
+  );
+  if (header) lines.unshift(columns.map(escape).join('\t'));
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+// Keeps the result's column order and turns missing values into explicit nulls
+const orderedRow = (columns: string[], row: Row) =>
+  Object.fromEntries(columns.map((column) => [column, row[column] ?? null]));
+
+export function toJson(columns: string[], rows: Row[]) {
+  return `${JSON.stringify(
+    rows.map((row) => orderedRow(columns, row)),
+    null,
+    2
+  )}\n`;
+}
+
+export function toNdjson(columns: string[], rows: Row[]) {
+  return rows.map((row) => `${JSON.stringify(orderedRow(columns, row))}\n`).join('');
+}
+
+// One array per column, like Parquet or Arrow, which is compact and loads straight into dataframes
+export function toColumnarJson(columns: string[], rows: Row[], { columnTypes = {} }: ExportOptions) {
+  return `${JSON.stringify({
+    columns: columns.map((name) => ({ name, type: columnTypes[name] ?? null })),
+    rowCount: rows.length,
+    data: Object.fromEntries(
+      columns.map((column) => [column, rows.map((row) => row[column] ?? null)])
+    ),
+  })}\n`;
+}
+
+export function toMarkdown(columns: string[], rows: Row[], { nullValue }: ExportOptions) {
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |\n`;
+  return (
+    line(columns.map(escape)) +
+    line(columns.map(() => '---')) +
+    rows.map((row) => line(columns.map((column) => escape(cellText(row[column], nullValue))))).join('')
+  );
+}
+
+export function toInsertStatements(columns: string[], rows: Row[], { table }: ExportOptions) {
+  if (!table) throw new Error('INSERT statements need a table to insert into');
+  const target = `INSERT INTO ${quoteTableName(table)} (${columns.map(quoteIdentifier).join(', ')})`;
+  return rows
+    .map(
+      (row) => `${target} VALUES (${columns.map((column) => toSqlLiteral(row[column])).join(', ')});\n`
+    )
+    .join('');
+}
+
+export function exportRows(
+  format: ExportFormat,
+  columns: string[],
+  rows: Row[],
+  options: ExportOptions
+): string | Uint8Array {
+  switch (format) {
+    case 'csv':
+      return toCsv(columns, rows, options);
+    case 'tsv':
+      return toTsv(columns, rows, options);
+    case 'json':
+      return toJson(columns, rows);
+    case 'ndjson':
+      return toNdjson(columns, rows);
+    case 'columnar':
+      return toColumnarJson(columns, rows, options);
+    case 'xlsx':
+      return buildXlsx(columns, rows, { header: options.header, sheetName: options.table ?? undefined });
+    case 'markdown':
+      return toMarkdown(columns, rows, options);
+    case 'sql':
+      return toInsertStatements(columns, rows, options);
+  }
+}
@@ -0,0 +1,272 @@
+import { columnKind, validateValue, type ColumnKind } from '@/lib/columns';
+import {
+  coerceParam,
+  paramTypeForColumn,
+  quoteIdentifier,
+  toSqlLiteral,
+  type SqlParam,
+} from '@/lib/sql';
+
+export type FilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'contains'
+  | 'starts_with'
+  | 'regex'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'is_null'
+  | 'not_null';
+
+export interface FilterCondition {
+  operator: FilterOperator;
+  value: string;
+  // Upper bound for "between"
+  valueTo: string;
+}
+
+// A condition on one result column; the type is fixed when the filter is made so the SQL it
+// pushes down does not change as the rows it filters change
+export interface ColumnFilter extends FilterCondition {
+  id: string;
+  column: string;
+  type: string;
+}
+
+export type FilterMode = 'client' | 'server';
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: 'equals',
+  neq: 'does not equal',
+  contains: 'contains',
+  starts_with: 'starts with',
+  regex: 'matches regex',
+  gt: 'is greater than',
+  gte: 'is at least',
+  lt: 'is less than',
+  lte: 'is at most',
+  between: 'is between',
+  is_null: 'is empty (NULL)',
+  not_null: 'is not empty',
+};
+
+const OPERATOR_SYMBOLS: Partial<Record<FilterOperator, string>> = {
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  regex: '~',
+};
+
+const NULL_OPERATORS: FilterOperator[] = ['is_null', 'not_null'];
+const RANGE_OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between'];
+
+export function operatorsForKind(kind: ColumnKind): FilterOperator[] {
+  if (kind === 'boolean') return ['eq', 'neq', ...NULL_OPERATORS];
+  if (kind === 'json') return ['contains', 'regex', ...NULL_OPERATORS];
+  if (kind === 'text') {
+    return ['eq', 'neq', 'contains', 'starts_with', 'regex', ...NULL_OPERATORS];
+  }
+  return [...RANGE_OPERATORS, ...NULL_OPERATORS];
+}
+
+export const operatorNeedsValue = (operator: FilterOperator) => !NULL_OPERATORS.includes(operator);
+
+// Why a condition cannot be applied yet, if it cannot
+export function conditionError(condition: FilterCondition, columnType: string | undefined) {
+  if (!operatorNeedsValue(condition.operator)) return null;
+  const kind = columnKind(columnType);
+  // Text matches any input, and json is only searched as text
+  if (['contains', 'starts_with', 'regex'].includes(condition.operator)) {
+    if (condition.value === '') return 'Enter a value';
+    if (condition.operator !== 'regex') return null;
+    try {
+      new RegExp(condition.value);
+      return null;
+    } catch {
+      return 'Invalid regular expression';
+    }
+  }
+  if (kind === 'text') return null;
+  const values =
+    condition.operator === 'between' ? [condition.value, condition.valueTo] : [condition.value];
+  for (const value of values) {
+    const error = validateValue(value, columnType);
+    if (error) return error === 'Enter a value or set NULL' ? 'Enter a value' : error;
+  }
+  return null;
+}
+
+export function describeFilter(filter: ColumnFilter) {
+  if (!operatorNeedsValue(filter.operator)) {
+    return `${filter.column} ${OPERATOR_LABELS[filter.operator]}`;
+  }
+  if (filter.operator === 'between') {
+    return `${filter.column} between ${filter.value} and ${filter.valueTo}`;
+  }
+  const operator = OPERATOR_SYMBOLS[filter.operator] ?? OPERATOR_LABELS[filter.operator];
+  return `${filter.column} ${operator} ${filter.value}`;
+}
+
+// Guesses a column type from loaded values for results that do not come from a known table
+export function inferColumnType(values: unknown[]) {
+  const present = values.filter((value) => value !== null && value !== undefined);
+  if (present.length === 0) return 'text';
+  if (present.every((value) => typeof value === 'number')) return 'numeric';
+  if (present.every((value) => typeof value === 'boolean')) return 'boolean';
+  if (present.every((value) => typeof value === 'object')) return 'jsonb';
+  if (present.every((value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value))) {
+    return 'date';
+  }
+  if (
+    present.every(
+      (value) =>
+        typeof value === 'string' &&
+        /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(value) &&
+        !Number.isNaN(Date.parse(value))
+    )
+  ) {
+    return 'timestamp';
+  }
+  return 'text';
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// Numbers go through the same check as bound values, so only decimal notation is inlined
+function literalFor(value: string, kind: ColumnKind) {
+  if (kind === 'number') return String(coerceParam(value, 'number').value);
+  if (kind === 'boolean') return value.toLowerCase() === 'true' ? 'TRUE' : 'FALSE';
+  return toSqlLiteral(value);
+}
+
+// Values are bound with add when it is given. Without it they are inlined, for SQL that is
+// shown in the editor and may be edited by hand, such as the query builder's. Either way the
+// condition must have passed conditionError.
+export function conditionSql(
+  condition: FilterCondition,
+  columnType: string | undefined,
+  ref: string,
+  add?: (param: SqlParam) => string
+) {
+  const kind = columnKind(columnType);
+  const bind = (input: string) =>
+    add ? add(coerceParam(input, paramTypeForColumn(columnType))) : literalFor(input, kind);
+  const text = (input: string) => (add ? add({ type: 'text', value: input }) : toSqlLiteral(input));
+  const value = () => bind(condition.value);
+  const asText = kind === 'text' ? ref : `${ref}::text`;
+  switch (condition.operator) {
+    case 'eq':
+      return `${ref} = ${value()}`;
+    case 'neq':
+      return `${ref} <> ${value()}`;
+    case 'contains':
+      return `${asText} ILIKE ${text(`%${escapeLike(condition.value)}%`)}`;
+    case 'starts_with':
+      return `${asText} ILIKE ${text(`${escapeLike(condition.value)}%`)}`;
+    case 'regex':
+      return `${asText} ~* ${text(condition.value)}`;
+    case 'gt':
+      return `${ref} > ${value()}`;
+    case 'gte':
+      return `${ref} >= ${value()}`;
+    case 'lt':
+      return `${ref} < ${value()}`;
+    case 'lte':
+      return `${ref} <= ${value()}`;
+    case 'between':
+      return `${ref} BETWEEN ${value()} AND ${bind(condition.valueTo)}`;
+    case 'is_null':
+      return `${ref} IS NULL`;
+    case 'not_null':
+      return `${ref} IS NOT NULL`;
+  }
+}
+
+// WHERE conditions for the filters that are complete, with their values bound through add;
+// the others are ignored
+export function filterConditions(filters: ColumnFilter[], add: (param: SqlParam) => string) {
+  return filters
+    .filter((filter) => !conditionError(filter, filter.type))
+    .map((filter) => conditionSql(filter, filter.type, quoteIdentifier(filter.column), add));
+}
+
+const cellText = (value: unknown) =>
+  typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Compares numbers as numbers and dates as instants; a NULL cell only satisfies "is empty",
+// as it would in SQL
+export function matchesCondition(value: unknown, condition: FilterCondition, columnType?: string) {
+  if (condition.operator === 'is_null') return value === null || value === undefined;
+  if (condition.operator === 'not_null') return value !== null && value !== undefined;
+  if (value === null || value === undefined) return false;
+
+  const kind = columnKind(columnType);
+  const text = cellText(value);
+  switch (condition.operator) {
+    case 'contains':
+      return text.toLowerCase().includes(condition.value.toLowerCase());
+    case 'starts_with':
+      return text.toLowerCase().startsWith(condition.value.toLowerCase());
+    case 'regex':
+      return new RegExp(condition.value, 'i').test(text);
+  }
+  if (kind === 'boolean') {
+    const equal = text.toLowerCase() === condition.value.toLowerCase();
+    return condition.operator === 'neq' ? !equal : equal;
+  }
+  if (kind === 'text' || kind === 'json') {
+    const equal = text === condition.value;
+    return condition.operator === 'neq' ? !equal : equal;
+  }
+
+  const toNumber = (input: unknown) =>
+    kind === 'number' ? Number(input) : Date.parse(cellText(input));
+  const cell = toNumber(value);
+  const target = toNumber(condition.value);
+  switch (condition.operator) {
+    case 'eq':
+      return cell === target;
+    case 'neq':
+      return cell !== target;
+    case 'gt':
+      return cell > target;
+    case 'gte':
+      return cell >= target;
+    case 'lt':
+      return cell < target;
+    case 'lte':
+      return cell <= target;
+    case 'between':
+      return cell >= target && cell <= toNumber(condition.valueTo);
+  }
+  return true;
+}
+
+export function filterRows(rows: Record<string, unknown>[], filters: ColumnFilter[]) {
+  const active = filters.filter((filter) => !conditionError(filter, filter.type));
+  if (active.length === 0) return rows;
+  return rows.filter((row) =>
+    active.every((filter) => matchesCondition(row[filter.column], filter, filter.type))
+  );
+}
+
+// Free-text search only looks at text-like columns: substrings of numbers and timestamps
+// match almost anything
+export function matchesSearch(
+  row: Record<string, unknown>,
+  term: string,
+  columnTypes: Record<string, string>
+) {
+  const needle = term.toLowerCase();
+  return Object.entries(row).some(([column, value]) => {
+    if (value === null || value === undefined) return false;
+    const kind = columnKind(columnTypes[column]);
+    return (kind === 'text' || kind === 'json') && cellText(value).toLowerCase().includes(needle);
+  });
+}
@@ -0,0 +1,303 @@
+import type { SchemaColumn } from '@/hooks/useApi';
+import { columnKind, validateValue } from '@/lib/columns';
+import type { CellValue } from '@/lib/changeset';
+import { toCsv } from '@/lib/export';
+import {
+  createParamList,
+  paramFromCell,
+  quoteIdentifier,
+  quoteTableName,
+  type SqlStatement,
+} from '@/lib/sql';
+
+export type ImportFileFormat = 'csv' | 'json' | 'ndjson';
+export type ImportMode = 'insert' | 'upsert';
+
+export interface ImportSource {
+  format: ImportFileFormat;
+  fields: string[];
+  rows: Record<string, unknown>[];
+}
+
+// Table column name -> source field it is loaded from; unmapped columns keep their default
+export type ColumnMapping = Record<string, string | null>;
+
+export interface PreparedRow {
+  // 1-based position of the record in the file, not counting a CSV header
+  row: number;
+  values: CellValue[];
+}
+
+export interface RejectedRow {
+  row: number;
+  source: Record<string, unknown>;
+  error: string;
+}
+
+export interface PreparedImport {
+  columns: SchemaColumn[];
+  rows: PreparedRow[];
+  rejects: RejectedRow[];
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+// PostgreSQL accepts at most 65535 bind parameters per statement
+const MAX_PARAMS = 65535;
+const MAX_BATCH_ROWS = 500;
+
+export function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const unquoted = firstLine.replace(/"(?:[^"]|"")*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  DELIMITER_CANDIDATES.forEach((candidate) => {
+    const count = unquoted.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// RFC 4180 records: quoted fields may contain delimiters, doubled quotes and line breaks
+export function parseCsvRecords(text: string, delimiter = detectDelimiter(text)) {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    // Blank lines carry no data
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') quoted = false;
+      else field += char;
+      i += 1;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+      i += 1;
+    } else if (text.startsWith(delimiter, i)) {
+      endField();
+      i += delimiter.length;
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i += 1;
+    }
+  }
+  if (quoted) throw new Error('File ends inside a quoted field');
+  if (field !== '' || record.length > 0) endRecord();
+  return records;
+}
+
+// Blank header cells get a placeholder name and repeated ones a numeric suffix
+function uniqueFields(header: string[]) {
+  const seen = new Map<string, number>();
+  return header.map((name, index) => {
+    const base = name.trim() || `column_${index + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+}
+
+function fromRecords(records: unknown[], format: ImportFileFormat): ImportSource {
+  const fields = new Set<string>();
+  records.forEach((record, index) => {
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      throw new Error(`Record ${index + 1} is not a JSON object`);
+    }
+    Object.keys(record).forEach((key) => fields.add(key));
+  });
+  return { format, fields: [...fields], rows: records as Record<string, unknown>[] };
+}
+
+function parseNdjson(text: string) {
+  return text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line) as unknown];
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+  });
+}
+
+export function parseImportFile(fileName: string, content: string): ImportSource {
+  const text = content.replace(/^\uFEFF/, '');
+  const extension = fileName.toLowerCase().split('.').pop();
+  let source: ImportSource;
+
+  if (extension === 'ndjson' || extension === 'jsonl') {
+    source = fromRecords(parseNdjson(text), 'ndjson');
+  } else if (extension === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Plenty of .json files are really one object per line
+      source = fromRecords(parseNdjson(text), 'ndjson');
+    }
+    if (data !== undefined) {
+      if (!Array.isArray(data)) throw new Error('JSON file must contain an array of objects');
+      source = fromRecords(data, 'json');
+    }
+  } else {
+    const [header, ...records] = parseCsvRecords(text, extension === 'tsv' ? '\t' : undefined);
+    if (!header) throw new Error('File is empty');
+    const fields = uniqueFields(header);
+    source = {
+      format: 'csv',
+      fields,
+      rows: records.map((record) =>
+        Object.fromEntries(fields.map((field, index) => [field, record[index] ?? '']))
+      ),
+    };
+  }
+
+  if (source.rows.length === 0) throw new Error('File has no rows to import');
+  return source;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function autoMapColumns(columns: SchemaColumn[], fields: string[]): ColumnMapping {
+  return Object.fromEntries(
+    columns.map((column) => [
+      column.name,
+      fields.find((field) => field === column.name) ??
+        fields.find((field) => normalizeName(field) === normalizeName(column.name)) ??
+        null,
+    ])
+  );
+}
+
+// Problems with the mapping itself, which would fail every row
+export function mappingErrors(columns: SchemaColumn[], mapping: ColumnMapping, mode: ImportMode) {
+  const errors: string[] = [];
+  if (!columns.some((column) => mapping[column.name])) errors.push('Map at least one column');
+  columns.forEach((column) => {
+    if (!mapping[column.name] && !column.nullable && column.default === null) {
+      errors.push(`${column.name} is required and has no default`);
+    }
+  });
+  if (mode === 'upsert') {
+    const keys = columns.filter((column) => column.primary_key);
+    if (keys.length === 0) errors.push('Upsert needs a table with a primary key');
+    else if (keys.some((key) => !mapping[key.name])) {
+      errors.push('Upsert needs every primary key column mapped');
+    }
+  }
+  return errors;
+}
+
+// Files spell booleans in many ways; the database only needs true or false
+function coerceBoolean(value: string) {
+  if (/^(t|true|y|yes|1|on)$/i.test(value)) return 'true';
+  if (/^(f|false|n|no|0|off)$/i.test(value)) return 'false';
+  return value;
+}
+
+function toImportCell(raw: unknown, column: SchemaColumn, nullValue: string | null): CellValue {
+  if (raw === null || raw === undefined) return null;
+  if (typeof raw === 'string' && nullValue !== null && raw === nullValue) return null;
+  const text = typeof raw === 'object' ? JSON.stringify(raw) : String(raw);
+  const kind = columnKind(column.type);
+  if (kind === 'boolean') return coerceBoolean(text.trim());
+  if (kind === 'number') return text.trim();
+  return text;
+}
+
+export function prepareImport(
+  source: ImportSource,
+  tableColumns: SchemaColumn[],
+  mapping: ColumnMapping,
+  { nullValue = null }: { nullValue?: string | null } = {}
+): PreparedImport {
+  const columns = tableColumns.filter((column) => mapping[column.name]);
+  const rows: PreparedRow[] = [];
+  const rejects: RejectedRow[] = [];
+
+  source.rows.forEach((record, index) => {
+    const errors: string[] = [];
+    const values = columns.map((column) => {
+      const value = toImportCell(record[mapping[column.name]], column, nullValue);
+      if (value === null) {
+        if (!column.nullable) errors.push(`${column.name} cannot be NULL`);
+      } else {
+        const error = validateValue(value, column.type);
+        if (error) errors.push(`${column.name}: ${error}`);
+      }
+      return value;
+    });
+    if (errors.length > 0) rejects.push({ row: index + 1, source: record, error: errors.join('; ') });
+    else rows.push({ row: index + 1, values });
+  });
+
+  return { columns, rows, rejects };
+}
+
+export function importBatchSize(columnCount: number) {
+  return Math.max(1, Math.min(MAX_BATCH_ROWS, Math.floor(MAX_PARAMS / Math.max(1, columnCount))));
+}
+
+// One multi-row INSERT per batch; upserts overwrite the mapped columns of existing keys
+export function buildImportStatement(
+  table: string,
+  columns: SchemaColumn[],
+  rows: PreparedRow[],
+  mode: ImportMode
+): SqlStatement {
+  const list = createParamList();
+  const tuples = rows.map(
+    ({ values }) =>
+      `(${values.map((value, index) => list.add(paramFromCell(value, columns[index].type))).join(', ')})`
+  );
+  let sql = `INSERT INTO ${quoteTableName(table)} (${columns
+    .map((column) => quoteIdentifier(column.name))
+    .join(', ')}) VALUES ${tuples.join(', ')}`;
+
+  if (mode === 'upsert') {
+    const keys = columns.filter((column) => column.primary_key);
+    const updates = columns
+      .filter((column) => !column.primary_key)
+      .map((column) => `${quoteIdentifier(column.name)} = EXCLUDED.${quoteIdentifier(column.name)}`);
+    sql += ` ON CONFLICT (${keys.map((key) => quoteIdentifier(key.name)).join(', ')}) ${
+      updates.length > 0 ? `DO UPDATE SET ${updates.join(', ')}` : 'DO NOTHING'
+    }`;
+  }
+  return { sql, params: list.params };
+}
+
+// The rejected records as they appeared in the file, with the row number and reason added
+export function buildRejectsFile(source: ImportSource, rejects: RejectedRow[]) {
+  const rows = rejects.map(({ row, source: record, error }) => ({
+    _row: row,
+    ...record,
+    _error: error,
+  }));
+  return toCsv(['_row', ...source.fields, '_error'], rows, {
+    delimiter: ',',
+    header: true,
+    nullValue: '',
+  });
+}
@@ -0,0 +1,291 @@
+import type { QueryResult, SchemaTable } from '@/hooks/useApi';
+import { columnKind, type ColumnKind } from '@/lib/columns';
+import { asSubquery, quoteIdentifier, type SqlStatement } from '@/lib/sql';
+
+export interface ProfileColumn {
+  name: string;
+  type: string;
+  // A declared single-column key, or a column named like one; any duplicate in it is flagged
+  key: boolean;
+}
+
+export interface ProfileTarget {
+  label: string;
+  // The read statement whose rows are profiled; tables are profiled through their browse query
+  source: SqlStatement;
+  columns: ProfileColumn[];
+}
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface HistogramBin {
+  label: string;
+  count: number;
+}
+
+export type ProfileFlagKind = 'all-null' | 'constant' | 'duplicate-key';
+
+export interface ProfileFlag {
+  kind: ProfileFlagKind;
+  message: string;
+}
+
+export interface ColumnProfile {
+  column: ProfileColumn;
+  kind: ColumnKind;
+  total: number;
+  nulls: number;
+  nullRatio: number;
+  distinct: number;
+  // Numbers, dates and timestamps only, as the backend formats them
+  min: string | null;
+  max: string | null;
+  mean: number | null;
+  // Lengths of the text form of text and JSON values
+  length: { min: number; max: number; mean: number } | null;
+  topValues: ValueCount[];
+  // Spread of the values of numeric columns, or of the lengths of text and JSON columns
+  histogram: HistogramBin[];
+  flags: ProfileFlag[];
+}
+
+const KEY_NAME = /^(id|uuid|key)$/i;
+const HISTOGRAM_BINS = 10;
+const TOP_VALUES = 5;
+
+// Composite keys are left out, as their columns repeat by design
+function isSupposedKey(name: string, table: SchemaTable | null) {
+  const keys = table?.columns.filter((column) => column.primary_key) ?? [];
+  if (keys.length === 1 && keys[0].name === name) return true;
+  const unique = (table?.indexes ?? []).some(
+    (index) => index.unique && index.columns.length === 1 && index.columns[0] === name
+  );
+  return unique || KEY_NAME.test(name);
+}
+
+export function profileColumns(
+  columns: string[],
+  columnTypes: Record<string, string>,
+  table: SchemaTable | null
+): ProfileColumn[] {
+  return columns.map((name) => ({
+    name,
+    type: columnTypes[name] ?? 'text',
+    key: isSupposedKey(name, table),
+  }));
+}
+
+// Profiles only the first rows of the source when a sample size is given
+export function profileSource(statement: SqlStatement, sampleSize: number | null): SqlStatement {
+  if (sampleSize === null) return statement;
+  return {
+    ...statement,
+    sql: `SELECT * FROM ${asSubquery(statement.sql)} AS sample_source LIMIT ${Math.max(
+      1,
+      Math.floor(sampleSize)
+    )}`,
+  };
+}
+
+const withSource = (source: string, query: string) =>
+  `WITH profile_source AS ${asSubquery(source)}\n${query}`;
+
+// JSON has no equality operator and the other text-like types may lack one, so those compare
+// (and measure) their text form
+const usesText = (kind: ColumnKind) => kind === 'text' || kind === 'json';
+
+// One pass over the source for every column; stats are aliased by column index (c0_values, ...)
+export function buildProfileStatsQuery(source: string, columns: ProfileColumn[]) {
+  const selects = ['COUNT(*) AS total'];
+  columns.forEach((column, index) => {
+    const ref = quoteIdentifier(column.name);
+    const kind = columnKind(column.type);
+    const text = `${ref}::text`;
+    selects.push(
+      `COUNT(${ref}) AS c${index}_values`,
+      `COUNT(DISTINCT ${usesText(kind) ? text : ref}) AS c${index}_distinct`
+    );
+    if (kind === 'number' || kind === 'date' || kind === 'datetime') {
+      selects.push(`MIN(${ref}) AS c${index}_min`, `MAX(${ref}) AS c${index}_max`);
+    }
+    if (kind === 'number') selects.push(`AVG(${ref}::numeric) AS c${index}_mean`);
+    if (usesText(kind)) {
+      selects.push(
+        `MIN(LENGTH(${text})) AS c${index}_min_length`,
+        `MAX(LENGTH(${text})) AS c${index}_max_length`,
+        `AVG(LENGTH(${text})) AS c${index}_mean_length`
+      );
+    }
+  });
+  return withSource(source, `SELECT\n  ${selects.join(',\n  ')}\nFROM profile_source`);
+}
+
+const toNumber = (value: unknown) => {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const formatRatio = (ratio: number) =>
+  `${(ratio * 100).toFixed(ratio > 0 && ratio < 0.1 ? 1 : 0)}%`;
+
+function profileFlags(profile: Omit<ColumnProfile, 'flags'>): ProfileFlag[] {
+  const values = profile.total - profile.nulls;
+  const flags: ProfileFlag[] = [];
+  if (profile.total > 0 && values === 0) {
+    flags.push({ kind: 'all-null', message: 'Every value is NULL' });
+  }
+  if (values > 1 && profile.distinct === 1) {
+    flags.push({ kind: 'constant', message: 'Every non-NULL value is the same' });
+  }
+  if (profile.column.key && values > 0 && profile.distinct < values) {
+    flags.push({
+      kind: 'duplicate-key',
+      message: `Looks like a key, but ${formatRatio(
+        (values - profile.distinct) / values
+      )} of its values repeat an earlier one`,
+    });
+  }
+  return flags;
+}
+
+export function buildColumnProfiles(columns: ProfileColumn[], stats: QueryResult) {
+  const row = stats.rows?.[0] ?? {};
+  const total = toNumber(row.total) ?? 0;
+  return columns.map((column, index): ColumnProfile => {
+    const stat = (name: string) => row[`c${index}_${name}`];
+    const nulls = total - (toNumber(stat('values')) ?? 0);
+    const minLength = toNumber(stat('min_length'));
+    const profile = {
+      column,
+      kind: columnKind(column.type),
+      total,
+      nulls,
+      nullRatio: total > 0 ? nulls / total : 0,
+      distinct: toNumber(stat('distinct')) ?? 0,
+      min: stat('min') === null || stat('min') === undefined ? null : String(stat('min')),
+      max: stat('max') === null || stat('max') === undefined ? null : String(stat('max')),
+      mean: toNumber(stat('mean')),
+      length:
+        minLength === null
+          ? null
+          : {
+              min: minLength,
+              max: toNumber(stat('max_length')) ?? minLength,
+              mean: toNumber(stat('mean_length')) ?? minLength,
+            },
+      topValues: [],
+      histogram: [],
+    };
+    return { ...profile, flags: profileFlags(profile) };
+  });
+}
+
+// Columns whose values never repeat have nothing to show in a top list
+const hasRepeats = (profile: ColumnProfile) =>
+  profile.distinct > 0 && profile.distinct < profile.total - profile.nulls;
+
+export function buildTopValuesQuery(source: string, profiles: ColumnProfile[]) {
+  const branches = profiles.flatMap((profile, index) => {
+    if (!hasRepeats(profile)) return [];
+    const ref = quoteIdentifier(profile.column.name);
+    return [
+      `SELECT * FROM (SELECT ${index} AS col, ${ref}::text AS value, COUNT(*) AS frequency ` +
+        `FROM profile_source WHERE ${ref} IS NOT NULL GROUP BY 2 ORDER BY 3 DESC, 2 ` +
+        `LIMIT ${TOP_VALUES}) AS top_${index}`,
+    ];
+  });
+  return branches.length === 0 ? null : withSource(source, branches.join('\nUNION ALL\n'));
+}
+
+export function withTopValues(profiles: ColumnProfile[], result: QueryResult) {
+  return profiles.map((profile, index) => ({
+    ...profile,
+    topValues: (result.rows ?? [])
+      .filter((row) => Number(row.col) === index)
+      .map((row) => ({ value: String(row.value), count: toNumber(row.frequency) ?? 0 }))
+      .sort((a, b) => b.count - a.count),
+  }));
+}
+
+interface Distribution {
+  expression: string;
+  lower: number;
+  width: number;
+  bins: number;
+  // Lengths are whole numbers, so their bins are too
+  whole: boolean;
+}
+
+function distributionOf(profile: ColumnProfile): Distribution | null {
+  const ref = quoteIdentifier(profile.column.name);
+  if (profile.kind === 'number') {
+    const lower = toNumber(profile.min);
+    const upper = toNumber(profile.max);
+    if (lower === null || upper === null || lower >= upper) return null;
+    const bins = HISTOGRAM_BINS;
+    return {
+      expression: `${ref}::numeric`,
+      lower,
+      width: (upper - lower) / bins,
+      bins,
+      whole: false,
+    };
+  }
+  if (profile.length && profile.length.min < profile.length.max) {
+    const { min, max } = profile.length;
+    const width = Math.ceil((max - min + 1) / HISTOGRAM_BINS);
+    return {
+      expression: `LENGTH(${ref}::text)`,
+      lower: min,
+      width,
+      bins: Math.ceil((max - min + 1) / width),
+      whole: true,
+    };
+  }
+  return null;
+}
+
+// Buckets are clamped so the maximum (and any rounding at either end) stays in the outer bins
+export function buildHistogramQuery(source: string, profiles: ColumnProfile[]) {
+  const branches = profiles.flatMap((profile, index) => {
+    const distribution = distributionOf(profile);
+    if (!distribution) return [];
+    const { expression, lower, width, bins } = distribution;
+    const bucket = `WIDTH_BUCKET(${expression}, ${lower}, ${lower + width * bins}, ${bins})`;
+    return [
+      `SELECT ${index} AS col, GREATEST(1, LEAST(${bucket}, ${bins})) AS bucket, ` +
+        `COUNT(*) AS frequency FROM profile_source ` +
+        `WHERE ${quoteIdentifier(profile.column.name)} IS NOT NULL GROUP BY 2`,
+    ];
+  });
+  return branches.length === 0 ? null : withSource(source, branches.join('\nUNION ALL\n'));
+}
+
+const round = (value: number) => Number(value.toPrecision(4));
+
+export function withHistograms(profiles: ColumnProfile[], result: QueryResult) {
+  return profiles.map((profile, index) => {
+    const distribution = distributionOf(profile);
+    if (!distribution) return profile;
+    const { lower, width, bins, whole } = distribution;
+    const counts = new Map(
+      (result.rows ?? [])
+        .filter((row) => Number(row.col) === index)
+        .map((row) => [Number(row.bucket), toNumber(row.frequency) ?? 0])
+    );
+    const histogram = Array.from({ length: bins }, (_, i) => {
+      const start = lower + i * width;
+      const label = whole
+        ? width === 1
+          ? String(start)
+          : `${start}–${start + width - 1}`
+        : `${round(start)}–${round(start + width)}`;
+      return { label, count: counts.get(i + 1) ?? 0 };
+    });
+    return { ...profile, histogram };
+  });
+}
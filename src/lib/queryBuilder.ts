@@ -0,0 +1,215 @@
+import type { SchemaColumn, SchemaTable } from '@/hooks/useApi';
+import { conditionError, conditionSql, type FilterCondition } from '@/lib/filters';
+import { quoteIdentifier, quoteTableName } from '@/lib/sql';
+
+export interface ColumnRef {
+  table: string;
+  column: string;
+}
+
+export interface BuilderFilter extends ColumnRef, FilterCondition {
+  id: string;
+}
+
+export interface BuilderJoin {
+  id: string;
+  table: string;
+  type: 'inner' | 'left';
+  // A column of a table already in the query, matched against a column of the joined table
+  on: { left: ColumnRef; column: string };
+}
+
+export interface BuilderSort extends ColumnRef {
+  direction: 'asc' | 'desc';
+}
+
+export interface BuilderState {
+  table: string;
+  joins: BuilderJoin[];
+  // Empty selects every column
+  columns: ColumnRef[];
+  filters: BuilderFilter[];
+  sort: BuilderSort[];
+  limit: number | null;
+}
+
+export function emptyBuilderState(table: string): BuilderState {
+  return { table, joins: [], columns: [], filters: [], sort: [], limit: 100 };
+}
+
+// Tables are aliased by position so the same SQL reads the same however long the names are
+export function builderAliases(state: BuilderState) {
+  return new Map(
+    [state.table, ...state.joins.map((join) => join.table)].map((table, i) => [table, `t${i}`])
+  );
+}
+
+export function findColumn(schema: SchemaTable[], ref: ColumnRef): SchemaColumn | undefined {
+  return schema
+    .find((table) => table.name === ref.table)
+    ?.columns.find((column) => column.name === ref.column);
+}
+
+export interface JoinSuggestion {
+  table: string;
+  on: { left: ColumnRef; column: string };
+  reason: 'foreign key' | 'matching name';
+}
+
+// Joins offered for the tables already in the query: declared foreign keys in either
+// direction, then columns named alike ("episode_id" in both, or "episode_id" -> episodes.id)
+export function suggestJoins(schema: SchemaTable[], tables: string[]): JoinSuggestion[] {
+  const suggestions: JoinSuggestion[] = [];
+  const seen = new Set<string>();
+  const add = (suggestion: JoinSuggestion) => {
+    const key = `${suggestion.table}:${suggestion.on.left.table}.${suggestion.on.left.column}=${suggestion.on.column}`;
+    if (seen.has(key) || tables.includes(suggestion.table)) return;
+    seen.add(key);
+    suggestions.push(suggestion);
+  };
+  const byName = new Map(schema.map((table) => [table.name, table]));
+  const baseName = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+
+  tables.forEach((name) => {
+    const current = byName.get(name);
+    if (!current) return;
+    (current.foreign_keys ?? []).forEach((foreignKey) =>
+      add({
+        table: foreignKey.references.table,
+        on: {
+          left: { table: name, column: foreignKey.columns[0] },
+          column: foreignKey.references.columns[0],
+        },
+        reason: 'foreign key',
+      })
+    );
+    schema.forEach((other) =>
+      (other.foreign_keys ?? [])
+        .filter((foreignKey) => foreignKey.references.table === name)
+        .forEach((foreignKey) =>
+          add({
+            table: other.name,
+            on: {
+              left: { table: name, column: foreignKey.references.columns[0] },
+              column: foreignKey.columns[0],
+            },
+            reason: 'foreign key',
+          })
+        )
+    );
+  });
+
+  tables.forEach((name) => {
+    const current = byName.get(name);
+    if (!current) return;
+    schema.forEach((other) => {
+      if (other.name === name) return;
+      current.columns.forEach((column) => {
+        const match = column.name.toLowerCase();
+        if (match !== 'id' && other.columns.some((candidate) => candidate.name === column.name)) {
+          add({
+            table: other.name,
+            on: { left: { table: name, column: column.name }, column: column.name },
+            reason: 'matching name',
+          });
+        }
+        // "episode_id" pointing at the id of "episode" or "episodes"
+        const stem = match.endsWith('_id') ? match.slice(0, -3) : null;
+        const otherName = baseName(other.name);
+        if (
+          stem &&
+          (otherName === stem || otherName === `${stem}s`) &&
+          other.columns.some((c) => c.name === 'id')
+        ) {
+          add({
+            table: other.name,
+            on: { left: { table: name, column: column.name }, column: 'id' },
+            reason: 'matching name',
+          });
+        }
+      });
+    });
+  });
+  return suggestions;
+}
+
+// Why a filter cannot be turned into SQL yet, if it cannot
+export function filterError(filter: BuilderFilter, column: SchemaColumn | undefined) {
+  if (!column) return `${filter.column} no longer exists`;
+  return conditionError(filter, column.type);
+}
+
+export function buildBuilderQuery(state: BuilderState, schema: SchemaTable[]) {
+  const aliases = builderAliases(state);
+  const refSql = (ref: ColumnRef) => `${aliases.get(ref.table)}.${quoteIdentifier(ref.column)}`;
+  const tablesInQuery = [...aliases.keys()];
+
+  // With joins every column is listed, so names that clash across tables can be told apart
+  let selected = state.columns;
+  if (selected.length === 0 && state.joins.length > 0) {
+    selected = tablesInQuery.flatMap((table) =>
+      (schema.find((candidate) => candidate.name === table)?.columns ?? []).map((column) => ({
+        table,
+        column: column.name,
+      }))
+    );
+  }
+  const nameCounts = new Map<string, number>();
+  selected.forEach((ref) => nameCounts.set(ref.column, (nameCounts.get(ref.column) ?? 0) + 1));
+  const selectList =
+    selected.length === 0
+      ? '*'
+      : selected
+          .map((ref) =>
+            nameCounts.get(ref.column) > 1
+              ? `${refSql(ref)} AS ${quoteIdentifier(`${ref.table}.${ref.column}`)}`
+              : refSql(ref)
+          )
+          .join(',\n       ');
+
+  const lines = [
+    `SELECT ${selectList}`,
+    `FROM ${quoteTableName(state.table)} AS ${aliases.get(state.table)}`,
+  ];
+  state.joins.forEach((join) => {
+    lines.push(
+      `${join.type === 'left' ? 'LEFT JOIN' : 'JOIN'} ${quoteTableName(join.table)} AS ${aliases.get(join.table)} ON ${aliases.get(join.table)}.${quoteIdentifier(join.on.column)} = ${refSql(join.on.left)}`
+    );
+  });
+
+  const conditions = state.filters.flatMap((filter) => {
+    const column = findColumn(schema, filter);
+    if (!aliases.has(filter.table) || filterError(filter, column)) return [];
+    return [conditionSql(filter, column.type, refSql(filter))];
+  });
+  if (conditions.length > 0) lines.push(`WHERE ${conditions.join('\n  AND ')}`);
+
+  const sort = state.sort.filter((item) => aliases.has(item.table));
+  if (sort.length > 0) {
+    lines.push(
+      `ORDER BY ${sort.map((item) => `${refSql(item)} ${item.direction.toUpperCase()}`).join(', ')}`
+    );
+  }
+  if (state.limit !== null) lines.push(`LIMIT ${Math.max(0, Math.floor(state.limit))}`);
+  return lines.join('\n');
+}
+
+// Dropping a join also drops the joins chained off it and everything that used their columns
+export function removeJoin(state: BuilderState, joinId: string): BuilderState {
+  const removed = new Set<string>();
+  let joins = state.joins;
+  let next = joins.find((join) => join.id === joinId);
+  while (next) {
+    removed.add(next.table);
+    joins = joins.filter((join) => join !== next);
+    next = joins.find((join) => removed.has(join.on.left.table));
+  }
+  const kept = (ref: ColumnRef) => !removed.has(ref.table);
+  return {
+    ...state,
+    joins,
+    columns: state.columns.filter(kept),
+    filters: state.filters.filter(kept),
+    sort: state.sort.filter(kept),
+  };
+}
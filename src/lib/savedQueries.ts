@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import type { SavedQuery } from '@/stores/consoleStore';
+
+const EXPORT_VERSION = 1;
+
+const chartSpecSchema = z.object({
+  type: z.enum(['line', 'bar', 'area', 'scatter', 'histogram']),
+  x: z.string(),
+  y: z.array(z.string()),
+  groupBy: z.string().nullable().default(null),
+  aggregate: z.enum(['count', 'sum', 'avg', 'min', 'max']),
+  bucket: z.enum(['none', 'minute', 'hour', 'day', 'week', 'month']).default('none'),
+  bins: z.number().int().positive().default(20),
+});
+
+const savedQuerySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  folder: z.string().default(''),
+  description: z.string().default(''),
+  sql: z.string().min(1),
+  pinned: z.boolean().default(false),
+  chart: chartSpecSchema.nullable().optional(),
+  createdAt: z.string().default(() => new Date().toISOString()),
+  updatedAt: z.string().default(() => new Date().toISOString()),
+});
+
+const exportFileSchema = z.object({
+  version: z.literal(EXPORT_VERSION),
+  queries: z.array(savedQuerySchema),
+});
+
+export function serializeSavedQueries(queries: SavedQuery[]) {
+  return JSON.stringify(
+    { version: EXPORT_VERSION, exportedAt: new Date().toISOString(), queries },
+    null,
+    2
+  );
+}
+
+export function parseSavedQueries(content: string): SavedQuery[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const result = exportFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid saved queries file: ${issue.path.join('.') || 'root'} ${issue.message}`);
+  }
+  return result.data.queries as SavedQuery[];
+}
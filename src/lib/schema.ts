@@ -0,0 +1,335 @@
+import type { SchemaColumn, SchemaForeignKey, SchemaTable } from '@/hooks/useApi';
+import {
+  createParamList,
+  paramFromValue,
+  quoteIdentifier,
+  quoteTableName,
+  toSqlLiteral,
+  type SqlStatement,
+} from '@/lib/sql';
+
+export interface Relationship {
+  from: string;
+  to: string;
+  foreignKey: SchemaForeignKey;
+}
+
+export function formatBytes(bytes: number | null | undefined) {
+  if (bytes === null || bytes === undefined) return null;
+  const units = ['B', 'kB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value < 10 && unit > 0 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
+export function relationships(schema: SchemaTable[]): Relationship[] {
+  return schema.flatMap((table) =>
+    (table.foreign_keys ?? []).map((foreignKey) => ({
+      from: table.name,
+      to: foreignKey.references.table,
+      foreignKey,
+    }))
+  );
+}
+
+// Foreign keys of other tables (or the table itself) that point at this table
+export function incomingReferences(schema: SchemaTable[], tableName: string) {
+  return relationships(schema).filter((relationship) => relationship.to === tableName);
+}
+
+// Maps each column that is part of a foreign key to the table it references
+export function foreignKeyColumns(table: SchemaTable) {
+  const references = new Map<string, string>();
+  (table.foreign_keys ?? []).forEach((foreignKey) =>
+    foreignKey.columns.forEach((column) => references.set(column, foreignKey.references.table))
+  );
+  return references;
+}
+
+// The foreign key each column belongs to; a column in several keys maps to the first
+export function foreignKeyByColumn(table: SchemaTable) {
+  const keys = new Map<string, SchemaForeignKey>();
+  (table.foreign_keys ?? []).forEach((foreignKey) =>
+    foreignKey.columns.forEach((column) => {
+      if (!keys.has(column)) keys.set(column, foreignKey);
+    })
+  );
+  return keys;
+}
+
+// Rows of `table` whose `columns` equal `values`; null when a value is missing or NULL, as
+// such a reference points nowhere
+function matchingRowsQuery(
+  table: string,
+  columns: string[],
+  values: unknown[],
+  types: SchemaColumn[],
+  limit: number
+): SqlStatement | null {
+  if (columns.length === 0 || values.some((value) => value === null || value === undefined)) {
+    return null;
+  }
+  const list = createParamList();
+  const clauses = columns.map((column, index) => {
+    const type = types.find((candidate) => candidate.name === column)?.type;
+    return `${quoteIdentifier(column)} = ${list.add(paramFromValue(values[index], type))}`;
+  });
+  return {
+    sql: `SELECT * FROM ${quoteTableName(table)} WHERE ${clauses.join(' AND ')} LIMIT ${limit}`,
+    params: list.params,
+  };
+}
+
+// The row a foreign key of `row` points at, in the referenced table
+export function buildReferencedRowQuery(
+  foreignKey: SchemaForeignKey,
+  row: Record<string, unknown>,
+  target: SchemaTable | undefined
+) {
+  return matchingRowsQuery(
+    foreignKey.references.table,
+    foreignKey.references.columns,
+    foreignKey.columns.map((column) => row[column]),
+    target?.columns ?? [],
+    1
+  );
+}
+
+// Rows of the referencing table whose foreign key points at `row`
+export function buildReferencingRowsQuery(
+  relationship: Relationship,
+  row: Record<string, unknown>,
+  source: SchemaTable | undefined,
+  limit: number
+) {
+  const { foreignKey } = relationship;
+  return matchingRowsQuery(
+    relationship.from,
+    foreignKey.columns,
+    foreignKey.references.columns.map((column) => row[column]),
+    source?.columns ?? [],
+    limit
+  );
+}
+
+export interface TableGroup {
+  // null collects tables without a namespace
+  name: string | null;
+  tables: string[];
+}
+
+// Groups by schema ("memory.episodes") or, failing that, by a name prefix such as "memory_"
+// when at least two tables share it
+export function groupTables(names: string[]): TableGroup[] {
+  const prefixOf = (name: string) => (name.includes('_') ? name.slice(0, name.indexOf('_')) : null);
+  const prefixCounts = new Map<string, number>();
+  names.forEach((name) => {
+    const prefix = prefixOf(name);
+    if (!name.includes('.') && prefix) prefixCounts.set(prefix, (prefixCounts.get(prefix) ?? 0) + 1);
+  });
+
+  const groups = new Map<string | null, string[]>();
+  [...names]
+    .sort((a, b) => a.localeCompare(b))
+    .forEach((name) => {
+      const prefix = prefixOf(name);
+      const group = name.includes('.')
+        ? name.slice(0, name.lastIndexOf('.'))
+        : prefix && prefixCounts.get(prefix) > 1
+          ? prefix
+          : null;
+      groups.set(group, [...(groups.get(group) ?? []), name]);
+    });
+
+  return [...groups.entries()]
+    .map(([name, tables]) => ({ name, tables }))
+    .sort((a, b) => (a.name === null ? 1 : b.name === null ? -1 : a.name.localeCompare(b.name)));
+}
+
+// Rebuilds CREATE statements from what /schema reports, so anything it leaves out (checks,
+// triggers, partitioning) is missing here too
+export function buildCreateTableDdl(table: SchemaTable) {
+  const name = quoteTableName(table.name);
+  const lines = table.columns.map((column) =>
+    [
+      `  ${quoteIdentifier(column.name)} ${column.type}`,
+      !column.nullable && 'NOT NULL',
+      column.default && `DEFAULT ${column.default}`,
+    ]
+      .filter(Boolean)
+      .join(' ')
+  );
+  const keys = table.columns.filter((column) => column.primary_key);
+  if (keys.length > 0) {
+    lines.push(`  PRIMARY KEY (${keys.map((key) => quoteIdentifier(key.name)).join(', ')})`);
+  }
+  (table.foreign_keys ?? []).forEach((foreignKey) => {
+    lines.push(
+      [
+        `  CONSTRAINT ${quoteIdentifier(foreignKey.name)}`,
+        `FOREIGN KEY (${foreignKey.columns.map(quoteIdentifier).join(', ')})`,
+        `REFERENCES ${quoteTableName(foreignKey.references.table)}`,
+        `(${foreignKey.references.columns.map(quoteIdentifier).join(', ')})`,
+        foreignKey.on_delete && `ON DELETE ${foreignKey.on_delete}`,
+        foreignKey.on_update && `ON UPDATE ${foreignKey.on_update}`,
+      ]
+        .filter(Boolean)
+        .join(' ')
+    );
+  });
+
+  const statements = [`CREATE TABLE ${name} (\n${lines.join(',\n')}\n);`];
+  (table.indexes ?? [])
+    .filter((index) => !index.primary)
+    .forEach((index) => {
+      statements.push(
+        index.definition
+          ? `${index.definition.replace(/;\s*$/, '')};`
+          : `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(index.name)} ON ${name}${
+              index.method ? ` USING ${index.method}` : ''
+            } (${index.columns.map(quoteIdentifier).join(', ')});`
+      );
+    });
+  if (table.comment) statements.push(`COMMENT ON TABLE ${name} IS ${toSqlLiteral(table.comment)};`);
+  table.columns
+    .filter((column) => column.comment)
+    .forEach((column) =>
+      statements.push(
+        `COMMENT ON COLUMN ${name}.${quoteIdentifier(column.name)} IS ${toSqlLiteral(column.comment)};`
+      )
+    );
+  return `${statements.join('\n\n')}\n`;
+}
+
+export const ER_TABLE_WIDTH = 220;
+export const ER_HEADER_HEIGHT = 30;
+export const ER_ROW_HEIGHT = 20;
+const ER_GAP_X = 90;
+const ER_GAP_Y = 50;
+const ER_PADDING = 20;
+
+export interface ErNode {
+  table: SchemaTable;
+  columns: SchemaColumn[];
+  x: number;
+  y: number;
+  height: number;
+}
+
+export interface ErEdge {
+  id: string;
+  from: string;
+  to: string;
+  path: string;
+}
+
+export interface ErLayout {
+  nodes: ErNode[];
+  edges: ErEdge[];
+  width: number;
+  height: number;
+}
+
+// Related tables are visited breadth-first from the most connected one so they end up next
+// to each other; each cluster is then laid out row by row in a roughly square grid.
+function orderTables(schema: SchemaTable[], links: Relationship[]) {
+  const neighbours = new Map(schema.map((table) => [table.name, new Set<string>()]));
+  links.forEach(({ from, to }) => {
+    if (from === to || !neighbours.has(to)) return;
+    neighbours.get(from)?.add(to);
+    neighbours.get(to)?.add(from);
+  });
+  const byDegree = [...schema].sort(
+    (a, b) =>
+      neighbours.get(b.name).size - neighbours.get(a.name).size || a.name.localeCompare(b.name)
+  );
+  const ordered: SchemaTable[] = [];
+  const visited = new Set<string>();
+  const tables = new Map(schema.map((table) => [table.name, table]));
+
+  byDegree.forEach((start) => {
+    if (visited.has(start.name)) return;
+    const queue = [start.name];
+    visited.add(start.name);
+    while (queue.length > 0) {
+      const name = queue.shift();
+      ordered.push(tables.get(name));
+      [...neighbours.get(name)].sort().forEach((next) => {
+        if (visited.has(next)) return;
+        visited.add(next);
+        queue.push(next);
+      });
+    }
+  });
+  return ordered;
+}
+
+export function layoutErDiagram(schema: SchemaTable[], { keysOnly = false } = {}): ErLayout {
+  const links = relationships(schema);
+  const perRow = Math.max(1, Math.ceil(Math.sqrt(schema.length)));
+  const nodes: ErNode[] = [];
+  let y = ER_PADDING;
+
+  const ordered = orderTables(schema, links);
+  for (let start = 0; start < ordered.length; start += perRow) {
+    const row = ordered.slice(start, start + perRow).map((table, index) => {
+      const keys = foreignKeyColumns(table);
+      const columns = keysOnly
+        ? table.columns.filter((column) => column.primary_key || keys.has(column.name))
+        : table.columns;
+      return {
+        table,
+        columns,
+        x: ER_PADDING + index * (ER_TABLE_WIDTH + ER_GAP_X),
+        y,
+        height: ER_HEADER_HEIGHT + Math.max(1, columns.length) * ER_ROW_HEIGHT,
+      };
+    });
+    nodes.push(...row);
+    y += Math.max(...row.map((node) => node.height)) + ER_GAP_Y;
+  }
+
+  const nodeByName = new Map(nodes.map((node) => [node.table.name, node]));
+  // Edges attach to the row of the first key column, or to the header when it is hidden
+  const anchorY = (node: ErNode, column: string | undefined) => {
+    const index = node.columns.findIndex((candidate) => candidate.name === column);
+    return index === -1
+      ? node.y + ER_HEADER_HEIGHT / 2
+      : node.y + ER_HEADER_HEIGHT + index * ER_ROW_HEIGHT + ER_ROW_HEIGHT / 2;
+  };
+
+  const edges = links.flatMap(({ from, to, foreignKey }) => {
+    const source = nodeByName.get(from);
+    const target = nodeByName.get(to);
+    if (!source || !target) return [];
+    const y1 = anchorY(source, foreignKey.columns[0]);
+    const y2 = anchorY(target, foreignKey.references.columns[0]);
+    let path: string;
+    if (source === target) {
+      const x = source.x + ER_TABLE_WIDTH;
+      path = `M ${x} ${y1} C ${x + 40} ${y1}, ${x + 40} ${y2}, ${x} ${y2}`;
+    } else {
+      // Leave from the side facing the target, or loop out on the right when stacked
+      const rightward = target.x > source.x;
+      const stacked = target.x === source.x;
+      const x1 = rightward || stacked ? source.x + ER_TABLE_WIDTH : source.x;
+      const x2 = rightward ? target.x : target.x + ER_TABLE_WIDTH;
+      const bend = stacked ? 60 : Math.max(40, Math.abs(x2 - x1) / 2);
+      const c1 = rightward || stacked ? x1 + bend : x1 - bend;
+      const c2 = rightward ? x2 - bend : x2 + bend;
+      path = `M ${x1} ${y1} C ${c1} ${y1}, ${c2} ${y2}, ${x2} ${y2}`;
+    }
+    return [{ id: `${from}.${foreignKey.name}`, from, to, path }];
+  });
+
+  return {
+    nodes,
+    edges,
+    width: ER_PADDING * 2 + Math.min(perRow, schema.length) * (ER_TABLE_WIDTH + ER_GAP_X),
+    height: y,
+  };
+}
@@ -0,0 +1,86 @@
+import type { QueryResult } from '@/hooks/useApi';
+
+export type ScriptStepStatus = 'pending' | 'running' | 'success' | 'error' | 'skipped';
+
+export interface ScriptStep {
+  sql: string;
+  status: ScriptStepStatus;
+  result: QueryResult | null;
+  error: string | null;
+}
+
+// A script runs its statements as separate requests, one after another, so each reports its
+// own rows, timing and error
+export interface ScriptRun {
+  id: string;
+  steps: ScriptStep[];
+  // Otherwise the first failure skips every statement after it
+  continueOnError: boolean;
+  finished: boolean;
+}
+
+interface RunScriptOptions {
+  execute: (index: number) => Promise<QueryResult>;
+  onChange: (run: ScriptRun) => void;
+  // Checked before each statement; a stop skips the rest whatever continueOnError says
+  shouldStop: () => boolean;
+}
+
+export const createScriptRun = (
+  id: string,
+  statements: string[],
+  continueOnError: boolean
+): ScriptRun => ({
+  id,
+  steps: statements.map((sql) => ({ sql, status: 'pending', result: null, error: null })),
+  continueOnError,
+  finished: false,
+});
+
+export async function runScript(
+  run: ScriptRun,
+  { execute, onChange, shouldStop }: RunScriptOptions
+) {
+  let current = run;
+  const update = (index: number, patch: Partial<ScriptStep>) => {
+    current = {
+      ...current,
+      steps: current.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)),
+    };
+    onChange(current);
+  };
+
+  let halted = false;
+  for (let index = 0; index < run.steps.length; index++) {
+    if (halted || shouldStop()) {
+      update(index, { status: 'skipped' });
+      continue;
+    }
+    update(index, { status: 'running' });
+    try {
+      update(index, { status: 'success', result: await execute(index) });
+    } catch (error) {
+      update(index, {
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (!run.continueOnError) halted = true;
+    }
+  }
+
+  current = { ...current, finished: true };
+  onChange(current);
+  return current;
+}
+
+export function scriptSummary(run: ScriptRun) {
+  const count = (status: ScriptStepStatus) =>
+    run.steps.filter((step) => step.status === status).length;
+  return {
+    succeeded: count('success'),
+    failed: count('error'),
+    skipped: count('skipped'),
+    // Backend execution time of the statements that ran
+    executionTime: run.steps.reduce((sum, step) => sum + (step.result?.executionTime ?? 0), 0),
+  };
+}
@@ -0,0 +1,544 @@
+export type SqlParamType = 'text' | 'number' | 'boolean' | 'json' | 'null';
+
+export interface SqlParam {
+  type: SqlParamType;
+  value: string | number | boolean | null;
+}
+
+export interface SqlStatement {
+  sql: string;
+  params?: SqlParam[];
+}
+
+interface ColumnRef {
+  name: string;
+  type?: string;
+}
+
+// Decimal or scientific notation, as Postgres accepts it for numeric input
+export const NUMBER_TEXT = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+// Matches int, int4, integer, bigint and friends without catching "interval" or "point"
+const NUMERIC_TYPE = /(^(small|big|tiny|medium)?int(eger|\d)?\b|numeric|decimal|real|double|float|serial|money)/;
+
+export function quoteIdentifier(name: string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Table names may be schema-qualified ("memory.episodes"), so each part is quoted on its own.
+export function quoteTableName(name: string) {
+  return name.split('.').map(quoteIdentifier).join('.');
+}
+
+export const tableBrowseQuery = (table: string, limit?: number) =>
+  `SELECT * FROM ${quoteTableName(table)}${limit ? ` LIMIT ${limit}` : ''}`;
+
+export function paramTypeForColumn(type?: string): Exclude<SqlParamType, 'null'> {
+  const normalizedType = type?.toLowerCase() ?? '';
+  if (normalizedType.includes('bool')) return 'boolean';
+  if (NUMERIC_TYPE.test(normalizedType)) return 'number';
+  if (normalizedType.includes('json')) return 'json';
+  return 'text';
+}
+
+export function coerceParam(value: string, type: SqlParamType): SqlParam {
+  if (type === 'null') return { type, value: null };
+  if (type === 'boolean') {
+    if (!/^(true|false)$/i.test(value)) throw new Error(`"${value}" is not true or false`);
+    return { type, value: value.toLowerCase() === 'true' };
+  }
+  // Sent as the text that was entered for the backend to cast, since a JS number would round
+  // bigint keys above 2^53 and high-precision numerics
+  if (type === 'number') {
+    const text = value.trim();
+    if (!NUMBER_TEXT.test(text)) throw new Error(`"${value}" is not a number`);
+    return { type, value: text };
+  }
+  return { type, value };
+}
+
+// Converts a raw form input into a typed parameter. Empty input is treated as NULL.
+export function paramFromInput(value: string | undefined, columnType?: string): SqlParam {
+  if (value === '' || value === undefined) return { type: 'null', value: null };
+  return coerceParam(value, paramTypeForColumn(columnType));
+}
+
+// Converts a grid or form value, where NULL and '' are distinct; invalid values throw
+export function paramFromCell(value: string | null, columnType?: string): SqlParam {
+  if (value === null) return { type: 'null', value: null };
+  return coerceParam(value, paramTypeForColumn(columnType));
+}
+
+// Converts a value read back from a result row, keeping objects intact as JSON text. Only a
+// missing value is NULL: an empty string identifies a row as much as any other text does.
+export function paramFromValue(value: unknown, columnType?: string): SqlParam {
+  if (value === null || value === undefined) return { type: 'null', value: null };
+  if (typeof value === 'object') return { type: 'json', value: JSON.stringify(value) };
+  if (typeof value === 'boolean') return { type: 'boolean', value };
+  if (typeof value === 'number') return { type: 'number', value };
+  return paramFromCell(String(value), columnType);
+}
+
+// Inlines a result value into SQL text, for scripts that are run outside the console
+export function toSqlLiteral(value: unknown) {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : `'${value}'`;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+export function createParamList() {
+  const params: SqlParam[] = [];
+  return {
+    params,
+    add(param: SqlParam) {
+      params.push(param);
+      return `$${params.length}`;
+    },
+  };
+}
+
+function buildWhere(
+  keys: ColumnRef[],
+  row: Record<string, unknown>,
+  add: (param: SqlParam) => string
+) {
+  const clauses = keys.map((column) => {
+    const param = paramFromValue(row[column.name], column.type);
+    if (param.type === 'null') {
+      return `${quoteIdentifier(column.name)} IS NULL`;
+    }
+    return `${quoteIdentifier(column.name)} = ${add(param)}`;
+  });
+  return clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+}
+
+export function buildInsert(
+  table: string,
+  values: Array<{ column: ColumnRef; param: SqlParam }>
+): SqlStatement {
+  // Every column left to its default
+  if (values.length === 0) {
+    return { sql: `INSERT INTO ${quoteTableName(table)} DEFAULT VALUES`, params: [] };
+  }
+  const list = createParamList();
+  const columnNames = values.map(({ column }) => quoteIdentifier(column.name)).join(', ');
+  const placeholders = values.map(({ param }) => list.add(param)).join(', ');
+  return {
+    sql: `INSERT INTO ${quoteTableName(table)} (${columnNames}) VALUES (${placeholders})`,
+    params: list.params,
+  };
+}
+
+export function buildUpdate(
+  table: string,
+  values: Array<{ column: ColumnRef; param: SqlParam }>,
+  keys: ColumnRef[],
+  row: Record<string, unknown>
+): SqlStatement | null {
+  const list = createParamList();
+  const updates = values.map(
+    ({ column, param }) => `${quoteIdentifier(column.name)} = ${list.add(param)}`
+  );
+  const whereClause = buildWhere(keys, row, list.add);
+  if (!whereClause || updates.length === 0) return null;
+  return {
+    sql: `UPDATE ${quoteTableName(table)} SET ${updates.join(', ')} ${whereClause}`,
+    params: list.params,
+  };
+}
+
+export function buildDelete(
+  table: string,
+  keys: ColumnRef[],
+  row: Record<string, unknown>
+): SqlStatement | null {
+  const list = createParamList();
+  const whereClause = buildWhere(keys, row, list.add);
+  if (!whereClause) return null;
+  return {
+    sql: `DELETE FROM ${quoteTableName(table)} ${whereClause}`,
+    params: list.params,
+  };
+}
+
+// Rows picked in the grid, or every row a query returns (such as the filtered table browse)
+export type RowSelection = { rows: Record<string, unknown>[] } | { query: SqlStatement };
+
+// Rows whose keys are all set share one IN list; those with a NULL key are matched one by one
+function buildRowsWhere(
+  keys: ColumnRef[],
+  rows: Record<string, unknown>[],
+  add: (param: SqlParam) => string
+) {
+  if (keys.length === 0 || rows.length === 0) return '';
+  const single = keys.length === 1;
+  const tuples: string[] = [];
+  const others: string[] = [];
+  rows.forEach((row) => {
+    const params = keys.map((column) => paramFromValue(row[column.name], column.type));
+    if (params.some((param) => param.type === 'null')) {
+      others.push(`(${buildWhere(keys, row, add).replace(/^WHERE /, '')})`);
+      return;
+    }
+    const placeholders = params.map(add);
+    tuples.push(single ? placeholders[0] : `(${placeholders.join(', ')})`);
+  });
+  const target = single
+    ? quoteIdentifier(keys[0].name)
+    : `(${keys.map((column) => quoteIdentifier(column.name)).join(', ')})`;
+  const clauses = [
+    ...(tuples.length > 0 ? [`${target} IN (${tuples.join(', ')})`] : []),
+    ...others,
+  ];
+  return `WHERE ${clauses.join(' OR ')}`;
+}
+
+// The query's own placeholders come first, so its params must be added before any other
+function buildSelectionWhere(
+  keys: ColumnRef[],
+  selection: RowSelection,
+  list: ReturnType<typeof createParamList>
+) {
+  if ('rows' in selection) return buildRowsWhere(keys, selection.rows, list.add);
+  if (keys.length === 0) return '';
+  const names = keys.map((column) => quoteIdentifier(column.name)).join(', ');
+  const target = keys.length === 1 ? names : `(${names})`;
+  return `WHERE ${target} IN (SELECT ${names} FROM ${asSubquery(selection.query.sql)} AS selection_source)`;
+}
+
+const selectionParams = (selection: RowSelection) =>
+  'query' in selection ? (selection.query.params ?? []) : [];
+
+export function buildBulkUpdate(
+  table: string,
+  values: Array<{ column: ColumnRef; param: SqlParam }>,
+  keys: ColumnRef[],
+  selection: RowSelection
+): SqlStatement | null {
+  const list = createParamList();
+  selectionParams(selection).forEach(list.add);
+  const updates = values.map(
+    ({ column, param }) => `${quoteIdentifier(column.name)} = ${list.add(param)}`
+  );
+  const whereClause = buildSelectionWhere(keys, selection, list);
+  if (!whereClause || updates.length === 0) return null;
+  return {
+    sql: `UPDATE ${quoteTableName(table)} SET ${updates.join(', ')} ${whereClause}`,
+    params: list.params,
+  };
+}
+
+export function buildBulkDelete(
+  table: string,
+  keys: ColumnRef[],
+  selection: RowSelection
+): SqlStatement | null {
+  const list = createParamList();
+  selectionParams(selection).forEach(list.add);
+  const whereClause = buildSelectionWhere(keys, selection, list);
+  if (!whereClause) return null;
+  return {
+    sql: `DELETE FROM ${quoteTableName(table)} ${whereClause}`,
+    params: list.params,
+  };
+}
+
+export interface SortSpec {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+// The trailing newline keeps a final `-- comment` in the user's query from swallowing the wrapper.
+export function asSubquery(sql: string) {
+  return `(\n${sql.trim().replace(/;\s*$/, '')}\n)`;
+}
+
+// Without a limit the whole result is returned, still in the requested order
+export function buildPageQuery(
+  sql: string,
+  { limit, offset = 0, orderBy = [] }: { limit?: number; offset?: number; orderBy?: SortSpec[] }
+) {
+  const order =
+    orderBy.length > 0
+      ? ` ORDER BY ${orderBy
+          .map((sort) => `${quoteIdentifier(sort.column)} ${sort.direction.toUpperCase()}`)
+          .join(', ')}`
+      : '';
+  const query = `SELECT * FROM ${asSubquery(sql)} AS page_source${order}`;
+  if (limit === undefined) return query;
+  const safeLimit = Math.max(0, Math.floor(limit));
+  const safeOffset = Math.max(0, Math.floor(offset));
+  return `${query} LIMIT ${safeLimit} OFFSET ${safeOffset}`;
+}
+
+export function buildCountQuery(sql: string) {
+  return `SELECT COUNT(*) AS total FROM ${asSubquery(sql)} AS count_source`;
+}
+
+export function buildFilteredQuery(sql: string, conditions: string[]) {
+  if (conditions.length === 0) return sql;
+  return `SELECT * FROM ${asSubquery(sql)} AS filter_source WHERE ${conditions.join(' AND ')}`;
+}
+
+// Blanks out string literals, quoted identifiers, dollar-quoted bodies and comments while keeping
+// every character offset (and newline) intact, so code-level scans can't be fooled by their contents.
+// Quote characters themselves are kept so quoted names still read as a single token.
+export function maskSqlLiterals(sql: string) {
+  let masked = '';
+  let i = 0;
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    let end = -1;
+
+    if (char === "'" || char === '"') {
+      // E'...' strings also escape characters with a backslash, as in E'it\'s'
+      const escapes = char === "'" && /^[^\w$]?[Ee]$/.test(sql.slice(Math.max(0, i - 2), i));
+      end = i + 1;
+      while (end < sql.length) {
+        if (escapes && sql[end] === '\\') end += 2;
+        else if (sql[end] === char && sql[end + 1] === char) end += 2;
+        else if (sql[end] === char) break;
+        else end += 1;
+      }
+      end += 1;
+    } else if (char === '-' && next === '-') {
+      end = sql.indexOf('\n', i);
+      if (end === -1) end = sql.length;
+    } else if (char === '/' && next === '*') {
+      end = sql.indexOf('*/', i + 2);
+      end = end === -1 ? sql.length : end + 2;
+    } else if (char === '$') {
+      const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i))?.[0];
+      if (tag) {
+        end = sql.indexOf(tag, i + tag.length);
+        end = end === -1 ? sql.length : end + tag.length;
+      }
+    }
+
+    if (end === -1) {
+      masked += char;
+      i += 1;
+    } else if ((char === "'" || char === '"') && end - i >= 2 && sql[end - 1] === char) {
+      masked += char + blank(sql.slice(i + 1, end - 1)) + char;
+      i = end;
+    } else {
+      masked += blank(sql.slice(i, end));
+      i = end;
+    }
+  }
+  return masked;
+}
+
+const NAMED_PARAM = /(?<![:\w]):([A-Za-z_]\w*)/g;
+
+export function extractNamedParams(sql: string) {
+  const names = new Set<string>();
+  for (const match of maskSqlLiterals(sql).matchAll(NAMED_PARAM)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+// Rewrites :name placeholders to positional $n ones; repeated names share a position.
+export function bindNamedParams(sql: string, values: Record<string, SqlParam>): SqlStatement {
+  const list = createParamList();
+  const positions = new Map<string, string>();
+  const masked = maskSqlLiterals(sql);
+  let bound = '';
+  let last = 0;
+
+  for (const match of masked.matchAll(NAMED_PARAM)) {
+    const name = match[1];
+    if (!positions.has(name)) {
+      positions.set(name, list.add(values[name] ?? { type: 'null', value: null }));
+    }
+    bound += sql.slice(last, match.index) + positions.get(name);
+    last = (match.index ?? 0) + match[0].length;
+  }
+
+  return { sql: bound + sql.slice(last), params: list.params };
+}
+
+export function splitSqlStatements(sql: string) {
+  const masked = maskSqlLiterals(sql);
+  const statements: string[] = [];
+  let start = 0;
+  for (let i = 0; i <= masked.length; i++) {
+    if (i < masked.length && masked[i] !== ';') continue;
+    // Skip empty and comment-only fragments
+    if (masked.slice(start, i).trim()) statements.push(sql.slice(start, i).trim());
+    start = i + 1;
+  }
+  return statements;
+}
+
+export type StatementKind = 'read' | 'dml' | 'ddl' | 'other';
+
+export interface StatementInfo {
+  sql: string;
+  kind: StatementKind;
+  verb: string;
+  target: string | null;
+  unbounded: boolean;
+}
+
+export interface SqlClassification {
+  statements: StatementInfo[];
+  isReadOnly: boolean;
+  reasons: string[];
+  confirmationPhrase: string | null;
+}
+
+// SET is left out: it changes session settings, such as default_transaction_read_only
+const READ_VERBS = new Set(['SELECT', 'VALUES', 'TABLE', 'SHOW', 'DESCRIBE']);
+const DML_VERBS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'REPLACE', 'COPY']);
+const DDL_VERBS = new Set([
+  'CREATE',
+  'ALTER',
+  'DROP',
+  'TRUNCATE',
+  'RENAME',
+  'COMMENT',
+  'GRANT',
+  'REVOKE',
+  'REINDEX',
+]);
+const CODE_VERBS = new Set(['CALL', 'DO', 'EXECUTE']);
+
+const TARGET_PREFIX =
+  /^(?:DELETE\s+FROM|UPDATE|INSERT\s+INTO|MERGE\s+INTO|TRUNCATE(?:\s+TABLE)?|(?:DROP|ALTER)\s+(?:TABLE|VIEW|INDEX|SCHEMA|SEQUENCE)(?:\s+IF\s+EXISTS)?|CREATE\s+(?:TABLE|VIEW|INDEX|SCHEMA)(?:\s+IF\s+NOT\s+EXISTS)?)\s+(?:ONLY\s+)?/i;
+const IDENTIFIER = /^(?:"(?:[^"]|"")+"|[\w$]+)(?:\.(?:"(?:[^"]|"")+"|[\w$]+))*/;
+const SELECT_INTO = /\bINTO\s+(?:(?:TEMP|TEMPORARY|UNLOGGED)\s+)?(?:TABLE\s+)?/i;
+const MAIN_VERB = /\b(SELECT|INSERT|UPDATE|DELETE|MERGE|VALUES|TABLE)\b/i;
+const WRITE_VERB = /^\s*(INSERT|UPDATE|DELETE|MERGE)\b/i;
+
+// Blanks everything inside parentheses (keeping offsets), so that only the clauses of the
+// statement itself are left; subqueries and CTE bodies are judged on their own
+function topLevel(masked: string) {
+  let depth = 0;
+  let result = '';
+  for (const char of masked) {
+    if (char === ')') depth = Math.max(0, depth - 1);
+    result += depth > 0 && char !== '\n' ? ' ' : char;
+    if (char === '(') depth += 1;
+  }
+  return result;
+}
+
+// The parenthesized parts at the top level of a statement, such as the bodies of its CTEs
+function topLevelGroups(masked: string) {
+  const groups: Array<{ start: number; end: number }> = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === '(') {
+      if (depth === 0) start = i + 1;
+      depth += 1;
+    } else if (masked[i] === ')' && depth > 0) {
+      depth -= 1;
+      if (depth === 0) groups.push({ start, end: i });
+    }
+  }
+  return groups;
+}
+
+export function classifyStatement(sql: string): StatementInfo {
+  const masked = maskSqlLiterals(sql);
+  const lead = masked.length - masked.replace(/^[\s(]+/, '').length;
+  let body = masked.slice(lead);
+  let verb = (/^\w+/.exec(body)?.[0] ?? '').toUpperCase();
+
+  // EXPLAIN only executes its statement with ANALYZE, in which case that statement decides
+  if (verb === 'EXPLAIN') {
+    const options = /^EXPLAIN\s*(\([^)]*\))?\s*((?:(?:ANALY[SZ]E|VERBOSE)\s+)*)/i.exec(body);
+    const analyzes = /ANALY[SZ]E/i.test(options?.[0] ?? '');
+    if (!analyzes) {
+      return { sql, kind: 'read', verb, target: null, unbounded: false };
+    }
+    return { ...classifyStatement(sql.slice(lead + (options?.[0].length ?? 0))), sql };
+  }
+
+  // A CTE is judged by its main statement, or else by a data-modifying statement among its
+  // CTEs; keywords inside subqueries, such as SELECT ... FOR UPDATE, do not count
+  let offset = lead;
+  if (verb === 'WITH') {
+    const main = MAIN_VERB.exec(topLevel(body));
+    const writes = main && WRITE_VERB.test(main[1]);
+    const cte = writes
+      ? undefined
+      : topLevelGroups(body).find((group) => WRITE_VERB.test(body.slice(group.start, group.end)));
+    if (cte) {
+      const start = cte.end - body.slice(cte.start, cte.end).trimStart().length;
+      offset = lead + start;
+      body = body.slice(start, cte.end);
+    } else if (main) {
+      offset = lead + main.index;
+      body = body.slice(main.index);
+    } else {
+      return { sql, kind: 'read', verb: 'SELECT', target: null, unbounded: false };
+    }
+    verb = (/^\w+/.exec(body)?.[0] ?? '').toUpperCase();
+  }
+
+  const clauses = topLevel(body);
+  const prefix = TARGET_PREFIX.exec(body);
+  let target = prefix ? (IDENTIFIER.exec(sql.slice(offset + prefix[0].length))?.[0] ?? null) : null;
+
+  let kind: StatementKind = 'other';
+  if (READ_VERBS.has(verb)) kind = 'read';
+  else if (DML_VERBS.has(verb)) kind = 'dml';
+  else if (DDL_VERBS.has(verb)) kind = 'ddl';
+
+  // SELECT ... INTO creates the table it names
+  const into = verb === 'SELECT' ? SELECT_INTO.exec(clauses) : null;
+  if (into) {
+    verb = 'SELECT INTO';
+    kind = 'ddl';
+    target = IDENTIFIER.exec(sql.slice(offset + into.index + into[0].length))?.[0] ?? null;
+  }
+
+  return {
+    sql,
+    kind,
+    verb,
+    target,
+    unbounded: (verb === 'UPDATE' || verb === 'DELETE') && !/\bWHERE\b/i.test(clauses),
+  };
+}
+
+export function classifySql(sql: string): SqlClassification {
+  const statements = splitSqlStatements(sql).map(classifyStatement);
+  const writes = statements.filter((statement) => statement.kind !== 'read');
+  const reasons: string[] = [];
+  let confirmationPhrase: string | null = null;
+
+  statements.forEach((statement) => {
+    const target = statement.target?.replace(/"/g, '') ?? null;
+    let reason: string | null = null;
+    if (statement.kind === 'ddl') {
+      reason = `${statement.verb} ${target ?? ''} changes the database schema`;
+    } else if (statement.unbounded) {
+      reason = `${statement.verb} without a WHERE clause affects every row of ${target ?? 'the table'}`;
+    } else if (CODE_VERBS.has(statement.verb)) {
+      reason = `${statement.verb} runs server-side code that may modify data`;
+    }
+    if (reason) {
+      reasons.push(reason.replace(/\s+/g, ' '));
+      if (!confirmationPhrase) confirmationPhrase = target ?? statement.verb;
+    }
+  });
+
+  if (statements.length > 1 && writes.length > 0) {
+    reasons.push(`Script runs ${statements.length} statements, ${writes.length} of them writes`);
+    if (!confirmationPhrase) {
+      confirmationPhrase = writes[0].target?.replace(/"/g, '') ?? writes[0].verb;
+    }
+  }
+
+  return { statements, isReadOnly: writes.length === 0, reasons, confirmationPhrase };
+}
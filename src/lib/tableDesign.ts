@@ -0,0 +1,215 @@
+import type { SchemaColumn, SchemaTable } from '@/hooks/useApi';
+import { buildCreateTableDdl } from '@/lib/schema';
+import { quoteIdentifier, quoteTableName } from '@/lib/sql';
+
+export interface DesignColumn {
+  id: string;
+  // Name in the current definition; null for a column the design adds
+  originalName: string | null;
+  name: string;
+  type: string;
+  nullable: boolean;
+  primaryKey: boolean;
+  // Default expression as SQL, such as now() or 'draft'; empty for none
+  default: string;
+}
+
+export interface TableDesign {
+  name: string;
+  columns: DesignColumn[];
+}
+
+export type ColumnChangeKind = 'add' | 'drop' | 'alter';
+
+export interface ColumnChange {
+  kind: ColumnChangeKind;
+  name: string;
+  details: string[];
+}
+
+export const COMMON_COLUMN_TYPES = [
+  'bigint',
+  'integer',
+  'bigserial',
+  'numeric',
+  'double precision',
+  'boolean',
+  'text',
+  'varchar(255)',
+  'uuid',
+  'date',
+  'timestamptz',
+  'jsonb',
+  'text[]',
+  'vector(1536)',
+];
+
+export function designColumn(id: string, column?: SchemaColumn): DesignColumn {
+  return {
+    id,
+    originalName: column?.name ?? null,
+    name: column?.name ?? '',
+    type: column?.type ?? 'text',
+    nullable: column?.nullable ?? true,
+    primaryKey: column?.primary_key ?? false,
+    default: column?.default ?? '',
+  };
+}
+
+// Types are compared loosely, so "TEXT " and "text" are not reported as a change
+const sameType = (a: string, b: string) =>
+  a.trim().replace(/\s+/g, ' ').toLowerCase() === b.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export function validateDesign(
+  design: TableDesign,
+  schema: SchemaTable[],
+  original: SchemaTable | null
+) {
+  const errors: string[] = [];
+  const name = design.name.trim();
+  if (!name) errors.push('Name the table');
+  else if (!original && schema.some((table) => table.name === name)) {
+    errors.push(`A table named ${name} already exists`);
+  }
+  if (design.columns.length === 0) errors.push('Add at least one column');
+  const seen = new Set<string>();
+  design.columns.forEach((column, index) => {
+    const label = column.name.trim() || `Column ${index + 1}`;
+    if (!column.name.trim()) errors.push(`${label} needs a name`);
+    else if (seen.has(column.name.trim())) errors.push(`${label} appears more than once`);
+    seen.add(column.name.trim());
+    if (!column.type.trim()) errors.push(`${label} needs a type`);
+  });
+  return errors;
+}
+
+function columnChange(column: DesignColumn, original: SchemaColumn): ColumnChange | null {
+  const details: string[] = [];
+  if (column.name.trim() !== original.name) details.push(`renamed from ${original.name}`);
+  if (!sameType(column.type, original.type)) {
+    details.push(`type ${original.type} → ${column.type.trim()}`);
+  }
+  if (column.nullable !== original.nullable) {
+    details.push(column.nullable ? 'allows NULL' : 'NOT NULL');
+  }
+  if (column.default.trim() !== (original.default ?? '')) {
+    details.push(column.default.trim() ? `default ${column.default.trim()}` : 'no default');
+  }
+  if (column.primaryKey !== original.primary_key) {
+    details.push(column.primaryKey ? 'added to the primary key' : 'removed from the primary key');
+  }
+  return details.length > 0 ? { kind: 'alter', name: column.name.trim(), details } : null;
+}
+
+const addDetails = (column: DesignColumn) =>
+  [
+    column.type.trim(),
+    !column.nullable && 'NOT NULL',
+    column.default.trim() && `default ${column.default.trim()}`,
+    column.primaryKey && 'primary key',
+  ].filter(Boolean) as string[];
+
+// What the design changes compared to the current definition; everything is added for a new table
+export function diffDesign(design: TableDesign, original: SchemaTable | null): ColumnChange[] {
+  const kept = new Set(design.columns.map((column) => column.originalName));
+  const originals = new Map((original?.columns ?? []).map((column) => [column.name, column]));
+  const dropped = (original?.columns ?? [])
+    .filter((column) => !kept.has(column.name))
+    .map((column): ColumnChange => ({ kind: 'drop', name: column.name, details: [] }));
+  const changed = design.columns.flatMap((column): ColumnChange[] => {
+    const before = column.originalName === null ? undefined : originals.get(column.originalName);
+    if (!before) return [{ kind: 'add', name: column.name.trim(), details: addDetails(column) }];
+    const change = columnChange(column, before);
+    return change ? [change] : [];
+  });
+  return [...dropped, ...changed];
+}
+
+const toSchemaTable = (design: TableDesign): SchemaTable => ({
+  name: design.name.trim(),
+  columns: design.columns.map((column) => ({
+    name: column.name.trim(),
+    type: column.type.trim(),
+    nullable: column.nullable && !column.primaryKey,
+    primary_key: column.primaryKey,
+    default: column.default.trim() || null,
+  })),
+});
+
+const columnDefinition = (column: DesignColumn) =>
+  [
+    `${quoteIdentifier(column.name.trim())} ${column.type.trim()}`,
+    !column.nullable && 'NOT NULL',
+    column.default.trim() && `DEFAULT ${column.default.trim()}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+// Postgres names the constraint <table>_pkey unless told otherwise
+function primaryKeyName(table: SchemaTable) {
+  const index = (table.indexes ?? []).find((candidate) => candidate.primary);
+  return index?.name ?? `${table.name.slice(table.name.lastIndexOf('.') + 1)}_pkey`;
+}
+
+// Drops run first so a rename can reuse a dropped name, and renames run on their own as
+// Postgres does not combine RENAME with other ALTER TABLE actions
+export function buildDesignStatements(design: TableDesign, original: SchemaTable | null) {
+  if (!original) return [buildCreateTableDdl(toSchemaTable(design)).trim().replace(/;$/, '')];
+
+  const table = quoteTableName(original.name);
+  const originals = new Map(original.columns.map((column) => [column.name, column]));
+  const kept = new Set(design.columns.map((column) => column.originalName));
+  const keysBefore = original.columns
+    .filter((column) => column.primary_key)
+    .map((column) => column.name);
+  const keysAfter = design.columns.filter((column) => column.primaryKey);
+  const keysChanged =
+    keysBefore.length !== keysAfter.length ||
+    keysAfter.some((column, index) => column.originalName !== keysBefore[index]);
+
+  const drops = [
+    ...(keysChanged && keysBefore.length > 0
+      ? [`DROP CONSTRAINT ${quoteIdentifier(primaryKeyName(original))}`]
+      : []),
+    ...original.columns
+      .filter((column) => !kept.has(column.name))
+      .map((column) => `DROP COLUMN ${quoteIdentifier(column.name)}`),
+  ];
+  const renames: string[] = [];
+  const actions: string[] = [];
+  design.columns.forEach((column) => {
+    const name = quoteIdentifier(column.name.trim());
+    const before = column.originalName === null ? undefined : originals.get(column.originalName);
+    if (!before) {
+      actions.push(`ADD COLUMN ${columnDefinition(column)}`);
+      return;
+    }
+    if (column.name.trim() !== before.name) {
+      renames.push(`ALTER TABLE ${table} RENAME COLUMN ${quoteIdentifier(before.name)} TO ${name}`);
+    }
+    if (!sameType(column.type, before.type)) {
+      const type = column.type.trim();
+      actions.push(`ALTER COLUMN ${name} TYPE ${type} USING ${name}::${type}`);
+    }
+    if (column.nullable !== before.nullable) {
+      actions.push(`ALTER COLUMN ${name} ${column.nullable ? 'DROP' : 'SET'} NOT NULL`);
+    }
+    const defaultValue = column.default.trim();
+    if (defaultValue !== (before.default ?? '')) {
+      actions.push(
+        defaultValue
+          ? `ALTER COLUMN ${name} SET DEFAULT ${defaultValue}`
+          : `ALTER COLUMN ${name} DROP DEFAULT`
+      );
+    }
+  });
+  if (keysChanged && keysAfter.length > 0) {
+    actions.push(
+      `ADD PRIMARY KEY (${keysAfter.map((column) => quoteIdentifier(column.name.trim())).join(', ')})`
+    );
+  }
+
+  const alter = (parts: string[]) =>
+    parts.length > 0 ? [`ALTER TABLE ${table}\n  ${parts.join(',\n  ')}`] : [];
+  return [...alter(drops), ...renames, ...alter(actions)];
+}
@@ -1,19 +1,23 @@
-import { useState, useMemo, useCallback, useEffect } from 'react';
-import { useSchema, useExecuteQuery } from '@/hooks/useApi';
+import { Fragment, useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import {
+  useSchema,
+  cancelQuery,
+  useExecuteQuery,
+  useExecuteTransaction,
+  useFetchQuery,
+  useQuery_,
+  type SchemaForeignKey,
+  type SchemaTable,
+} from '@/hooks/useApi';
+import { useAppStore } from '@/stores/appStore';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '@/components/ui/table';
-import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Sheet,
   SheetContent,
@@ -29,39 +33,291 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from '@/components/ui/pagination';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
-import { Search, Play, Download, RefreshCw, Database, Edit } from 'lucide-react';
+import {
+  Search,
+  Play,
+  Download,
+  RefreshCw,
+  Database,
+  History,
+  BookMarked,
+  Pin,
+  Save,
+  ShieldCheck,
+  GitCommitHorizontal,
+  Upload,
+  Blocks,
+  ListTree,
+  Table2,
+  BarChart3,
+  Activity,
+  Plus,
+} from 'lucide-react';
 import { useDebounce } from '@/hooks/useDebounce';
 import { cn } from '@/lib/utils';
+import { ResultGrid } from '@/components/data-console/ResultGrid';
+import { QueryTabBar } from '@/components/data-console/QueryTabBar';
+import { QueryHistoryPanel } from '@/components/data-console/QueryHistoryPanel';
+import { SavedQueriesPanel } from '@/components/data-console/SavedQueriesPanel';
+import { SaveQueryDialog } from '@/components/data-console/SaveQueryDialog';
+import { QueryParamsDialog } from '@/components/data-console/QueryParamsDialog';
+import { SqlEditor } from '@/components/data-console/SqlEditor';
+import { DestructiveQueryDialog } from '@/components/data-console/DestructiveQueryDialog';
+import { StagedChangesPanel } from '@/components/data-console/StagedChangesPanel';
+import { RecordForm } from '@/components/data-console/RecordForm';
+import { ExportDialog, type ExportScope } from '@/components/data-console/ExportDialog';
+import { ImportWizard } from '@/components/data-console/ImportWizard';
+import { TablesSidebar } from '@/components/data-console/TablesSidebar';
+import { DdlDialog } from '@/components/data-console/DdlDialog';
+import { TableDesigner } from '@/components/data-console/TableDesigner';
+import { RelatedRecords } from '@/components/data-console/RelatedRecords';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { ResultFilterBar } from '@/components/data-console/ResultFilterBar';
+import { ExplainPanel } from '@/components/data-console/ExplainPanel';
+import { ProfilePanel } from '@/components/data-console/ProfilePanel';
+import { RunningQueryStatus } from '@/components/data-console/RunningQueryStatus';
+import { ScriptResults } from '@/components/data-console/ScriptResults';
+import { ResultChart } from '@/components/data-console/ResultChart';
+import { QueryBuilderPanel } from '@/components/data-console/QueryBuilderPanel';
+import { SelectionBar, type CopyFormat } from '@/components/data-console/SelectionBar';
+import {
+  BulkActionDialog,
+  type BulkAction,
+  type BulkUpdate,
+} from '@/components/data-console/BulkActionDialog';
+import {
+  createId,
+  useConsoleStore,
+  type QueryHistoryEntry,
+  type QueryTab,
+  type SavedQuery,
+  type SavedQueryInput,
+} from '@/stores/consoleStore';
+import {
+  buildBulkDelete,
+  buildBulkUpdate,
+  buildCountQuery,
+  buildDelete,
+  buildFilteredQuery,
+  buildInsert,
+  buildPageQuery,
+  buildUpdate,
+  classifySql,
+  createParamList,
+  paramFromCell,
+  bindNamedParams,
+  extractNamedParams,
+  splitSqlStatements,
+  tableBrowseQuery,
+  type RowSelection,
+  type SortSpec,
+  type SqlClassification,
+  type SqlParam,
+  type SqlStatement,
+} from '@/lib/sql';
+import {
+  applyStagedChanges,
+  buildChangesetStatements,
+  diffRow,
+  duplicateRow,
+  keyColumns,
+  rowLabel,
+  toCellValue,
+  type CellValue,
+  type StagedChange,
+} from '@/lib/changeset';
+import { filterConditions, filterRows, inferColumnType, matchesSearch } from '@/lib/filters';
+import { createScriptRun, runScript, scriptSummary, type ScriptRun } from '@/lib/script';
+import { profileColumns, type ProfileTarget } from '@/lib/profile';
+import { toCsv, toInsertStatements, toJson, type ExportOptions } from '@/lib/export';
+import { buildReferencedRowQuery, foreignKeyByColumn, foreignKeyColumns } from '@/lib/schema';
 
-const ROWS_PER_PAGE = 20;
+const PAGE_SIZE_OPTIONS = [100, 1000, 10000, 100000];
+const PAGE_LINKS = 5;
+// Rows listed by "SELECT top 100" in the tables sidebar
+const TOP_ROWS = 100;
+const COPY_OPTIONS: ExportOptions = { delimiter: ',', header: true, nullValue: '' };
+
+interface PendingConfirmation {
+  sql: string;
+  namedValues?: Record<string, SqlParam>;
+  classification: SqlClassification;
+}
+
+// A record opened in the edit drawer, directly or by following a foreign key
+interface RecordTrailEntry {
+  table: string;
+  row: Record<string, unknown>;
+}
+
+interface PendingHistory {
+  sql: string;
+  params?: Record<string, SqlParam>;
+  boundSql: string;
+}
 
 export default function DataConsole() {
-  const [selectedTable, setSelectedTable] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState('');
-  const [sqlQuery, setSqlQuery] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
   const [editMode, setEditMode] = useState<'create' | 'edit'>('edit');
-  const [formValues, setFormValues] = useState<Record<string, string>>({});
+  const [formValues, setFormValues] = useState<Record<string, CellValue | undefined>>({});
+  // Remounts the record form, resetting its state, each time the drawer opens
+  const [formKey, setFormKey] = useState(0);
   const [originalRow, setOriginalRow] = useState<Record<string, unknown> | null>(null);
-  const [lastExecutedQuery, setLastExecutedQuery] = useState<string>('');
-  const [lastSelectQuery, setLastSelectQuery] = useState<string>('');
-  const [queryResult, setQueryResult] = useState<{
-    columns?: string[];
-    rows?: Record<string, unknown>[];
-    executionTime?: number;
-  } | null>(null);
+  const [editingChange, setEditingChange] = useState<StagedChange | null>(null);
   const [isEditDrawerOpen, setIsEditDrawerOpen] = useState(false);
+  // Records followed to from the row first opened; the drawer shows the last one
+  const [recordTrail, setRecordTrail] = useState<RecordTrailEntry[]>([]);
+  const [editorSelection, setEditorSelection] = useState('');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isChangesOpen, setIsChangesOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportScope, setExportScope] = useState<ExportScope>('page');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+  const [explainTarget, setExplainTarget] = useState<{ sql: string; canAnalyze: boolean } | null>(
+    null
+  );
+  const [ddlTable, setDdlTable] = useState<SchemaTable | null>(null);
+  const [isDesignerOpen, setIsDesignerOpen] = useState(false);
+  // The table being altered; null while designing a new one
+  const [designTable, setDesignTable] = useState<SchemaTable | null>(null);
+  const [profileTarget, setProfileTarget] = useState<ProfileTarget | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<Record<string, unknown>>>(() => new Set());
+  // Stands for every row of the query, including those on other pages
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [queryToSave, setQueryToSave] = useState<SavedQueryInput | null>(null);
+  const [paramPrompt, setParamPrompt] = useState<{
+    sql: string;
+    names: string[];
+    confirmed: boolean;
+  } | null>(null);
+  const [pendingConfirmation, setPendingConfirmation] = useState<PendingConfirmation | null>(null);
+  // The latest script run of each tab, kept while the tab is open
+  const [scriptRuns, setScriptRuns] = useState<Record<string, ScriptRun>>({});
+  const stoppedScriptsRef = useRef(new Set<string>());
+  const pendingHistoryRef = useRef<PendingHistory | null>(null);
+
+  const readOnly = useAppStore((state) => state.config.readOnly);
+  const relativeTimestamps = useAppStore((state) => state.config.relativeTimestamps);
+  const {
+    tabs,
+    activeTabId,
+    history,
+    savedQueries,
+    addTab,
+    closeTab,
+    setActiveTab,
+    updateTab,
+    addHistoryEntry,
+    clearHistory,
+    saveQuery,
+    deleteSavedQuery,
+    toggleSavedQueryPin,
+    importSavedQueries,
+    favoriteTables,
+    recentTables,
+    toggleFavoriteTable,
+    addRecentTable,
+    stagingEnabled,
+    stagedChanges,
+    setStagingEnabled,
+    stageInsert,
+    stageUpdate,
+    stageDelete,
+    discardStagedChange,
+    clearStagedChanges,
+    runningQueries,
+    continueScriptOnError,
+    setContinueScriptOnError,
+  } = useConsoleStore();
+  const activeTab = tabs.find((tab) => tab.id === activeTabId) ?? tabs[0];
+  const {
+    selectedTable,
+    sql: sqlQuery,
+    browseQuery,
+    browseParams = [],
+    sort,
+    page: currentPage,
+    pageSize,
+    lastExecuted: lastExecutedQuery,
+    filters = [],
+    filterMode = 'client',
+    resultView = 'table',
+    chart = null,
+  } = activeTab;
+
+  const patchTab = useCallback(
+    (patch: Partial<Omit<QueryTab, 'id'>>) => updateTab(activeTab.id, patch),
+    [activeTab.id, updateTab]
+  );
 
   const debouncedSearch = useDebounce(searchQuery, 300);
 
+  // Statements keep running in the tab they were started from while other tabs are used
+  const tabQueries = useMemo(
+    () => runningQueries.filter((query) => query.tabId === activeTab.id),
+    [activeTab.id, runningQueries]
+  );
+  const runningTabIds = useMemo(
+    () => new Set(runningQueries.map((query) => query.tabId)),
+    [runningQueries]
+  );
+
+  const clearScriptRun = useCallback((tabId: string) => {
+    setScriptRuns((current) => {
+      const next = { ...current };
+      delete next[tabId];
+      return next;
+    });
+  }, []);
+
+  // Stopping a tab also skips whatever is left of its script
+  const stopTab = useCallback(
+    (tabId: string) => {
+      const script = scriptRuns[tabId];
+      if (script && !script.finished) stoppedScriptsRef.current.add(script.id);
+      runningQueries
+        .filter((query) => query.tabId === tabId)
+        .forEach((query) => cancelQuery(query.id));
+    },
+    [runningQueries, scriptRuns]
+  );
+
+  const handleCloseTab = useCallback(
+    (id: string) => {
+      stopTab(id);
+      clearScriptRun(id);
+      closeTab(id);
+    },
+    [clearScriptRun, closeTab, stopTab]
+  );
+
   const { data: schema, isLoading: schemaLoading } = useSchema();
   const executeQuery = useExecuteQuery();
+  const executeTransaction = useExecuteTransaction();
+  const { mutateAsync: fetchQuery } = useFetchQuery();
 
   // Auto-generate SELECT query when table changes
   const autoQuery = useMemo(() => {
     if (!selectedTable) return '';
-    return `SELECT * FROM ${selectedTable} LIMIT 100`;
+    return tableBrowseQuery(selectedTable);
   }, [selectedTable]);
 
   const selectedTableSchema = useMemo(() => {
@@ -69,362 +325,1099 @@ export default function DataConsole() {
     return schema.find((table) => table.name === selectedTable) ?? null;
   }, [schema, selectedTable]);
 
+  // Rows are only written back to the selected table while the result lists that table's own
+  // rows (server-side filters wrap the browse query later). A custom query run afterwards keeps
+  // the table selected, but its rows may come from anywhere, even with matching key names.
+  const isBrowsingTable =
+    Boolean(selectedTable) &&
+    (browseQuery === tableBrowseQuery(selectedTable) ||
+      browseQuery === tableBrowseQuery(selectedTable, TOP_ROWS));
+
+  // The table of the record in the edit drawer, which references may have led elsewhere
+  const recordTable = useMemo(() => {
+    const entry = recordTrail[recordTrail.length - 1];
+    if (!entry) return selectedTableSchema;
+    return schema?.find((table) => table.name === entry.table) ?? null;
+  }, [recordTrail, schema, selectedTableSchema]);
+  const tableReferences = useMemo(
+    () => (selectedTableSchema ? foreignKeyColumns(selectedTableSchema) : undefined),
+    [selectedTableSchema]
+  );
+
   const primaryKeys = useMemo(() => {
     return selectedTableSchema?.columns.filter((col) => col.primary_key) ?? [];
   }, [selectedTableSchema]);
 
+  const pinnedColumns = useMemo(() => primaryKeys.map((column) => column.name), [primaryKeys]);
+
+  // Rows are always fetched a page at a time; sorting and counting happen on the server
+  const orderBy = useMemo<SortSpec[]>(() => {
+    if (sort) return [sort];
+    // Primary keys give plain table browsing a stable order across pages
+    if (browseQuery && browseQuery === autoQuery) {
+      return primaryKeys.map((column) => ({ column: column.name, direction: 'asc' }));
+    }
+    return [];
+  }, [autoQuery, browseQuery, primaryKeys, sort]);
+
+  // Server-side filters wrap the query that was run, so paging, counting and export all see them.
+  // Their values are bound after the query's own params.
+  const { sql: sourceQuery, params: sourceParams } = useMemo<SqlStatement>(() => {
+    if (!browseQuery || filterMode !== 'server') return { sql: browseQuery, params: browseParams };
+    const list = createParamList();
+    browseParams.forEach(list.add);
+    const sql = buildFilteredQuery(browseQuery, filterConditions(filters, list.add));
+    return { sql, params: list.params };
+  }, [browseParams, browseQuery, filterMode, filters]);
+
+  // The page and count belong to the tab, so a slow SELECT can be stopped from it
+  const pageQuery = useQuery_(
+    {
+      sql: sourceQuery
+        ? buildPageQuery(sourceQuery, {
+            limit: pageSize,
+            offset: (currentPage - 1) * pageSize,
+            orderBy,
+          })
+        : '',
+      params: sourceParams,
+    },
+    true,
+    activeTab.id
+  );
+  const countQuery = useQuery_(
+    { sql: sourceQuery ? buildCountQuery(sourceQuery) : '', params: sourceParams },
+    true,
+    activeTab.id
+  );
+  const queryResult = pageQuery.data ?? null;
+  const countValue = countQuery.isPlaceholderData ? null : countQuery.data?.rows?.[0]?.total;
+  const totalRows = countValue === null || countValue === undefined ? null : Number(countValue);
+  const { refetch: refetchPage } = pageQuery;
+  const { refetch: refetchCount } = countQuery;
+
   useEffect(() => {
-    if (!selectedTableSchema) return;
-    if (editMode === 'create') {
-      const initialValues = selectedTableSchema.columns.reduce<Record<string, string>>(
-        (acc, column) => {
-          acc[column.name] = '';
-          return acc;
-        },
-        {}
-      );
-      setFormValues(initialValues);
+    if (pageQuery.error) {
+      toast.error(`Query failed: ${pageQuery.error.message}`);
     }
-  }, [selectedTableSchema, editMode]);
+  }, [pageQuery.error]);
 
-  const isSelectQuery = useCallback((query: string) => /^\s*select\b/i.test(query), []);
+  // Record explicitly run SELECTs in the history once their first page settles, and with their
+  // row count once it is counted: the page only holds up to a page of the rows
+  useEffect(() => {
+    const pending = pendingHistoryRef.current;
+    if (pending?.boundSql !== browseQuery || pageQuery.isFetching) return;
+    if (pageQuery.isSuccess) {
+      if (countQuery.isFetching) return;
+      pendingHistoryRef.current = null;
+      addHistoryEntry({
+        sql: pending.sql,
+        params: pending.params,
+        executedAt: new Date().toISOString(),
+        executionTime: pageQuery.data.executionTime ?? null,
+        rowCount: totalRows,
+        success: true,
+      });
+    } else if (pageQuery.isError) {
+      pendingHistoryRef.current = null;
+      addHistoryEntry({
+        sql: pending.sql,
+        params: pending.params,
+        executedAt: new Date().toISOString(),
+        executionTime: null,
+        rowCount: null,
+        success: false,
+        error: pageQuery.error.message,
+      });
+    }
+  }, [
+    addHistoryEntry,
+    browseQuery,
+    countQuery.isFetching,
+    pageQuery.data,
+    pageQuery.error,
+    pageQuery.isError,
+    pageQuery.isFetching,
+    pageQuery.isSuccess,
+    totalRows,
+  ]);
+
+  // Only a single SELECT (or read-only WITH) can be wrapped for paging and counting
+  const isSelectQuery = useCallback((query: string) => {
+    const { statements } = classifySql(query);
+    return statements.length === 1 && statements[0].kind === 'read' && statements[0].verb === 'SELECT';
+  }, []);
 
   const runSelectQuery = useCallback(
-    (query: string, { showToast = true }: { showToast?: boolean } = {}) => {
-      if (!query) return;
-      setLastExecutedQuery(query);
-      setLastSelectQuery(query);
-      executeQuery.mutate(query, {
-        onSuccess: (data) => {
-          if (showToast) {
-            toast.success(`Query executed in ${data.executionTime}ms`);
-          }
-          if (data.columns && data.rows) {
-            setQueryResult(data);
-          }
-        },
-        onError: (error) => {
-          toast.error(`Query failed: ${error.message}`);
+    (query: string | SqlStatement, source?: Omit<PendingHistory, 'boundSql'>) => {
+      const { sql, params = [] } = typeof query === 'string' ? { sql: query } : query;
+      if (!sql) return;
+      // Bound statements are only worth recording alongside the source they were bound from
+      pendingHistoryRef.current =
+        source || typeof query === 'string' ? { sql, ...source, boundSql: sql } : null;
+      if (sql === browseQuery && JSON.stringify(params) === JSON.stringify(browseParams)) {
+        patchTab({ lastExecuted: query, page: 1 });
+        refetchPage();
+        refetchCount();
+        return;
+      }
+      patchTab({
+        lastExecuted: query,
+        page: 1,
+        browseQuery: sql,
+        browseParams: params,
+        sort: null,
+        filters: [],
+      });
+    },
+    [browseParams, browseQuery, patchTab, refetchCount, refetchPage]
+  );
+
+  const handleSort = useCallback(
+    (column: string) => {
+      let nextSort: SortSpec | null = null;
+      if (sort?.column !== column) nextSort = { column, direction: 'asc' };
+      else if (sort.direction === 'asc') nextSort = { column, direction: 'desc' };
+      patchTab({ sort: nextSort, page: 1 });
+    },
+    [patchTab, sort]
+  );
+
+  // Scripts run one statement per request so each reports its own result; :name values are
+  // prompted for once and shared by every statement that uses them
+  const executeScript = useCallback(
+    (query: string, namedValues?: Record<string, SqlParam>) => {
+      const tabId = activeTab.id;
+      const statements = splitSqlStatements(query);
+      const run = createScriptRun(createId(), statements, continueScriptOnError);
+      patchTab({ lastExecuted: query });
+      runScript(run, {
+        execute: (index) => {
+          const sql = statements[index];
+          const statement =
+            extractNamedParams(sql).length > 0
+              ? bindNamedParams(sql, namedValues ?? {})
+              : { sql, params: [] };
+          return executeQuery.mutateAsync({ ...statement, tabId });
         },
+        onChange: (next) => setScriptRuns((current) => ({ ...current, [tabId]: next })),
+        shouldStop: () => stoppedScriptsRef.current.has(run.id),
+      }).then((finished) => {
+        stoppedScriptsRef.current.delete(run.id);
+        const { succeeded, failed, skipped, executionTime } = scriptSummary(finished);
+        const failedIndex = finished.steps.findIndex((step) => step.status === 'error');
+        addHistoryEntry({
+          sql: query,
+          params: namedValues,
+          executedAt: new Date().toISOString(),
+          executionTime,
+          rowCount: null,
+          success: failed === 0,
+          error:
+            failedIndex === -1
+              ? undefined
+              : `Statement ${failedIndex + 1}: ${finished.steps[failedIndex].error}`,
+        });
+        if (failed === 0) {
+          toast.success(`Script ran ${succeeded} statements in ${executionTime}ms`);
+        } else {
+          toast.error(
+            `Script finished with ${failed} failed${skipped > 0 ? ` and ${skipped} skipped` : ''} statements`
+          );
+        }
       });
     },
-    [executeQuery]
+    [activeTab.id, addHistoryEntry, continueScriptOnError, executeQuery, patchTab]
+  );
+
+  // Writes are refused on a read-only connection and destructive statements need a typed
+  // confirmation; queries with :name placeholders then prompt for values and run with them bound
+  const executeSql = useCallback(
+    (query: string, namedValues?: Record<string, SqlParam>, confirmed = false) => {
+      const classification = classifySql(query);
+      if (readOnly && !classification.isReadOnly) {
+        toast.error('Read-only connection: only SELECT queries can be run');
+        return;
+      }
+      if (classification.reasons.length > 0 && !confirmed) {
+        setPendingConfirmation({ sql: query, namedValues, classification });
+        return;
+      }
+      const names = extractNamedParams(query);
+      if (names.length > 0 && !namedValues) {
+        setParamPrompt({ sql: query, names, confirmed });
+        return;
+      }
+      if (classification.statements.length > 1) {
+        executeScript(query, namedValues);
+        return;
+      }
+      const statement =
+        names.length > 0 ? bindNamedParams(query, namedValues) : { sql: query, params: [] };
+      if (isSelectQuery(query)) {
+        runSelectQuery(statement, { sql: query, params: namedValues });
+        return;
+      }
+      patchTab({ lastExecuted: statement });
+      // Per-call mutate callbacks only fire for the latest call, and statements from several
+      // tabs may be in flight at once, so each one settles through its own promise
+      executeQuery.mutateAsync(statement).then(
+        (data) => {
+          toast.success(`Query executed in ${data.executionTime}ms`);
+          addHistoryEntry({
+            sql: query,
+            params: namedValues,
+            executedAt: new Date().toISOString(),
+            executionTime: data.executionTime ?? null,
+            rowCount: data.rowCount ?? null,
+            success: true,
+          });
+        },
+        (error: Error) => {
+          toast.error(`Query failed: ${error.message}`);
+          addHistoryEntry({
+            sql: query,
+            params: namedValues,
+            executedAt: new Date().toISOString(),
+            executionTime: null,
+            rowCount: null,
+            success: false,
+            error: error.message,
+          });
+        }
+      );
+    },
+    [
+      addHistoryEntry,
+      executeQuery,
+      executeScript,
+      isSelectQuery,
+      patchTab,
+      readOnly,
+      runSelectQuery,
+    ]
   );
 
-  const handleRunQuery = useCallback(() => {
-    const query = sqlQuery || autoQuery;
+  const handleRunQuery = useCallback(
+    (text?: string) => {
+      const query = text || editorSelection || sqlQuery || autoQuery;
+      if (!query.trim()) {
+        toast.error('No query to execute');
+        return;
+      }
+      executeSql(query);
+    },
+    [editorSelection, sqlQuery, autoQuery, executeSql]
+  );
+
+  // The script options only matter once the editor holds more than one statement
+  const scriptLength = useMemo(
+    () => splitSqlStatements(editorSelection || sqlQuery).length,
+    [editorSelection, sqlQuery]
+  );
+
+  const handleExplain = useCallback(() => {
+    const query = (editorSelection || sqlQuery || autoQuery).trim();
     if (!query) {
-      toast.error('No query to execute');
+      toast.error('No query to explain');
       return;
     }
-    if (isSelectQuery(query)) {
-      runSelectQuery(query);
+    const { statements } = classifySql(query);
+    if (statements.length !== 1) {
+      toast.error('Select a single statement to explain');
       return;
     }
-    setLastExecutedQuery(query);
-    executeQuery.mutate(query, {
-      onSuccess: (data) => {
-        toast.success(`Query executed in ${data.executionTime}ms`);
-      },
-      onError: (error) => {
-        toast.error(`Query failed: ${error.message}`);
-      },
+    if (/^\s*EXPLAIN\b/i.test(query)) {
+      toast.error('The query is already an EXPLAIN; run it instead');
+      return;
+    }
+    if (extractNamedParams(query).length > 0) {
+      toast.error('Replace :named parameters with values to explain the query');
+      return;
+    }
+    setExplainTarget({ sql: query, canAnalyze: statements[0].kind === 'read' });
+  }, [autoQuery, editorSelection, sqlQuery]);
+
+  const handleRunFromHistory = useCallback(
+    (entry: QueryHistoryEntry) => {
+      patchTab({ sql: entry.sql });
+      setIsHistoryOpen(false);
+      executeSql(entry.sql, entry.params);
+    },
+    [executeSql, patchTab]
+  );
+
+  const handleRunSavedQuery = useCallback(
+    (query: SavedQuery) => {
+      patchTab({
+        sql: query.sql,
+        title: query.name,
+        chart: query.chart ?? null,
+        resultView: query.chart ? 'chart' : 'table',
+      });
+      setIsLibraryOpen(false);
+      executeSql(query.sql);
+    },
+    [executeSql, patchTab]
+  );
+
+  // Browsing leaves the editor empty; other table actions show the SQL they ran
+  const handleOpenTable = useCallback(
+    (name: string, sql?: string) => {
+      patchTab({ selectedTable: name, title: name, sql: sql ?? '' });
+      runSelectQuery(sql ?? tableBrowseQuery(name));
+      addRecentTable(name);
+    },
+    [addRecentTable, patchTab, runSelectQuery]
+  );
+
+  const handleProfileTable = useCallback((table: SchemaTable) => {
+    setProfileTarget({
+      label: table.name,
+      source: { sql: tableBrowseQuery(table.name) },
+      columns: profileColumns(
+        table.columns.map((column) => column.name),
+        Object.fromEntries(table.columns.map((column) => [column.name, column.type])),
+        table
+      ),
+    });
+  }, []);
+
+  const handleCountRows = useCallback(
+    async (name: string) => {
+      try {
+        const result = await fetchQuery({ sql: buildCountQuery(tableBrowseQuery(name)) });
+        toast.success(`${name}: ${Number(result.rows?.[0]?.total ?? 0).toLocaleString()} rows`);
+      } catch (error) {
+        toast.error(`Count failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+    [fetchQuery]
+  );
+
+  const handleSaveQuery = useCallback(
+    (query: SavedQueryInput) => {
+      saveQuery(query);
+      setQueryToSave(null);
+      toast.success(`Saved "${query.name}"`);
+    },
+    [saveQuery]
+  );
+
+  const savedQueryFolders = useMemo(
+    () => [...new Set(savedQueries.map((query) => query.folder).filter(Boolean))].sort(),
+    [savedQueries]
+  );
+  const pinnedQueries = useMemo(
+    () => savedQueries.filter((query) => query.pinned),
+    [savedQueries]
+  );
+
+  // Staged inserts and edits of the selected table are shown in place until committed
+  const staged = useMemo(() => {
+    const rows = queryResult?.rows ?? [];
+    if (!selectedTableSchema || stagedChanges.length === 0) {
+      return { rows, changeByRow: new Map<Record<string, unknown>, StagedChange>() };
+    }
+    return applyStagedChanges(rows, stagedChanges, selectedTableSchema);
+  }, [queryResult?.rows, selectedTableSchema, stagedChanges]);
+
+  const stagedCellClassName = useCallback(
+    (row: Record<string, unknown>, column: string) => {
+      const change = staged.changeByRow.get(row);
+      if (!change) return undefined;
+      if (change.kind === 'insert') return 'bg-green-500/10';
+      if (change.kind === 'delete') return 'bg-destructive/10 text-muted-foreground line-through';
+      return column in change.values ? 'bg-amber-500/25' : 'bg-amber-500/10';
+    },
+    [staged]
+  );
+
+  const columnTypes = useMemo(
+    () =>
+      Object.fromEntries(
+        (selectedTableSchema?.columns ?? []).map((column) => [column.name, column.type])
+      ),
+    [selectedTableSchema]
+  );
+
+  // Keys are only editable on staged inserts, and rows must carry their keys to be matched
+  const isCellEditable = useCallback(
+    (row: Record<string, unknown>, column: string) => {
+      if (!selectedTableSchema || !isBrowsingTable) return false;
+      const change = staged.changeByRow.get(row);
+      const schemaColumn = selectedTableSchema.columns.find((col) => col.name === column);
+      if (!schemaColumn || change?.kind === 'delete') return false;
+      if (change?.kind === 'insert') return true;
+      return (
+        !schemaColumn.primary_key &&
+        keyColumns(selectedTableSchema).every((key) => key.name in row)
+      );
+    },
+    [isBrowsingTable, selectedTableSchema, staged]
+  );
+
+  // Columns outside the selected table (custom queries, joins) get a type guessed from the page
+  const resultColumnTypes = useMemo(
+    () =>
+      Object.fromEntries(
+        (queryResult?.columns ?? []).map((column) => [
+          column,
+          columnTypes[column] ?? inferColumnType(queryResult.rows.map((row) => row[column])),
+        ])
+      ),
+    [columnTypes, queryResult]
+  );
+
+  // Profiles every row of the query that was run (with server-side filters), not just this page
+  const handleProfileResult = useCallback(() => {
+    if (!sourceQuery || !queryResult?.columns) return;
+    setProfileTarget({
+      label: sourceQuery,
+      source: { sql: sourceQuery, params: sourceParams },
+      columns: profileColumns(queryResult.columns, resultColumnTypes, selectedTableSchema),
     });
-  }, [sqlQuery, autoQuery, executeQuery, isSelectQuery, runSelectQuery]);
+  }, [queryResult?.columns, resultColumnTypes, selectedTableSchema, sourceParams, sourceQuery]);
 
-  // Filter rows based on search
+  // Filter the loaded page by the client-side filters and the free-text search
+  const isFilteringPage =
+    Boolean(debouncedSearch) || (filterMode === 'client' && filters.length > 0);
   const filteredRows = useMemo(() => {
     if (!queryResult?.rows) return [];
-    if (!debouncedSearch) return queryResult.rows;
+    const rows = filterMode === 'client' ? filterRows(staged.rows, filters) : staged.rows;
+    if (!debouncedSearch) return rows;
+    return rows.filter((row) => matchesSearch(row, debouncedSearch, resultColumnTypes));
+  }, [debouncedSearch, filterMode, filters, queryResult?.rows, resultColumnTypes, staged.rows]);
 
-    return queryResult.rows.filter((row) =>
-      Object.values(row).some((value) =>
-        String(value).toLowerCase().includes(debouncedSearch.toLowerCase())
-      )
+  // Until the count arrives, offer one more page whenever the current one is full
+  const totalPages =
+    totalRows === null
+      ? currentPage + ((queryResult?.rows?.length ?? 0) === pageSize ? 1 : 0)
+      : Math.max(1, Math.ceil(totalRows / pageSize));
+  const firstRowNumber = (currentPage - 1) * pageSize + 1;
+
+  // Keep a window of page links centred on the current page
+  const pageLinks = useMemo(() => {
+    const first = Math.max(
+      1,
+      Math.min(currentPage - Math.floor(PAGE_LINKS / 2), totalPages - PAGE_LINKS + 1)
     );
-  }, [debouncedSearch, queryResult?.rows]);
+    return Array.from({ length: Math.min(PAGE_LINKS, totalPages) }, (_, i) => first + i);
+  }, [currentPage, totalPages]);
 
-  // Paginate rows
-  const paginatedRows = useMemo(() => {
-    const start = (currentPage - 1) * ROWS_PER_PAGE;
-    return filteredRows.slice(start, start + ROWS_PER_PAGE);
-  }, [filteredRows, currentPage]);
+  // Exports everything the current query returns, in the order shown, rather than one page
+  const fetchFullResult = useMemo(() => {
+    if (!sourceQuery) return null;
+    return () =>
+      fetchQuery({ sql: buildPageQuery(sourceQuery, { orderBy }), params: sourceParams });
+  }, [fetchQuery, orderBy, sourceParams, sourceQuery]);
 
-  const totalPages = Math.ceil(filteredRows.length / ROWS_PER_PAGE);
+  // A new page or query starts with nothing selected
+  useEffect(() => {
+    setSelectedRows(new Set());
+    setAllMatchingSelected(false);
+  }, [queryResult, sourceQuery]);
 
-  const handleExportCSV = useCallback(() => {
-    if (!queryResult?.rows || queryResult.rows.length === 0) {
-      toast.error('No data to export');
-      return;
-    }
+  const selectedList = useMemo(
+    () => filteredRows.filter((row) => selectedRows.has(row)),
+    [filteredRows, selectedRows]
+  );
+  const selectionCount = allMatchingSelected
+    ? (totalRows ?? selectedList.length)
+    : selectedList.length;
+  const selection = useMemo<RowSelection>(
+    () =>
+      allMatchingSelected
+        ? { query: { sql: sourceQuery, params: sourceParams } }
+        : { rows: selectedList },
+    [allMatchingSelected, selectedList, sourceParams, sourceQuery]
+  );
 
-    const headers = queryResult.columns?.join(',') ?? '';
-    const rows = filteredRows.map((row) =>
-      (queryResult.columns ?? []).map((col) => JSON.stringify(row[col] ?? '')).join(',')
-    );
-    const csv = [headers, ...rows].join('\n');
-
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${selectedTable || 'export'}_${new Date().toISOString()}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-
-    toast.success('Data exported successfully');
-  }, [filteredRows, queryResult, selectedTable]);
-
-  const handleRowClick = useCallback((row: Record<string, unknown>) => {
-    setOriginalRow(row);
-    setEditMode('edit');
-    setFormValues(
-      Object.fromEntries(Object.entries(row).map(([key, value]) => [key, String(value ?? '')]))
-    );
-    setIsEditDrawerOpen(true);
+  // Rows beyond the page can be selected once all of it is, unless client-side filters or the
+  // search narrow the page in a way the server does not know about
+  const matchingCount =
+    sourceQuery &&
+    !isFilteringPage &&
+    totalRows !== null &&
+    totalRows > filteredRows.length &&
+    selectedList.length === filteredRows.length
+      ? totalRows
+      : null;
+
+  const handleSelectionChange = useCallback((rows: Set<Record<string, unknown>>) => {
+    setSelectedRows(rows);
+    setAllMatchingSelected(false);
   }, []);
+  const clearSelection = useCallback(
+    () => handleSelectionChange(new Set()),
+    [handleSelectionChange]
+  );
+
+  // Changes are made by primary key, so the result has to carry the table's keys
+  const selectionWriteBlocked = useMemo(() => {
+    if (!selectedTableSchema) return 'Open a table to change its rows';
+    if (!isBrowsingTable) return `Only rows browsed from ${selectedTable} can be changed`;
+    const missing = keyColumns(selectedTableSchema).filter(
+      (key) => !queryResult?.columns?.includes(key.name)
+    );
+    return missing.length > 0
+      ? `The result needs the key columns (${missing.map((key) => key.name).join(', ')})`
+      : null;
+  }, [isBrowsingTable, queryResult?.columns, selectedTable, selectedTableSchema]);
+
+  const handleCopySelection = useCallback(
+    async (format: CopyFormat) => {
+      const columns = queryResult?.columns ?? [];
+      try {
+        const rows =
+          allMatchingSelected && fetchFullResult
+            ? ((await fetchFullResult()).rows ?? [])
+            : selectedList;
+        const text =
+          format === 'json'
+            ? toJson(columns, rows)
+            : format === 'csv'
+              ? toCsv(columns, rows, COPY_OPTIONS)
+              : toInsertStatements(columns, rows, {
+                  ...COPY_OPTIONS,
+                  table: selectedTable || null,
+                });
+        await navigator.clipboard.writeText(text);
+        toast.success(`Copied ${rows.length.toLocaleString()} rows`);
+      } catch (error) {
+        toast.error(`Copy failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+    [allMatchingSelected, fetchFullResult, queryResult?.columns, selectedList, selectedTable]
+  );
+
+  // Staged bulk changes go through the same paths as single-row edits; otherwise a single
+  // statement keyed on the primary key changes every selected row
+  const handleBulkAction = useCallback(
+    (update?: BulkUpdate) => {
+      const action = bulkAction;
+      setBulkAction(null);
+      if (!action || readOnly || !selectedTableSchema || selectionWriteBlocked) return;
+      if (action === 'update' && !update) return;
+      const table = selectedTableSchema;
+
+      if (stagingEnabled) {
+        if (allMatchingSelected) {
+          toast.error('Only rows loaded on this page can be staged');
+          return;
+        }
+        selectedList.forEach((row) => {
+          const change = staged.changeByRow.get(row);
+          if (action === 'duplicate') {
+            stageInsert(table, duplicateRow(table, row));
+          } else if (change?.kind === 'insert') {
+            if (action === 'delete') discardStagedChange(change.id);
+            else stageInsert(table, { ...change.values, [update.column]: update.value }, change.id);
+          } else if (change?.kind !== 'delete') {
+            if (action === 'delete') stageDelete(table, change?.original ?? row);
+            else stageUpdate(table, change?.original ?? row, { [update.column]: update.value });
+          }
+        });
+        toast.success(`${selectedList.length} changes staged`);
+        clearSelection();
+        return;
+      }
+
+      if (action === 'duplicate') {
+        let statements: SqlStatement[];
+        try {
+          statements = selectedList.map((row) => {
+            const values = duplicateRow(table, row);
+            return buildInsert(
+              table.name,
+              table.columns
+                .filter((column) => column.name in values)
+                .map((column) => ({
+                  column,
+                  param: paramFromCell(values[column.name], column.type),
+                }))
+            );
+          });
+        } catch (error) {
+          toast.error(error instanceof Error ? error.message : 'Cannot duplicate the rows');
+          return;
+        }
+        executeTransaction.mutateAsync(statements).then(
+          (data) => {
+            toast.success(`Duplicated ${statements.length} rows in ${data.executionTime}ms`);
+            clearSelection();
+          },
+          (error: Error) => toast.error(`Duplicate failed and was rolled back: ${error.message}`)
+        );
+        return;
+      }
+
+      let statement: SqlStatement | null;
+      try {
+        const column = table.columns.find((candidate) => candidate.name === update.column);
+        statement =
+          action === 'delete'
+            ? buildBulkDelete(table.name, keyColumns(table), selection)
+            : buildBulkUpdate(
+                table.name,
+                [{ column, param: paramFromCell(update.value, column?.type) }],
+                keyColumns(table),
+                selection
+              );
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Cannot change the rows');
+        return;
+      }
+      if (!statement) {
+        toast.error('Cannot change rows without a valid identifier');
+        return;
+      }
+      const expected = selectionCount;
+      const verb = action === 'delete' ? 'Deleted' : 'Updated';
+      patchTab({ lastExecuted: statement });
+      executeQuery.mutateAsync(statement).then(
+        (data) => {
+          const affected = data.rowCount ?? 0;
+          if (affected === expected) {
+            toast.success(`${verb} ${affected.toLocaleString()} rows in ${data.executionTime}ms`);
+          } else {
+            toast.warning(
+              `${verb} ${affected.toLocaleString()} of ${expected.toLocaleString()} rows`
+            );
+          }
+          clearSelection();
+        },
+        (error: Error) =>
+          toast.error(`${action === 'delete' ? 'Delete' : 'Update'} failed: ${error.message}`)
+      );
+    },
+    [
+      allMatchingSelected,
+      bulkAction,
+      clearSelection,
+      discardStagedChange,
+      executeQuery,
+      executeTransaction,
+      patchTab,
+      readOnly,
+      selectedList,
+      selectedTableSchema,
+      selection,
+      selectionCount,
+      selectionWriteBlocked,
+      stageDelete,
+      stageInsert,
+      stageUpdate,
+      staged,
+      stagingEnabled,
+    ]
+  );
+
+  // Rows with a staged change are edited against the row as it was loaded
+  const openRecord = useCallback(
+    (trail: RecordTrailEntry[]) => {
+      const { row } = trail[trail.length - 1];
+      const change = staged.changeByRow.get(row) ?? null;
+      setRecordTrail(trail);
+      setEditingChange(change);
+      setOriginalRow(change?.original ?? row);
+      setEditMode(change?.kind === 'insert' ? 'create' : 'edit');
+      setFormValues(
+        Object.fromEntries(Object.entries(row).map(([key, value]) => [key, toCellValue(value)]))
+      );
+      setFormKey((key) => key + 1);
+      setIsEditDrawerOpen(true);
+    },
+    [staged]
+  );
+
+  const handleRowClick = useCallback(
+    (row: Record<string, unknown>) => openRecord([{ table: selectedTable, row }]),
+    [openRecord, selectedTable]
+  );
+
+  // Opens the row a foreign key of the last record points at, keeping the trail to go back
+  const followReference = useCallback(
+    (trail: RecordTrailEntry[], foreignKey: SchemaForeignKey) => {
+      const target = foreignKey.references.table;
+      const statement = buildReferencedRowQuery(
+        foreignKey,
+        trail[trail.length - 1].row,
+        schema?.find((table) => table.name === target)
+      );
+      if (!statement) return;
+      fetchQuery(statement).then(
+        (result) => {
+          const row = result.rows?.[0];
+          if (!row) {
+            toast.error(`No row in ${target} matches ${foreignKey.columns.join(', ')}`);
+            return;
+          }
+          openRecord([...trail, { table: target, row }]);
+        },
+        (error: Error) => toast.error(`Could not open the referenced row: ${error.message}`)
+      );
+    },
+    [fetchQuery, openRecord, schema]
+  );
+
+  const handleFollowReference = useCallback(
+    (row: Record<string, unknown>, column: string) => {
+      const foreignKey = selectedTableSchema && foreignKeyByColumn(selectedTableSchema).get(column);
+      if (foreignKey) followReference([{ table: selectedTable, row }], foreignKey);
+    },
+    [followReference, selectedTable, selectedTableSchema]
+  );
 
   const handleCreateRecord = useCallback(() => {
+    if (readOnly) return;
     if (!selectedTableSchema) {
       toast.error('Select a table first');
       return;
     }
+    setRecordTrail([]);
     setOriginalRow(null);
+    setEditingChange(null);
     setEditMode('create');
+    setFormValues({});
+    setFormKey((key) => key + 1);
     setIsEditDrawerOpen(true);
-  }, [selectedTableSchema]);
+  }, [readOnly, selectedTableSchema]);
 
-  const formatValue = useCallback(
-    (value: string, type?: string) => {
-      if (value === '' || value === undefined) return 'NULL';
-      const normalizedType = type?.toLowerCase() ?? '';
-      if (normalizedType.includes('bool')) {
-        return value.toLowerCase() === 'true' ? 'TRUE' : 'FALSE';
+  // Form values are validated against the schema; undefined leaves a column to its default
+  const handleSaveRecord = useCallback(
+    (values: Record<string, CellValue | undefined>) => {
+      if (readOnly) {
+        toast.error('Read-only connection: records cannot be modified');
+        return;
       }
-      if (
-        normalizedType.match(
-          /(int|numeric|decimal|real|double|float|bigint|smallint|serial|money)/
-        )
-      ) {
-        return Number.isNaN(Number(value)) ? 'NULL' : value;
+      if (!recordTable) {
+        toast.error('No table selected');
+        return;
       }
-      const escaped = value.replace(/'/g, "''");
-      return `'${escaped}'`;
-    },
-    []
-  );
 
-  const buildWhereClause = useCallback(
-    (row: Record<string, unknown>) => {
-      if (!selectedTableSchema) return '';
-      const keys = primaryKeys.length > 0 ? primaryKeys : selectedTableSchema.columns;
-      const clauses = keys.map((column) => {
-        const rawValue = row[column.name];
-        if (rawValue === null || rawValue === undefined || rawValue === '') {
-          return `${column.name} IS NULL`;
+      if (editMode === 'create') {
+        const entered = Object.fromEntries(
+          Object.entries(values).filter(([, value]) => value !== undefined)
+        ) as Record<string, CellValue>;
+        if (stagingEnabled) {
+          stageInsert(recordTable, entered, editingChange?.id);
+          toast.success('Change staged');
+          setIsEditDrawerOpen(false);
+          return;
         }
-        const formattedValue = formatValue(String(rawValue), column.type);
-        return `${column.name} = ${formattedValue}`;
-      });
-      return clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
-    },
-    [formatValue, primaryKeys, selectedTableSchema]
-  );
+        const insertStatement = buildInsert(
+          recordTable.name,
+          recordTable.columns
+            .filter((column) => column.name in entered)
+            .map((column) => ({ column, param: paramFromCell(entered[column.name], column.type) }))
+        );
+        patchTab({ lastExecuted: insertStatement });
+        executeQuery.mutate(insertStatement, {
+          onSuccess: (data) => {
+            toast.success(`Record inserted in ${data.executionTime}ms`);
+            setIsEditDrawerOpen(false);
+          },
+          onError: (error) => toast.error(`Insert failed: ${error.message}`),
+        });
+        return;
+      }
 
-  const handleSaveRecord = useCallback(() => {
-    if (!selectedTableSchema) {
-      toast.error('No table selected');
-      return;
-    }
+      if (!originalRow) {
+        toast.error('No row selected to update');
+        return;
+      }
+      const changed = diffRow(originalRow, values as Record<string, CellValue>);
+      if (Object.keys(changed).length === 0 && !editingChange) {
+        toast.info('No changes to save');
+        return;
+      }
+
+      if (stagingEnabled) {
+        stageUpdate(recordTable, originalRow, values as Record<string, CellValue>);
+        toast.success('Change staged');
+        setIsEditDrawerOpen(false);
+        return;
+      }
 
-    if (editMode === 'create') {
-      const columns = selectedTableSchema.columns.filter(
-        (column) => formValues[column.name] !== ''
+      const updateStatement = buildUpdate(
+        recordTable.name,
+        recordTable.columns
+          .filter((column) => column.name in changed)
+          .map((column) => ({ column, param: paramFromCell(changed[column.name], column.type) })),
+        keyColumns(recordTable),
+        originalRow
       );
-      if (columns.length === 0) {
-        toast.error('Enter at least one value to insert');
+
+      if (!updateStatement) {
+        toast.error('Cannot update without a valid identifier');
         return;
       }
-      const columnNames = columns.map((column) => column.name).join(', ');
-      const values = columns
-        .map((column) => formatValue(formValues[column.name], column.type))
-        .join(', ');
-      const insertSql = `INSERT INTO ${selectedTableSchema.name} (${columnNames}) VALUES (${values})`;
-      setLastExecutedQuery(insertSql);
-      executeQuery.mutate(insertSql, {
+
+      patchTab({ lastExecuted: updateStatement });
+      executeQuery.mutate(updateStatement, {
         onSuccess: (data) => {
-          toast.success(`Record inserted in ${data.executionTime}ms`);
+          toast.success(`Record updated in ${data.executionTime}ms`);
           setIsEditDrawerOpen(false);
-          const followUpQuery = lastSelectQuery || autoQuery;
-          if (followUpQuery) {
-            runSelectQuery(followUpQuery, { showToast: false });
-          }
         },
-        onError: (error) => toast.error(`Insert failed: ${error.message}`),
+        onError: (error) => toast.error(`Update failed: ${error.message}`),
       });
-      return;
-    }
+    },
+    [
+      editMode,
+      editingChange,
+      executeQuery,
+      originalRow,
+      patchTab,
+      readOnly,
+      recordTable,
+      stageInsert,
+      stageUpdate,
+      stagingEnabled,
+    ]
+  );
 
-    if (!originalRow) {
-      toast.error('No row selected to update');
+  const handleDeleteRecord = useCallback(() => {
+    if (readOnly) {
+      toast.error('Read-only connection: records cannot be deleted');
       return;
     }
-
-    const updates = selectedTableSchema.columns
-      .filter((column) => !column.primary_key)
-      .map((column) => `${column.name} = ${formatValue(formValues[column.name], column.type)}`);
-    const whereClause = buildWhereClause(originalRow);
-
-    if (!whereClause) {
-      toast.error('Cannot update without a valid identifier');
+    // Deleting a staged insert, or a row already staged for deletion, just discards the change
+    if (editingChange && editingChange.kind !== 'update') {
+      discardStagedChange(editingChange.id);
+      setIsEditDrawerOpen(false);
       return;
     }
-
-    const updateSql = `UPDATE ${selectedTableSchema.name} SET ${updates.join(', ')} ${whereClause}`;
-    setLastExecutedQuery(updateSql);
-    executeQuery.mutate(updateSql, {
-      onSuccess: (data) => {
-        toast.success(`Record updated in ${data.executionTime}ms`);
-        setIsEditDrawerOpen(false);
-        const followUpQuery = lastSelectQuery || autoQuery;
-        if (followUpQuery) {
-          runSelectQuery(followUpQuery, { showToast: false });
-        }
-      },
-      onError: (error) => toast.error(`Update failed: ${error.message}`),
-    });
-  }, [
-    buildWhereClause,
-    editMode,
-    executeQuery,
-    formatValue,
-    formValues,
-    autoQuery,
-    lastSelectQuery,
-    originalRow,
-    runSelectQuery,
-    selectedTableSchema,
-  ]);
-
-  const handleDeleteRecord = useCallback(() => {
-    if (!selectedTableSchema || !originalRow) {
+    if (!recordTable || !originalRow) {
       toast.error('No record selected');
       return;
     }
+    if (stagingEnabled) {
+      stageDelete(recordTable, originalRow);
+      toast.success('Deletion staged');
+      setIsEditDrawerOpen(false);
+      return;
+    }
     if (!window.confirm('Delete this record? This action cannot be undone.')) {
       return;
     }
-    const whereClause = buildWhereClause(originalRow);
-    if (!whereClause) {
+    const deleteStatement = buildDelete(recordTable.name, keyColumns(recordTable), originalRow);
+    if (!deleteStatement) {
       toast.error('Cannot delete without a valid identifier');
       return;
     }
-    const deleteSql = `DELETE FROM ${selectedTableSchema.name} ${whereClause}`;
-    setLastExecutedQuery(deleteSql);
-    executeQuery.mutate(deleteSql, {
+    patchTab({ lastExecuted: deleteStatement });
+    executeQuery.mutate(deleteStatement, {
       onSuccess: (data) => {
         toast.success(`Record deleted in ${data.executionTime}ms`);
         setIsEditDrawerOpen(false);
-        const followUpQuery = lastSelectQuery || autoQuery;
-        if (followUpQuery) {
-          runSelectQuery(followUpQuery, { showToast: false });
-        }
       },
       onError: (error) => toast.error(`Delete failed: ${error.message}`),
     });
   }, [
-    autoQuery,
-    buildWhereClause,
+    discardStagedChange,
+    editingChange,
     executeQuery,
-    lastSelectQuery,
     originalRow,
-    runSelectQuery,
-    selectedTableSchema,
+    patchTab,
+    readOnly,
+    recordTable,
+    stageDelete,
+    stagingEnabled,
   ]);
 
-  const handleRefresh = useCallback(() => {
-    const query = lastExecutedQuery || autoQuery;
-    if (!query) {
-      toast.error('No query to refresh');
+  const handleCellEdit = useCallback(
+    (row: Record<string, unknown>, column: string, value: CellValue) => {
+      if (!selectedTableSchema || readOnly) return;
+      const change = staged.changeByRow.get(row);
+      if (change?.kind === 'insert') {
+        stageInsert(selectedTableSchema, { ...change.values, [column]: value }, change.id);
+        return;
+      }
+      if (stagingEnabled) {
+        stageUpdate(selectedTableSchema, change?.original ?? row, { [column]: value });
+        return;
+      }
+      const schemaColumn = selectedTableSchema.columns.find((col) => col.name === column);
+      const updateStatement = buildUpdate(
+        selectedTableSchema.name,
+        [{ column: schemaColumn, param: paramFromCell(value, schemaColumn?.type) }],
+        keyColumns(selectedTableSchema),
+        row
+      );
+      if (!updateStatement) {
+        toast.error('Cannot update without a valid identifier');
+        return;
+      }
+      patchTab({ lastExecuted: updateStatement });
+      executeQuery.mutate(updateStatement, {
+        onSuccess: (data) => toast.success(`${column} updated in ${data.executionTime}ms`),
+        onError: (error) => toast.error(`Update failed: ${error.message}`),
+      });
+    },
+    [
+      executeQuery,
+      patchTab,
+      readOnly,
+      selectedTableSchema,
+      stageInsert,
+      stageUpdate,
+      staged,
+      stagingEnabled,
+    ]
+  );
+
+  const handleCommitChanges = useCallback(() => {
+    if (readOnly) {
+      toast.error('Read-only connection: staged changes cannot be committed');
       return;
     }
-    if (isSelectQuery(query)) {
-      runSelectQuery(query);
+    let statements: SqlStatement[];
+    try {
+      statements = buildChangesetStatements(stagedChanges, schema ?? []);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Cannot commit staged changes');
       return;
     }
-    setLastExecutedQuery(query);
-    executeQuery.mutate(query, {
+    executeTransaction.mutate(statements, {
       onSuccess: (data) => {
-        toast.success(`Query executed in ${data.executionTime}ms`);
-      },
-      onError: (error) => {
-        toast.error(`Query failed: ${error.message}`);
+        clearStagedChanges();
+        setIsChangesOpen(false);
+        toast.success(`Committed ${statements.length} changes in ${data.executionTime}ms`);
       },
+      onError: (error) => toast.error(`Commit failed and was rolled back: ${error.message}`),
     });
-  }, [autoQuery, executeQuery, isSelectQuery, lastExecutedQuery, runSelectQuery]);
+  }, [clearStagedChanges, executeTransaction, readOnly, schema, stagedChanges]);
+
+  // Writes are never replayed; refreshing after one reloads the table being browsed instead
+  const handleRefresh = useCallback(() => {
+    const lastSql = typeof lastExecutedQuery === 'string' ? lastExecutedQuery : lastExecutedQuery.sql;
+    const query = lastSql && isSelectQuery(lastSql) ? lastExecutedQuery : autoQuery;
+    if (!query) {
+      toast.error('No query to refresh');
+      return;
+    }
+    runSelectQuery(query);
+  }, [autoQuery, isSelectQuery, lastExecutedQuery, runSelectQuery]);
 
   return (
     <div className="flex flex-col gap-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold tracking-tight">Data Console</h1>
+          <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight">
+            Data Console
+            {readOnly && (
+              <Badge variant="secondary" className="gap-1">
+                <ShieldCheck className="h-3 w-3" />
+                Read-only
+              </Badge>
+            )}
+          </h1>
           <p className="text-muted-foreground">
             Browse, query, and manage your Genesis memory data
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setIsLibraryOpen(true)}>
+            <BookMarked className="mr-2 h-4 w-4" />
+            Saved Queries
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setIsHistoryOpen(true)}>
+            <History className="mr-2 h-4 w-4" />
+            History
+          </Button>
           <Button variant="outline" size="sm" onClick={handleRefresh}>
             <RefreshCw className="mr-2 h-4 w-4" />
             Refresh
           </Button>
-          <Button variant="outline" size="sm" onClick={handleExportCSV}>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              if (!queryResult?.columns?.length) {
+                toast.error('No data to export');
+                return;
+              }
+              setExportScope('page');
+              setIsExportOpen(true);
+            }}
+          >
             <Download className="mr-2 h-4 w-4" />
-            Export CSV
+            Export
           </Button>
         </div>
       </div>
 
+      <QueryTabBar
+        tabs={tabs}
+        activeTabId={activeTab.id}
+        runningTabIds={runningTabIds}
+        onSelect={setActiveTab}
+        onClose={handleCloseTab}
+        onAdd={() => addTab()}
+      />
+
       {/* Table Selector & SQL Editor */}
       <div className="grid gap-4 md:grid-cols-3">
         <Card className="md:col-span-1">
-          <CardHeader className="pb-3">
-            <CardTitle className="text-base">Tables</CardTitle>
-            <CardDescription>Select a table to browse</CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-3">
+            <div className="space-y-1.5">
+              <CardTitle className="text-base">Tables</CardTitle>
+              <CardDescription>Select a table to browse</CardDescription>
+            </div>
+            {!readOnly && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setDesignTable(null);
+                  setIsDesignerOpen(true);
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                New table
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
-            {schemaLoading ? (
-              <div className="space-y-2">
-                <Skeleton className="h-10 w-full" />
-                <Skeleton className="h-10 w-full" />
-                <Skeleton className="h-10 w-full" />
-              </div>
-            ) : (
-              <div className="space-y-1">
-                {schema?.map((table) => (
+            <TablesSidebar
+              tables={schema}
+              isLoading={schemaLoading}
+              selectedTable={selectedTable}
+              favorites={favoriteTables}
+              recents={recentTables}
+              onSelect={(name) => handleOpenTable(name)}
+              onToggleFavorite={toggleFavoriteTable}
+              onSelectTop={(name) => handleOpenTable(name, tableBrowseQuery(name, TOP_ROWS))}
+              onCountRows={handleCountRows}
+              onShowDdl={setDdlTable}
+              onProfile={handleProfileTable}
+              onDesign={
+                readOnly
+                  ? undefined
+                  : (table) => {
+                      setDesignTable(table);
+                      setIsDesignerOpen(true);
+                    }
+              }
+            />
+            {pinnedQueries.length > 0 && (
+              <div className="mt-4 space-y-1 border-t pt-3">
+                <p className="px-3 text-xs font-medium uppercase text-muted-foreground">
+                  Pinned queries
+                </p>
+                {pinnedQueries.map((query) => (
                   <button
-                    key={table.name}
-                    onClick={() => {
-                      setSelectedTable(table.name);
-                      setSqlQuery('');
-                      setCurrentPage(1);
-                    }}
-                    className={cn(
-                      'flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-accent',
-                      selectedTable === table.name && 'bg-accent font-medium'
-                    )}
+                    key={query.id}
+                    onClick={() => handleRunSavedQuery(query)}
+                    title={query.sql}
+                    className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-accent"
                   >
-                    <Database className="h-4 w-4 text-muted-foreground" />
-                    {table.name}
-                    <Badge variant="secondary" className="ml-auto text-xs">
-                      {table.columns.length} cols
-                    </Badge>
+                    <Pin className="h-4 w-4 text-muted-foreground" />
+                    <span className="truncate">{query.name}</span>
                   </button>
-                )) ?? (
-                  <p className="text-sm text-muted-foreground">
-                    No tables found. Connect to your backend to see tables.
-                  </p>
-                )}
+                ))}
               </div>
             )}
           </CardContent>
@@ -436,27 +1429,88 @@ export default function DataConsole() {
             <CardDescription>Write custom queries or use auto-generated ones</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
-            <Textarea
+            <SqlEditor
+              docId={activeTab.id}
               placeholder={autoQuery || 'SELECT * FROM table_name WHERE ...'}
               value={sqlQuery}
-              onChange={(e) => setSqlQuery(e.target.value)}
-              className="min-h-[100px] font-mono text-sm"
+              onChange={(value) => patchTab({ sql: value })}
+              onRun={handleRunQuery}
+              onSelectionChange={setEditorSelection}
+              schema={schema}
             />
             <div className="flex items-center justify-between">
-              <div className="text-xs text-muted-foreground">
-                {executeQuery.data?.executionTime && (
-                  <span>Last query: {executeQuery.data.executionTime}ms</span>
+              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                <span>
+                  <kbd className="rounded border px-1 font-mono">Ctrl</kbd>+
+                  <kbd className="rounded border px-1 font-mono">Enter</kbd> to run
+                </span>
+                {queryResult?.executionTime !== undefined && (
+                  <span>Last query: {queryResult.executionTime}ms</span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {scriptLength > 1 && (
+                  <div className="flex items-center gap-2 pr-2">
+                    <Switch
+                      id="continue-on-error"
+                      checked={continueScriptOnError}
+                      onCheckedChange={setContinueScriptOnError}
+                    />
+                    <Label htmlFor="continue-on-error" className="text-sm">
+                      Continue on error
+                    </Label>
+                  </div>
+                )}
+                <Button variant="outline" onClick={() => setIsBuilderOpen(true)}>
+                  <Blocks className="mr-2 h-4 w-4" />
+                  Build
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    setQueryToSave({
+                      name: activeTab.title,
+                      folder: '',
+                      description: '',
+                      sql: sqlQuery || autoQuery,
+                      chart: resultView === 'chart' ? chart : null,
+                    })
+                  }
+                  disabled={!(sqlQuery || autoQuery)}
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  Save
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleExplain}
+                  disabled={!(editorSelection || sqlQuery || autoQuery)}
+                >
+                  <ListTree className="mr-2 h-4 w-4" />
+                  Explain
+                </Button>
+                {tabQueries.length > 0 ? (
+                  <RunningQueryStatus queries={tabQueries} onCancel={() => stopTab(activeTab.id)} />
+                ) : (
+                  <Button onClick={() => handleRunQuery()}>
+                    <Play className="mr-2 h-4 w-4" />
+                    {editorSelection ? 'Run Selection' : 'Run Query'}
+                  </Button>
                 )}
               </div>
-              <Button onClick={handleRunQuery} disabled={executeQuery.isPending}>
-                <Play className="mr-2 h-4 w-4" />
-                {executeQuery.isPending ? 'Running...' : 'Run Query'}
-              </Button>
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {scriptRuns[activeTab.id] && (
+        <ScriptResults
+          run={scriptRuns[activeTab.id]}
+          relativeTimestamps={relativeTimestamps}
+          onClose={() => clearScriptRun(activeTab.id)}
+        />
+      )}
+
       {/* Data Table */}
       <Card>
         <CardHeader className="pb-3">
@@ -466,23 +1520,64 @@ export default function DataConsole() {
                 {selectedTable || 'Results'}
               </CardTitle>
               <CardDescription>
-                {filteredRows.length} rows
-                {debouncedSearch && ` (filtered from ${queryResult?.rows?.length ?? 0})`}
+                {queryResult?.rows?.length
+                  ? `Rows ${firstRowNumber}–${firstRowNumber + queryResult.rows.length - 1}`
+                  : '0 rows'}
+                {totalRows !== null && ` of ${totalRows.toLocaleString()}`}
+                {isFilteringPage && ` (${filteredRows.length} matching on this page)`}
               </CardDescription>
             </div>
             <div className="flex items-center gap-2">
-              <Button size="sm" onClick={handleCreateRecord}>
-                New Record
+              {!readOnly && (
+                <div className="flex items-center gap-2 pr-2">
+                  <Switch
+                    id="stage-changes"
+                    checked={stagingEnabled}
+                    onCheckedChange={setStagingEnabled}
+                    disabled={stagingEnabled && stagedChanges.length > 0}
+                  />
+                  <Label htmlFor="stage-changes" className="text-sm">
+                    Stage changes
+                  </Label>
+                </div>
+              )}
+              {stagedChanges.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => setIsChangesOpen(true)}>
+                  <GitCommitHorizontal className="mr-2 h-4 w-4" />
+                  {stagedChanges.length} staged
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleProfileResult}
+                disabled={!sourceQuery || !queryResult?.columns}
+              >
+                <Activity className="mr-2 h-4 w-4" />
+                Profile
               </Button>
+              {!readOnly && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsImportOpen(true)}
+                  disabled={!selectedTableSchema}
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </Button>
+              )}
+              {!readOnly && (
+                <Button size="sm" onClick={handleCreateRecord}>
+                  New Record
+                </Button>
+              )}
               <div className="relative w-72">
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                 <Input
                   placeholder="Filter results..."
                   value={searchQuery}
-                  onChange={(e) => {
-                    setSearchQuery(e.target.value);
-                    setCurrentPage(1);
-                  }}
+                  onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10"
                 />
               </div>
@@ -490,7 +1585,7 @@ export default function DataConsole() {
           </div>
         </CardHeader>
         <CardContent>
-          {executeQuery.isPending ? (
+          {pageQuery.isLoading ? (
             <div className="space-y-2">
               {Array.from({ length: 5 }).map((_, i) => (
                 <Skeleton key={i} className="h-12 w-full" />
@@ -498,82 +1593,139 @@ export default function DataConsole() {
             </div>
           ) : queryResult?.columns ? (
             <>
-              <div className="rounded-md border">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      {queryResult.columns.map((col) => (
-                        <TableHead key={col} className="whitespace-nowrap">
-                          {col}
-                        </TableHead>
-                      ))}
-                      <TableHead className="w-12" />
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {paginatedRows.length > 0 ? (
-                      paginatedRows.map((row, idx) => (
-                        <TableRow
-                          key={idx}
-                          className="cursor-pointer hover:bg-muted/50"
-                          onClick={() => handleRowClick(row)}
-                        >
-                          {queryResult.columns.map((col) => (
-                            <TableCell key={col} className="max-w-[200px] truncate">
-                              {String(row[col] ?? '')}
-                            </TableCell>
-                          ))}
-                          <TableCell>
-                            <Edit className="h-4 w-4 text-muted-foreground" />
-                          </TableCell>
-                        </TableRow>
-                      ))
-                    ) : (
-                      <TableRow>
-                        <TableCell
-                          colSpan={queryResult.columns.length + 1}
-                          className="h-24 text-center"
-                        >
-                          {debouncedSearch
-                            ? 'No matching results'
-                            : 'No data available'}
-                        </TableCell>
-                      </TableRow>
-                    )}
-                  </TableBody>
-                </Table>
+              <div className="mb-3 flex items-start gap-3">
+                <div className="min-w-0 flex-1">
+                  <ResultFilterBar
+                    columns={queryResult.columns}
+                    columnTypes={resultColumnTypes}
+                    filters={filters}
+                    mode={filterMode}
+                    canPushDown={Boolean(browseQuery)}
+                    onChange={(next) => patchTab({ filters: next, page: 1 })}
+                    onModeChange={(mode) => patchTab({ filterMode: mode, page: 1 })}
+                  />
+                </div>
+                <Tabs
+                  value={resultView}
+                  onValueChange={(view) => patchTab({ resultView: view as 'table' | 'chart' })}
+                >
+                  <TabsList className="h-8">
+                    <TabsTrigger value="table" className="h-6 gap-1.5 px-2 text-xs">
+                      <Table2 className="h-3.5 w-3.5" />
+                      Table
+                    </TabsTrigger>
+                    <TabsTrigger value="chart" className="h-6 gap-1.5 px-2 text-xs">
+                      <BarChart3 className="h-3.5 w-3.5" />
+                      Chart
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
               </div>
+              {resultView === 'table' && selectionCount > 0 && (
+                <SelectionBar
+                  count={selectionCount}
+                  allMatching={allMatchingSelected}
+                  matchingCount={matchingCount}
+                  onSelectAllMatching={() => setAllMatchingSelected(true)}
+                  onClear={clearSelection}
+                  onCopy={handleCopySelection}
+                  canCopyAsSql={Boolean(selectedTable)}
+                  onExport={() => {
+                    setExportScope(allMatchingSelected ? 'full' : 'selected');
+                    setIsExportOpen(true);
+                  }}
+                  writeBlockedReason={selectionWriteBlocked}
+                  showWriteActions={!readOnly}
+                  canDuplicate={!allMatchingSelected}
+                  onAction={setBulkAction}
+                />
+              )}
+              {resultView === 'chart' ? (
+                <>
+                  <ResultChart
+                    columns={queryResult.columns}
+                    rows={filteredRows}
+                    columnTypes={resultColumnTypes}
+                    spec={chart}
+                    onSpecChange={(next) => patchTab({ chart: next })}
+                  />
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Plotting the {filteredRows.length.toLocaleString()} rows on this page. Raise the
+                    page size to include more.
+                  </p>
+                </>
+              ) : (
+                <ResultGrid
+                  columns={queryResult.columns}
+                  rows={filteredRows}
+                  pinnedColumns={pinnedColumns}
+                  sort={sort}
+                  onSort={handleSort}
+                  onRowClick={handleRowClick}
+                  cellClassName={stagedCellClassName}
+                  columnTypes={resultColumnTypes}
+                  relativeTimestamps={relativeTimestamps}
+                  isCellEditable={isCellEditable}
+                  onCellEdit={readOnly || !selectedTableSchema ? undefined : handleCellEdit}
+                  selectedRows={selectedRows}
+                  onSelectionChange={handleSelectionChange}
+                  references={tableReferences}
+                  onFollowReference={handleFollowReference}
+                  emptyMessage={
+                    isFilteringPage || (filterMode === 'server' && filters.length > 0)
+                      ? 'No matching results'
+                      : 'No data available'
+                  }
+                />
+              )}
 
               {/* Pagination */}
-              {totalPages > 1 && (
-                <div className="mt-4 flex items-center justify-between">
-                  <p className="text-sm text-muted-foreground">
-                    Page {currentPage} of {totalPages}
+              <div className="mt-4 flex items-center justify-between">
+                <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                  <p>
+                    Page {currentPage}
+                    {totalRows !== null && ` of ${totalPages.toLocaleString()}`}
                   </p>
+                  <Select
+                    value={String(pageSize)}
+                    onValueChange={(value) => {
+                      patchTab({ pageSize: Number(value), page: 1 });
+                    }}
+                  >
+                    <SelectTrigger className="h-8 w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAGE_SIZE_OPTIONS.map((size) => (
+                        <SelectItem key={size} value={String(size)}>
+                          {size.toLocaleString()} rows/page
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {totalPages > 1 && (
                   <Pagination>
                     <PaginationContent>
                       <PaginationItem>
                         <PaginationPrevious
-                          onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                          onClick={() => patchTab({ page: Math.max(1, currentPage - 1) })}
                           className={cn(currentPage === 1 && 'pointer-events-none opacity-50')}
                         />
                       </PaginationItem>
-                      {Array.from({ length: Math.min(5, totalPages) }).map((_, i) => {
-                        const page = i + 1;
-                        return (
-                          <PaginationItem key={page}>
-                            <PaginationLink
-                              onClick={() => setCurrentPage(page)}
-                              isActive={currentPage === page}
-                            >
-                              {page}
-                            </PaginationLink>
-                          </PaginationItem>
-                        );
-                      })}
+                      {pageLinks.map((page) => (
+                        <PaginationItem key={page}>
+                          <PaginationLink
+                            onClick={() => patchTab({ page })}
+                            isActive={currentPage === page}
+                          >
+                            {page}
+                          </PaginationLink>
+                        </PaginationItem>
+                      ))}
                       <PaginationItem>
                         <PaginationNext
-                          onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                          onClick={() => patchTab({ page: Math.min(totalPages, currentPage + 1) })}
                           className={cn(
                             currentPage === totalPages && 'pointer-events-none opacity-50'
                           )}
@@ -581,8 +1733,8 @@ export default function DataConsole() {
                       </PaginationItem>
                     </PaginationContent>
                   </Pagination>
-                </div>
-              )}
+                )}
+              </div>
             </>
           ) : (
             <div className="flex h-48 flex-col items-center justify-center text-center">
@@ -595,59 +1747,250 @@ export default function DataConsole() {
         </CardContent>
       </Card>
 
+      <QueryHistoryPanel
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        history={history}
+        onRun={handleRunFromHistory}
+        onClear={clearHistory}
+      />
+
+      <SavedQueriesPanel
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        queries={savedQueries}
+        onRun={handleRunSavedQuery}
+        onOpenInTab={(query) => {
+          addTab({
+            title: query.name,
+            sql: query.sql,
+            chart: query.chart ?? null,
+            resultView: query.chart ? 'chart' : 'table',
+          });
+          setIsLibraryOpen(false);
+        }}
+        onEdit={setQueryToSave}
+        onDelete={deleteSavedQuery}
+        onTogglePin={toggleSavedQueryPin}
+        onImport={importSavedQueries}
+      />
+
+      <SaveQueryDialog
+        query={queryToSave}
+        folders={savedQueryFolders}
+        onOpenChange={(open) => !open && setQueryToSave(null)}
+        onSave={handleSaveQuery}
+      />
+
+      <QueryParamsDialog
+        names={paramPrompt?.names ?? null}
+        onOpenChange={(open) => !open && setParamPrompt(null)}
+        onSubmit={(values) => {
+          if (!paramPrompt) return;
+          setParamPrompt(null);
+          executeSql(paramPrompt.sql, values, paramPrompt.confirmed);
+        }}
+      />
+
+      <StagedChangesPanel
+        open={isChangesOpen}
+        onOpenChange={setIsChangesOpen}
+        changes={stagedChanges}
+        isCommitting={executeTransaction.isPending}
+        onDiscard={discardStagedChange}
+        onDiscardAll={() => {
+          clearStagedChanges();
+          setIsChangesOpen(false);
+        }}
+        onCommit={handleCommitChanges}
+      />
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        columns={queryResult?.columns ?? []}
+        pageRows={filteredRows}
+        totalRows={totalRows}
+        table={selectedTable || null}
+        columnTypes={columnTypes}
+        fetchFullResult={fetchFullResult}
+        selectedRows={selectedList}
+        defaultScope={exportScope}
+      />
+
+      <BulkActionDialog
+        action={bulkAction}
+        count={selectionCount}
+        table={selectedTableSchema}
+        staged={stagingEnabled}
+        onOpenChange={(open) => !open && setBulkAction(null)}
+        onConfirm={handleBulkAction}
+      />
+
+      <DdlDialog
+        table={ddlTable}
+        onOpenChange={(open) => !open && setDdlTable(null)}
+        onOpenInEditor={(sql) => {
+          patchTab({ sql });
+          setDdlTable(null);
+        }}
+      />
+
+      <TableDesigner
+        open={isDesignerOpen && !readOnly}
+        table={designTable}
+        schema={schema}
+        onOpenChange={setIsDesignerOpen}
+        onOpenInEditor={(sql) => {
+          patchTab({ sql });
+          setIsDesignerOpen(false);
+        }}
+      />
+
+      <ExplainPanel
+        sql={explainTarget?.sql ?? null}
+        canAnalyze={explainTarget?.canAnalyze ?? false}
+        onOpenChange={(open) => !open && setExplainTarget(null)}
+      />
+
+      <ProfilePanel
+        target={profileTarget}
+        onOpenChange={(open) => !open && setProfileTarget(null)}
+      />
+
+      <QueryBuilderPanel
+        open={isBuilderOpen}
+        onOpenChange={setIsBuilderOpen}
+        schema={schema}
+        initialTable={selectedTable}
+        onApply={(sql, run) => {
+          patchTab({ sql });
+          setIsBuilderOpen(false);
+          if (run) executeSql(sql);
+        }}
+      />
+
+      <ImportWizard
+        open={isImportOpen && !readOnly}
+        onOpenChange={setIsImportOpen}
+        table={selectedTableSchema}
+      />
+
+      <DestructiveQueryDialog
+        sql={pendingConfirmation?.sql ?? null}
+        classification={pendingConfirmation?.classification ?? null}
+        onOpenChange={(open) => !open && setPendingConfirmation(null)}
+        onConfirm={() => {
+          if (!pendingConfirmation) return;
+          setPendingConfirmation(null);
+          executeSql(pendingConfirmation.sql, pendingConfirmation.namedValues, true);
+        }}
+      />
+
       {/* Edit Drawer */}
       <Sheet open={isEditDrawerOpen} onOpenChange={setIsEditDrawerOpen}>
-        <SheetContent className="w-[400px] sm:w-[540px]">
+        <SheetContent className="w-[400px] overflow-y-auto sm:w-[540px]">
           <SheetHeader>
-            <SheetTitle>Edit Record</SheetTitle>
+            <SheetTitle>{readOnly ? 'View Record' : 'Edit Record'}</SheetTitle>
             <SheetDescription>
-              View and modify the selected record
+              {readOnly
+                ? 'The connection is read-only; records cannot be changed'
+                : 'View and modify the selected record'}
             </SheetDescription>
           </SheetHeader>
-          <div className="mt-6 space-y-4">
-            {selectedTableSchema ? (
-              selectedTableSchema.columns.map((column) => {
-                const isPrimaryKey = column.primary_key;
-                const value = formValues[column.name] ?? '';
-                return (
-                  <div key={column.name} className="space-y-1">
-                    <label className="text-sm font-medium">
-                      {column.name}
-                      {isPrimaryKey && (
-                        <span className="ml-2 text-xs text-muted-foreground">(primary key)</span>
-                      )}
-                    </label>
-                    <Input
-                      value={value}
-                      onChange={(event) =>
-                        setFormValues((prev) => ({
-                          ...prev,
-                          [column.name]: event.target.value,
-                        }))
-                      }
-                      className="font-mono text-sm"
-                      disabled={editMode === 'edit' && isPrimaryKey}
-                      placeholder={column.type}
-                    />
-                  </div>
-                );
-              })
+          {recordTrail.length > 1 && (
+            <Breadcrumb className="mt-4">
+              <BreadcrumbList>
+                {recordTrail.map((entry, index) => {
+                  const table = schema?.find((candidate) => candidate.name === entry.table);
+                  const label = table
+                    ? `${entry.table} (${rowLabel(table, entry.row)})`
+                    : entry.table;
+                  return (
+                    <Fragment key={index}>
+                      {index > 0 && <BreadcrumbSeparator />}
+                      <BreadcrumbItem className="min-w-0">
+                        {index === recordTrail.length - 1 ? (
+                          <BreadcrumbPage className="truncate">{label}</BreadcrumbPage>
+                        ) : (
+                          <BreadcrumbLink asChild>
+                            <button
+                              type="button"
+                              className="truncate"
+                              onClick={() => openRecord(recordTrail.slice(0, index + 1))}
+                            >
+                              {label}
+                            </button>
+                          </BreadcrumbLink>
+                        )}
+                      </BreadcrumbItem>
+                    </Fragment>
+                  );
+                })}
+              </BreadcrumbList>
+            </Breadcrumb>
+          )}
+          <div className="mt-6">
+            {recordTable ? (
+              <RecordForm
+                key={formKey}
+                columns={recordTable.columns}
+                mode={editMode}
+                values={formValues}
+                original={editMode === 'edit' ? originalRow : null}
+                readOnly={
+                  readOnly ||
+                  editingChange?.kind === 'delete' ||
+                  // A row of a custom query is shown, not matched back to the selected table
+                  (editMode === 'edit' && recordTrail.length === 1 && !isBrowsingTable)
+                }
+                submitLabel={
+                  stagingEnabled
+                    ? editMode === 'create'
+                      ? 'Stage Record'
+                      : 'Stage Changes'
+                    : editMode === 'create'
+                      ? 'Create Record'
+                      : 'Save Changes'
+                }
+                onSubmit={handleSaveRecord}
+                actions={
+                  <>
+                    {(editMode === 'edit' || editingChange) && !readOnly && (
+                      <Button
+                        type="button"
+                        variant={editingChange?.kind === 'delete' ? 'outline' : 'destructive'}
+                        onClick={handleDeleteRecord}
+                      >
+                        {editingChange?.kind === 'delete'
+                          ? 'Undo Delete'
+                          : editingChange?.kind === 'insert'
+                            ? 'Discard'
+                            : 'Delete'}
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setIsEditDrawerOpen(false)}
+                    >
+                      {readOnly ? 'Close' : 'Cancel'}
+                    </Button>
+                  </>
+                }
+              />
             ) : (
               <p className="text-sm text-muted-foreground">Select a table to edit records.</p>
             )}
-            <div className="flex flex-wrap gap-2 pt-4">
-              <Button className="flex-1" onClick={handleSaveRecord}>
-                {editMode === 'create' ? 'Create Record' : 'Save Changes'}
-              </Button>
-              {editMode === 'edit' && (
-                <Button variant="destructive" onClick={handleDeleteRecord}>
-                  Delete
-                </Button>
-              )}
-              <Button variant="outline" onClick={() => setIsEditDrawerOpen(false)}>
-                Cancel
-              </Button>
-            </div>
+            {schema && recordTable && originalRow && editMode === 'edit' && (
+              <RelatedRecords
+                schema={schema}
+                table={recordTable}
+                row={originalRow}
+                onFollow={(foreignKey) => followReference(recordTrail, foreignKey)}
+                onOpen={(table, row) => openRecord([...recordTrail, { table, row }])}
+              />
+            )}
           </div>
         </SheetContent>
       </Sheet>
@@ -0,0 +1,499 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useSchema, type SchemaTable } from '@/hooks/useApi';
+import { useConsoleStore } from '@/stores/consoleStore';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, ArrowRight, KeyRound, Link2, Search, Table2 } from 'lucide-react';
+import { useDebounce } from '@/hooks/useDebounce';
+import {
+  ER_HEADER_HEIGHT,
+  ER_ROW_HEIGHT,
+  ER_TABLE_WIDTH,
+  foreignKeyColumns,
+  formatBytes,
+  incomingReferences,
+  layoutErDiagram,
+  type Relationship,
+} from '@/lib/schema';
+import { tableBrowseQuery } from '@/lib/sql';
+import { cn } from '@/lib/utils';
+
+export default function SchemaExplorer() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [search, setSearch] = useState('');
+  const [view, setView] = useState<'tables' | 'diagram'>('tables');
+  const [keysOnly, setKeysOnly] = useState(false);
+  const debouncedSearch = useDebounce(search, 200);
+  const navigate = useNavigate();
+  const addTab = useConsoleStore((state) => state.addTab);
+  const { data: schema, isLoading } = useSchema();
+
+  const tables = useMemo(
+    () => [...(schema ?? [])].sort((a, b) => a.name.localeCompare(b.name)),
+    [schema]
+  );
+  // Searching matches column names too, to answer "which table has X?"
+  const filteredTables = useMemo(() => {
+    const term = debouncedSearch.trim().toLowerCase();
+    if (!term) return tables;
+    return tables.filter(
+      (table) =>
+        table.name.toLowerCase().includes(term) ||
+        table.columns.some((column) => column.name.toLowerCase().includes(term))
+    );
+  }, [debouncedSearch, tables]);
+
+  const selectedName = searchParams.get('table') ?? tables[0]?.name ?? null;
+  const selected = tables.find((table) => table.name === selectedName) ?? null;
+  const layout = useMemo(() => layoutErDiagram(tables, { keysOnly }), [keysOnly, tables]);
+
+  const selectTable = (name: string) => {
+    setSearchParams({ table: name });
+    setView('tables');
+  };
+
+  const browseTable = (name: string) => {
+    const sql = tableBrowseQuery(name);
+    addTab({ title: name, selectedTable: name, browseQuery: sql, lastExecuted: sql });
+    navigate('/');
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Schema Explorer</h1>
+          <p className="text-muted-foreground">
+            Tables, columns, indexes and relationships of the Genesis memory store
+          </p>
+        </div>
+        <Tabs value={view} onValueChange={(value: 'tables' | 'diagram') => setView(value)}>
+          <TabsList>
+            <TabsTrigger value="tables">Tables</TabsTrigger>
+            <TabsTrigger value="diagram">ER Diagram</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-3">
+          <Skeleton className="h-96" />
+          <Skeleton className="h-96 md:col-span-2" />
+        </div>
+      ) : tables.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            The backend did not report any tables
+          </CardContent>
+        </Card>
+      ) : view === 'diagram' ? (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-base">Relationships</CardTitle>
+                <CardDescription>
+                  {layout.edges.length} foreign keys between {tables.length} tables. Click a table
+                  to see its details.
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="keys-only" checked={keysOnly} onCheckedChange={setKeysOnly} />
+                <Label htmlFor="keys-only" className="text-sm">
+                  Key columns only
+                </Label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[640px] rounded-md border bg-muted/20">
+              <ErDiagram layout={layout} selected={selectedName} onSelect={selectTable} />
+              <ScrollBar orientation="horizontal" />
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3">
+          {/* Table list */}
+          <Card className="md:col-span-1">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Tables</CardTitle>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Search tables and columns..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[560px]">
+                <div className="space-y-1 pr-3">
+                  {filteredTables.map((table) => (
+                    <button
+                      key={table.name}
+                      onClick={() => selectTable(table.name)}
+                      className={cn(
+                        'flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-accent',
+                        selectedName === table.name && 'bg-accent font-medium'
+                      )}
+                    >
+                      <Table2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <span className="flex-1 truncate">{table.name}</span>
+                      <Badge variant="secondary" className="text-xs">
+                        {table.columns.length} cols
+                      </Badge>
+                    </button>
+                  ))}
+                  {filteredTables.length === 0 && (
+                    <p className="py-8 text-center text-sm text-muted-foreground">
+                      No matching tables
+                    </p>
+                  )}
+                </div>
+              </ScrollArea>
+            </CardContent>
+          </Card>
+
+          {/* Table details */}
+          <div className="md:col-span-2">
+            {selected ? (
+              <TableDetails
+                table={selected}
+                schema={tables}
+                onSelect={selectTable}
+                onBrowse={browseTable}
+              />
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  Table {selectedName} was not found
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TableDetails({
+  table,
+  schema,
+  onSelect,
+  onBrowse,
+}: {
+  table: SchemaTable;
+  schema: SchemaTable[];
+  onSelect: (name: string) => void;
+  onBrowse: (name: string) => void;
+}) {
+  const references = foreignKeyColumns(table);
+  const outgoing: Relationship[] = (table.foreign_keys ?? []).map((foreignKey) => ({
+    from: table.name,
+    to: foreignKey.references.table,
+    foreignKey,
+  }));
+  const incoming = incomingReferences(schema, table.name);
+  const size = formatBytes(table.size_bytes);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="font-mono text-lg">{table.name}</CardTitle>
+            {table.comment && <CardDescription>{table.comment}</CardDescription>}
+            <div className="flex flex-wrap gap-2 pt-1">
+              <Badge variant="secondary">{table.columns.length} columns</Badge>
+              {table.row_estimate !== null && table.row_estimate !== undefined && (
+                <Badge variant="secondary">~{table.row_estimate.toLocaleString()} rows</Badge>
+              )}
+              {size && <Badge variant="secondary">{size}</Badge>}
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => onBrowse(table.name)}>
+            Browse data
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Columns */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">Columns</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Nullable</TableHead>
+                <TableHead>Default</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {table.columns.map((column) => (
+                <TableRow key={column.name}>
+                  <TableCell>
+                    <div className="flex items-center gap-1.5 font-mono text-sm">
+                      {column.primary_key && (
+                        <KeyRound className="h-3 w-3 text-amber-500" aria-label="Primary key" />
+                      )}
+                      {references.has(column.name) && (
+                        <Link2 className="h-3 w-3 text-blue-500" aria-label="Foreign key" />
+                      )}
+                      {column.name}
+                    </div>
+                    {column.comment && (
+                      <p className="text-xs text-muted-foreground">{column.comment}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{column.type}</TableCell>
+                  <TableCell className="text-xs">{column.nullable ? 'yes' : 'no'}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">
+                    {column.default === undefined ? '' : (column.default ?? '—')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+
+        {/* Indexes */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">Indexes</h3>
+          {table.indexes === undefined ? (
+            <NotReported what="indexes" />
+          ) : table.indexes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No indexes</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Columns</TableHead>
+                  <TableHead>Kind</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.indexes.map((index) => (
+                  <TableRow key={index.name}>
+                    <TableCell className="font-mono text-xs" title={index.definition}>
+                      {index.name}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{index.columns.join(', ')}</TableCell>
+                    <TableCell className="space-x-1">
+                      {index.primary && <Badge variant="outline">primary</Badge>}
+                      {index.unique && !index.primary && <Badge variant="outline">unique</Badge>}
+                      {index.method && <Badge variant="secondary">{index.method}</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </section>
+
+        {/* Relationships */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">Relationships</h3>
+          {table.foreign_keys === undefined ? (
+            <NotReported what="foreign keys" />
+          ) : outgoing.length === 0 && incoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No foreign keys to or from this table</p>
+          ) : (
+            <div className="space-y-1">
+              {outgoing.map((relationship) => (
+                <RelationshipRow
+                  key={`out-${relationship.foreignKey.name}`}
+                  relationship={relationship}
+                  direction="out"
+                  onSelect={onSelect}
+                />
+              ))}
+              {incoming.map((relationship) => (
+                <RelationshipRow
+                  key={`in-${relationship.from}-${relationship.foreignKey.name}`}
+                  relationship={relationship}
+                  direction="in"
+                  onSelect={onSelect}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+      </CardContent>
+    </Card>
+  );
+}
+
+function NotReported({ what }: { what: string }) {
+  return (
+    <p className="text-sm text-muted-foreground">
+      The backend does not report {what} for this table.
+    </p>
+  );
+}
+
+function RelationshipRow({
+  relationship,
+  direction,
+  onSelect,
+}: {
+  relationship: Relationship;
+  direction: 'in' | 'out';
+  onSelect: (name: string) => void;
+}) {
+  const { foreignKey } = relationship;
+  const other = direction === 'out' ? relationship.to : relationship.from;
+  const Icon = direction === 'out' ? ArrowRight : ArrowLeft;
+  const actions = [
+    foreignKey.on_delete && `on delete ${foreignKey.on_delete.toLowerCase()}`,
+    foreignKey.on_update && `on update ${foreignKey.on_update.toLowerCase()}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border px-3 py-2 text-sm">
+      <Icon className="h-4 w-4 text-muted-foreground" />
+      <span className="font-mono text-xs">
+        {direction === 'out' ? foreignKey.columns.join(', ') : foreignKey.references.columns.join(', ')}
+      </span>
+      <span className="text-muted-foreground">{direction === 'out' ? 'references' : 'referenced by'}</span>
+      <button
+        onClick={() => onSelect(other)}
+        className="font-mono text-xs font-medium text-primary underline-offset-4 hover:underline"
+      >
+        {other}(
+        {direction === 'out' ? foreignKey.references.columns.join(', ') : foreignKey.columns.join(', ')}
+        )
+      </button>
+      {actions.length > 0 && (
+        <span className="text-xs text-muted-foreground">{actions.join(', ')}</span>
+      )}
+    </div>
+  );
+}
+
+function ErDiagram({
+  layout,
+  selected,
+  onSelect,
+}: {
+  layout: ReturnType<typeof layoutErDiagram>;
+  selected: string | null;
+  onSelect: (name: string) => void;
+}) {
+  return (
+    <svg width={layout.width} height={layout.height} className="text-foreground">
+      <defs>
+        <marker
+          id="er-arrow"
+          viewBox="0 0 10 10"
+          refX="9"
+          refY="5"
+          markerWidth="6"
+          markerHeight="6"
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+        </marker>
+      </defs>
+
+      {layout.edges.map((edge) => (
+        <path
+          key={edge.id}
+          d={edge.path}
+          fill="none"
+          markerEnd="url(#er-arrow)"
+          className={cn(
+            'stroke-muted-foreground/60',
+            (edge.from === selected || edge.to === selected) && 'stroke-primary'
+          )}
+          strokeWidth={edge.from === selected || edge.to === selected ? 2 : 1}
+        />
+      ))}
+
+      {layout.nodes.map((node) => {
+        const references = foreignKeyColumns(node.table);
+        return (
+          <g
+            key={node.table.name}
+            transform={`translate(${node.x}, ${node.y})`}
+            onClick={() => onSelect(node.table.name)}
+            className="cursor-pointer"
+          >
+            <rect
+              width={ER_TABLE_WIDTH}
+              height={node.height}
+              rx={6}
+              className={cn(
+                'fill-card stroke-border',
+                node.table.name === selected && 'stroke-primary'
+              )}
+              strokeWidth={node.table.name === selected ? 2 : 1}
+            />
+            <rect width={ER_TABLE_WIDTH} height={ER_HEADER_HEIGHT} rx={6} className="fill-muted" />
+            <text x={10} y={ER_HEADER_HEIGHT / 2 + 4} className="fill-current text-xs font-semibold">
+              {node.table.name}
+            </text>
+            {node.columns.map((column, index) => {
+              const y = ER_HEADER_HEIGHT + index * ER_ROW_HEIGHT + ER_ROW_HEIGHT / 2 + 4;
+              return (
+                <g key={column.name}>
+                  <text
+                    x={10}
+                    y={y}
+                    className={cn(
+                      'fill-current font-mono text-[11px]',
+                      column.primary_key && 'font-semibold',
+                      references.has(column.name) && 'fill-blue-500'
+                    )}
+                  >
+                    {column.primary_key ? '# ' : ''}
+                    {column.name}
+                  </text>
+                  <text
+                    x={ER_TABLE_WIDTH - 10}
+                    y={y}
+                    textAnchor="end"
+                    className="fill-muted-foreground font-mono text-[10px]"
+                  >
+                    {column.type.length > 14 ? `${column.type.slice(0, 13)}…` : column.type}
+                  </text>
+                </g>
+              );
+            })}
+            {node.columns.length === 0 && (
+              <text
+                x={10}
+                y={ER_HEADER_HEIGHT + ER_ROW_HEIGHT / 2 + 4}
+                className="fill-muted-foreground text-[11px] italic"
+              >
+                {node.table.columns.length} columns
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
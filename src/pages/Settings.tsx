@@ -20,6 +20,7 @@ import {
   Moon,
   Sun,
   Monitor,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -220,6 +221,58 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Query Safety */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Query Safety
+          </CardTitle>
+          <CardDescription>
+            Guard the connection against accidental writes and runaway queries
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label htmlFor="read-only">Read-only connection</Label>
+              <p className="text-sm text-muted-foreground">
+                Refuse INSERT, UPDATE, DELETE and DDL statements and hide record editing in the
+                Data Console
+              </p>
+            </div>
+            <Switch
+              id="read-only"
+              checked={config.readOnly}
+              onCheckedChange={(readOnly) => {
+                setConfig({ readOnly });
+                toast.success(readOnly ? 'Read-only mode enabled' : 'Read-only mode disabled');
+              }}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label htmlFor="query-timeout">Query timeout (seconds)</Label>
+              <p className="text-sm text-muted-foreground">
+                Cancel statements that run longer than this. Use 0 to wait indefinitely
+              </p>
+            </div>
+            <Input
+              id="query-timeout"
+              type="number"
+              min={0}
+              className="w-24"
+              value={config.queryTimeoutSeconds}
+              onChange={(e) =>
+                setConfig({
+                  queryTimeoutSeconds: Math.max(0, Math.floor(Number(e.target.value) || 0)),
+                })
+              }
+            />
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Appearance */}
       <Card>
         <CardHeader>
@@ -251,6 +304,20 @@ export default function Settings() {
               })}
             </div>
           </div>
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label htmlFor="relative-timestamps">Relative timestamps</Label>
+              <p className="text-sm text-muted-foreground">
+                Show times in result grids as "3 hours ago"; the exact value stays in the cell
+                details
+              </p>
+            </div>
+            <Switch
+              id="relative-timestamps"
+              checked={config.relativeTimestamps}
+              onCheckedChange={(relativeTimestamps) => setConfig({ relativeTimestamps })}
+            />
+          </div>
         </CardContent>
       </Card>
 
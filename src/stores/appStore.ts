@@ -7,6 +7,12 @@ interface AppConfig {
   apiBaseUrl: string;
   wsUrl: string;
   theme: 'light' | 'dark' | 'system';
+  // Refuses every statement that writes, from the editor and from the record drawer
+  readOnly: boolean;
+  // Result grids show "3 hours ago" instead of the date and time
+  relativeTimestamps: boolean;
+  // Statements running longer than this are cancelled; 0 waits indefinitely
+  queryTimeoutSeconds: number;
 }
 
 interface AppState {
@@ -25,6 +31,9 @@ export const useAppStore = create<AppState>()(
         apiBaseUrl: 'http://localhost:8000',
         wsUrl: 'ws://localhost:8000/ws',
         theme: 'dark',
+        readOnly: false,
+        relativeTimestamps: false,
+        queryTimeoutSeconds: 0,
       },
       connectionStatus: 'disconnected',
       lastSyncTime: null,
@@ -38,6 +47,11 @@ export const useAppStore = create<AppState>()(
     {
       name: 'genesis-app-config',
       partialize: (state) => ({ config: state.config }),
+      // Configs persisted before a field existed pick up its default
+      merge: (persisted, current) => ({
+        ...current,
+        config: { ...current.config, ...(persisted as Partial<AppState>)?.config },
+      }),
     }
   )
 );
@@ -0,0 +1,279 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { SchemaTable } from '@/hooks/useApi';
+import type { SortSpec, SqlParam, SqlStatement } from '@/lib/sql';
+import type { ColumnFilter, FilterMode } from '@/lib/filters';
+import type { ChartSpec } from '@/lib/chart';
+import {
+  stageDelete,
+  stageInsert,
+  stageUpdate,
+  type CellValue,
+  type StagedChange,
+} from '@/lib/changeset';
+
+const MAX_HISTORY_ENTRIES = 500;
+const MAX_RECENT_TABLES = 5;
+
+export interface QueryTab {
+  id: string;
+  title: string;
+  sql: string;
+  selectedTable: string;
+  browseQuery: string;
+  browseParams: SqlParam[];
+  lastExecuted: string | SqlStatement;
+  sort: SortSpec | null;
+  page: number;
+  pageSize: number;
+  // Result filters apply to the loaded page, or are pushed into the query in "server" mode
+  filters: ColumnFilter[];
+  filterMode: FilterMode;
+  resultView: 'table' | 'chart';
+  // null until the chart is configured, so it starts from a guess based on the result columns
+  chart: ChartSpec | null;
+}
+
+export interface QueryHistoryEntry {
+  id: string;
+  sql: string;
+  params?: Record<string, SqlParam>;
+  executedAt: string;
+  executionTime: number | null;
+  rowCount: number | null;
+  success: boolean;
+  error?: string;
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  folder: string;
+  description: string;
+  sql: string;
+  pinned: boolean;
+  // Chart settings saved from the result of the query, shown when it is opened again
+  chart?: ChartSpec | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A statement in flight; its id is also the one the backend can cancel it by
+export interface RunningQuery {
+  id: string;
+  // The tab that was active when it started, so it can finish there in the background
+  tabId: string;
+  sql: string;
+  startedAt: number;
+}
+
+export type SavedQueryInput = Pick<SavedQuery, 'name' | 'folder' | 'description' | 'sql'> &
+  Partial<Pick<SavedQuery, 'id' | 'pinned' | 'chart'>>;
+
+interface ConsoleState {
+  tabs: QueryTab[];
+  activeTabId: string;
+  history: QueryHistoryEntry[];
+  savedQueries: SavedQuery[];
+  favoriteTables: string[];
+  // Most recently opened first
+  recentTables: string[];
+  stagingEnabled: boolean;
+  // Scripts keep running after a failed statement instead of skipping the rest
+  continueScriptOnError: boolean;
+  stagedChanges: StagedChange[];
+  runningQueries: RunningQuery[];
+  addTab: (tab?: Partial<Omit<QueryTab, 'id'>>) => string;
+  closeTab: (id: string) => void;
+  setActiveTab: (id: string) => void;
+  updateTab: (id: string, patch: Partial<Omit<QueryTab, 'id'>>) => void;
+  addHistoryEntry: (entry: Omit<QueryHistoryEntry, 'id'>) => void;
+  clearHistory: () => void;
+  saveQuery: (query: SavedQueryInput) => string;
+  deleteSavedQuery: (id: string) => void;
+  toggleSavedQueryPin: (id: string) => void;
+  importSavedQueries: (queries: SavedQuery[]) => void;
+  toggleFavoriteTable: (name: string) => void;
+  addRecentTable: (name: string) => void;
+  setStagingEnabled: (enabled: boolean) => void;
+  setContinueScriptOnError: (enabled: boolean) => void;
+  // Passing the id of a staged insert replaces its values instead of staging another row
+  stageInsert: (table: SchemaTable, values: Record<string, CellValue>, id?: string) => void;
+  stageUpdate: (
+    table: SchemaTable,
+    original: Record<string, unknown>,
+    values: Record<string, CellValue>
+  ) => void;
+  stageDelete: (table: SchemaTable, original: Record<string, unknown>) => void;
+  discardStagedChange: (id: string) => void;
+  clearStagedChanges: () => void;
+  startQuery: (query: RunningQuery) => void;
+  finishQuery: (id: string) => void;
+}
+
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createTab = (tabs: QueryTab[], tab: Partial<Omit<QueryTab, 'id'>> = {}): QueryTab => ({
+  title: `Query ${tabs.length + 1}`,
+  sql: '',
+  selectedTable: '',
+  browseQuery: '',
+  browseParams: [],
+  lastExecuted: '',
+  sort: null,
+  page: 1,
+  pageSize: 100,
+  filters: [],
+  filterMode: 'client',
+  resultView: 'table',
+  chart: null,
+  ...tab,
+  id: createId(),
+});
+
+const initialTab = createTab([]);
+
+export const useConsoleStore = create<ConsoleState>()(
+  persist(
+    (set) => ({
+      tabs: [initialTab],
+      activeTabId: initialTab.id,
+      history: [],
+      savedQueries: [],
+      favoriteTables: [],
+      recentTables: [],
+      stagingEnabled: false,
+      continueScriptOnError: false,
+      stagedChanges: [],
+      runningQueries: [],
+      addTab: (tab) => {
+        let id = '';
+        set((state) => {
+          const newTab = createTab(state.tabs, tab);
+          id = newTab.id;
+          return { tabs: [...state.tabs, newTab], activeTabId: newTab.id };
+        });
+        return id;
+      },
+      closeTab: (id) =>
+        set((state) => {
+          const index = state.tabs.findIndex((tab) => tab.id === id);
+          if (index === -1) return state;
+          const remaining = state.tabs.filter((tab) => tab.id !== id);
+          // Closing the last tab leaves a fresh, empty one behind
+          const tabs = remaining.length > 0 ? remaining : [createTab([])];
+          const activeTabId =
+            state.activeTabId === id
+              ? tabs[Math.min(index, tabs.length - 1)].id
+              : state.activeTabId;
+          return { tabs, activeTabId };
+        }),
+      setActiveTab: (id) => set({ activeTabId: id }),
+      updateTab: (id, patch) =>
+        set((state) => ({
+          tabs: state.tabs.map((tab) => (tab.id === id ? { ...tab, ...patch } : tab)),
+        })),
+      addHistoryEntry: (entry) =>
+        set((state) => ({
+          history: [{ ...entry, id: createId() }, ...state.history].slice(0, MAX_HISTORY_ENTRIES),
+        })),
+      clearHistory: () => set({ history: [] }),
+      saveQuery: (query) => {
+        const id = query.id ?? createId();
+        const now = new Date().toISOString();
+        set((state) => {
+          const existing = state.savedQueries.find((saved) => saved.id === id);
+          if (existing) {
+            return {
+              savedQueries: state.savedQueries.map((saved) =>
+                saved.id === id ? { ...saved, ...query, id, updatedAt: now } : saved
+              ),
+            };
+          }
+          const created: SavedQuery = {
+            pinned: false,
+            ...query,
+            id,
+            createdAt: now,
+            updatedAt: now,
+          };
+          return { savedQueries: [...state.savedQueries, created] };
+        });
+        return id;
+      },
+      deleteSavedQuery: (id) =>
+        set((state) => ({
+          savedQueries: state.savedQueries.filter((saved) => saved.id !== id),
+        })),
+      toggleSavedQueryPin: (id) =>
+        set((state) => ({
+          savedQueries: state.savedQueries.map((saved) =>
+            saved.id === id ? { ...saved, pinned: !saved.pinned } : saved
+          ),
+        })),
+      toggleFavoriteTable: (name) =>
+        set((state) => ({
+          favoriteTables: state.favoriteTables.includes(name)
+            ? state.favoriteTables.filter((table) => table !== name)
+            : [...state.favoriteTables, name],
+        })),
+      addRecentTable: (name) =>
+        set((state) => ({
+          recentTables: [name, ...state.recentTables.filter((table) => table !== name)].slice(
+            0,
+            MAX_RECENT_TABLES
+          ),
+        })),
+      // Imported queries replace local ones with the same id and are appended otherwise
+      importSavedQueries: (queries) =>
+        set((state) => {
+          const imported = new Map(queries.map((query) => [query.id, query]));
+          return {
+            savedQueries: [
+              ...state.savedQueries.filter((saved) => !imported.has(saved.id)),
+              ...imported.values(),
+            ],
+          };
+        }),
+      setStagingEnabled: (enabled) => set({ stagingEnabled: enabled }),
+      setContinueScriptOnError: (enabled) => set({ continueScriptOnError: enabled }),
+      stageInsert: (table, values, id) =>
+        set((state) => ({
+          stagedChanges: stageInsert(state.stagedChanges, id ?? createId(), table, values),
+        })),
+      stageUpdate: (table, original, values) =>
+        set((state) => ({
+          stagedChanges: stageUpdate(state.stagedChanges, createId(), table, original, values),
+        })),
+      stageDelete: (table, original) =>
+        set((state) => ({
+          stagedChanges: stageDelete(state.stagedChanges, createId(), table, original),
+        })),
+      discardStagedChange: (id) =>
+        set((state) => ({
+          stagedChanges: state.stagedChanges.filter((change) => change.id !== id),
+        })),
+      clearStagedChanges: () => set({ stagedChanges: [] }),
+      startQuery: (query) => set((state) => ({ runningQueries: [...state.runningQueries, query] })),
+      finishQuery: (id) =>
+        set((state) => ({
+          runningQueries: state.runningQueries.filter((query) => query.id !== id),
+        })),
+    }),
+    {
+      name: 'genesis-console-workspace',
+      partialize: (state) => ({
+        tabs: state.tabs,
+        activeTabId: state.activeTabId,
+        history: state.history,
+        savedQueries: state.savedQueries,
+        favoriteTables: state.favoriteTables,
+        recentTables: state.recentTables,
+        // Staged changes are not persisted: they would be stale against the rows after a reload
+        stagingEnabled: state.stagingEnabled,
+        continueScriptOnError: state.continueScriptOnError,
+      }),
+    }
+  )
+);
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeBinary,
+  detectCellKind,
+  downsample,
+  hexDump,
+  parseVector,
+  toBase64,
+  vectorStats,
+} from "@/lib/cells";
+
+const embedding = Array.from({ length: 12 }, (_, i) => i / 10);
+
+describe("detectCellKind", () => {
+  it("tells NULL, empty strings, JSON, vectors and timestamps apart", () => {
+    expect(detectCellKind(null)).toBe("null");
+    expect(detectCellKind("")).toBe("empty");
+    expect(detectCellKind({ a: 1 })).toBe("json");
+    expect(detectCellKind([1, 2])).toBe("json");
+    expect(detectCellKind('{"a":1}', "jsonb")).toBe("json");
+    expect(detectCellKind('{"a":1}', "text")).toBe("text");
+    expect(detectCellKind(embedding)).toBe("vector");
+    expect(detectCellKind([1, 2], "vector(2)")).toBe("vector");
+    expect(detectCellKind("2024-03-01T10:00:00Z")).toBe("timestamp");
+    expect(detectCellKind("2024-03-01", "date")).toBe("timestamp");
+    expect(detectCellKind("2024-03-01")).toBe("text");
+    expect(detectCellKind("\\x00ff", "bytea")).toBe("binary");
+    expect(detectCellKind(42)).toBe("number");
+    expect(detectCellKind(false)).toBe("boolean");
+  });
+});
+
+describe("parseVector", () => {
+  it("reads arrays and pgvector text", () => {
+    expect(parseVector("[1, -2.5, 3e-1]", "vector")).toEqual([1, -2.5, 0.3]);
+    expect(parseVector(embedding)).toBe(embedding);
+    expect(parseVector([1, "2", 3, 4, 5, 6, 7, 8])).toBeNull();
+  });
+
+  it("summarises and downsamples", () => {
+    expect(vectorStats([3, -4])).toEqual({ dimensions: 2, min: -4, max: 3, norm: 5 });
+    expect(downsample([1, 3, 5, 7], 2)).toEqual([2, 6]);
+    expect(downsample([1, 2], 4)).toEqual([1, 2]);
+  });
+});
+
+describe("decodeBinary", () => {
+  it("decodes hex, serialized buffers and base64 in binary columns", () => {
+    expect(Array.from(decodeBinary("\\x48690a"))).toEqual([72, 105, 10]);
+    expect(Array.from(decodeBinary({ type: "Buffer", data: [1, 2] }))).toEqual([1, 2]);
+    expect(Array.from(decodeBinary("SGk=", "bytea"))).toEqual([72, 105]);
+    expect(decodeBinary("SGk=", "text")).toBeNull();
+    const bytes = decodeBinary("\\x48690a");
+    expect(toBase64(bytes)).toBe("SGkK");
+    expect(hexDump(bytes)).toBe(`00000000  48 69 0a${" ".repeat(39)}  Hi.`);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyStagedChanges,
+  buildChangesetStatements,
+  duplicateRow,
+  rowLabel,
+  stageDelete,
+  stageInsert,
+  stageUpdate,
+} from "@/lib/changeset";
+
+const episodes = {
+  name: "memory.episodes",
+  columns: [
+    { name: "id", type: "integer", primary_key: true },
+    { name: "content", type: "text", primary_key: false },
+    { name: "metadata", type: "jsonb", primary_key: false },
+  ],
+};
+
+const row = { id: 1, content: "hello", metadata: { tag: "a" } };
+
+describe("changeset", () => {
+  it("merges repeated edits of a row and drops edits that restore it", () => {
+    let changes = stageUpdate([], "u1", episodes, row, {
+      id: "1",
+      content: "hi",
+      metadata: '{"tag":"a"}',
+    });
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ kind: "update", values: { content: "hi" } });
+
+    changes = stageUpdate(changes, "u2", episodes, row, { metadata: '{"tag":"b"}' });
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      id: "u1",
+      values: { content: "hi", metadata: '{"tag":"b"}' },
+    });
+
+    changes = stageUpdate(changes, "u3", episodes, row, {
+      content: "hello",
+      metadata: '{"tag":"a"}',
+    });
+    expect(changes).toEqual([]);
+  });
+
+  it("replaces a pending update when the row is deleted", () => {
+    const updated = stageUpdate([], "u1", episodes, row, { content: "hi" });
+    const deleted = stageDelete(updated, "d1", episodes, row);
+    expect(deleted.map((change) => change.kind)).toEqual(["delete"]);
+  });
+
+  it("builds one parameterized statement per change", () => {
+    let changes = stageInsert([], "i1", episodes, { content: "new" });
+    changes = stageUpdate(changes, "u1", episodes, row, { content: null, metadata: null });
+    changes = stageDelete(changes, "d1", episodes, { id: 2, content: "bye", metadata: null });
+
+    expect(buildChangesetStatements(changes, [episodes])).toEqual([
+      {
+        sql: 'INSERT INTO "memory"."episodes" ("content") VALUES ($1)',
+        params: [{ type: "text", value: "new" }],
+      },
+      {
+        sql: 'UPDATE "memory"."episodes" SET "content" = $1, "metadata" = $2 WHERE "id" = $3',
+        params: [
+          { type: "null", value: null },
+          { type: "null", value: null },
+          { type: "number", value: 1 },
+        ],
+      },
+      {
+        sql: 'DELETE FROM "memory"."episodes" WHERE "id" = $1',
+        params: [{ type: "number", value: 2 }],
+      },
+    ]);
+    expect(() => buildChangesetStatements(changes, [])).toThrow("no longer exists");
+  });
+
+  it("overlays staged changes on a page of rows", () => {
+    let changes = stageInsert([], "i1", episodes, { content: "new" });
+    changes = stageUpdate(changes, "u1", episodes, row, { content: "hi" });
+
+    const { rows, changeByRow } = applyStagedChanges([row, { id: 2 }], changes, episodes);
+    expect(rows).toEqual([{ content: "new" }, { ...row, content: "hi" }, { id: 2 }]);
+    expect(rows.map((shown) => changeByRow.get(shown)?.kind)).toEqual([
+      "insert",
+      "update",
+      undefined,
+    ]);
+  });
+
+  it("names rows by their primary key", () => {
+    expect(rowLabel(episodes, row)).toBe("id 1");
+    expect(rowLabel({ name: "notes", columns: [{ name: "body" }] }, { body: "x".repeat(30) })).toBe(
+      `body ${"x".repeat(24)}...`
+    );
+  });
+
+  it("copies a row without its primary key", () => {
+    expect(duplicateRow(episodes, row)).toEqual({
+      content: "hello",
+      metadata: '{"tag":"a"}',
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { buildChartData, defaultChartSpec, resolveChartSpec, type ChartSpec } from "@/lib/chart";
+
+const types = { created_at: "timestamp", kind: "text", intensity: "numeric", size: "integer" };
+const rows = [
+  { created_at: "2024-03-01T10:15:20Z", kind: "a", intensity: 1, size: 10 },
+  { created_at: "2024-03-01T10:15:40Z", kind: "b", intensity: "3", size: 20 },
+  { created_at: "2024-03-01T09:05:00Z", kind: "a", intensity: 5, size: null },
+];
+
+const spec = (patch: Partial<ChartSpec>): ChartSpec => ({
+  ...defaultChartSpec(Object.keys(types), types),
+  ...patch,
+});
+
+describe("defaultChartSpec", () => {
+  it("plots the first numeric column over time", () => {
+    expect(defaultChartSpec(Object.keys(types), types)).toMatchObject({
+      type: "line",
+      x: "created_at",
+      y: ["intensity"],
+      aggregate: "avg",
+    });
+    expect(defaultChartSpec(["kind"], { kind: "text" })).toMatchObject({
+      type: "bar",
+      x: "kind",
+      y: [],
+      aggregate: "count",
+    });
+  });
+
+  it("drops columns the result no longer has", () => {
+    const saved = spec({ x: "gone", y: ["size", "gone"], groupBy: "gone" });
+    expect(resolveChartSpec(saved, Object.keys(types), types)).toMatchObject({
+      x: "created_at",
+      y: ["size"],
+      groupBy: null,
+    });
+  });
+});
+
+describe("buildChartData", () => {
+  it("aggregates by bucketed time and sorts along the axis", () => {
+    const { points, series, xKind } = buildChartData(
+      rows,
+      spec({ y: ["intensity", "size"], aggregate: "sum", bucket: "minute" }),
+      types
+    );
+    expect(xKind).toBe("time");
+    expect(series).toEqual([
+      { key: "s0", label: "intensity" },
+      { key: "s1", label: "size" },
+    ]);
+    expect(points.map((point) => new Date(point.x).toISOString())).toEqual([
+      "2024-03-01T09:05:00.000Z",
+      "2024-03-01T10:15:00.000Z",
+    ]);
+    expect(points[0]).toMatchObject({ s0: 5 });
+    expect(points[0].s1).toBeUndefined();
+    expect(points[1]).toMatchObject({ s0: 4, s1: 30 });
+  });
+
+  it("splits series by a column and counts categories", () => {
+    const { points, series } = buildChartData(
+      rows,
+      spec({ type: "bar", x: "kind", y: [], groupBy: "kind", aggregate: "count" }),
+      types
+    );
+    expect(series.map((item) => item.label)).toEqual(["a", "b"]);
+    expect(points).toEqual([
+      { x: "a", s0: 2 },
+      { x: "b", s1: 1 },
+    ]);
+  });
+
+  it("bins values into a histogram", () => {
+    const { points } = buildChartData(
+      rows,
+      spec({ type: "histogram", x: "intensity", bins: 2 }),
+      types
+    );
+    expect(points).toEqual([
+      { x: "1–3", s0: 1 },
+      { x: "3–5", s0: 2 },
+    ]);
+  });
+
+  it("plots every row in a scatter chart", () => {
+    const { points, xKind } = buildChartData(
+      rows,
+      spec({ type: "scatter", x: "intensity", y: ["size"] }),
+      types
+    );
+    expect(xKind).toBe("number");
+    expect(points).toEqual([
+      { x: 1, s0: 10 },
+      { x: 3, s0: 20 },
+    ]);
+  });
+});
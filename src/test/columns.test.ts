@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { columnKind, recordFieldName, recordSchema, validateValue, withDate } from "@/lib/columns";
+
+const columns = [
+  { name: "id", type: "bigint", nullable: false, primary_key: true, default: "nextval('ids')" },
+  { name: "title", type: "text", nullable: false, primary_key: false, default: null },
+  { name: "score", type: "numeric", nullable: true, primary_key: false },
+];
+
+describe("columns", () => {
+  it("chooses a kind from the column type", () => {
+    expect(columnKind("int4")).toBe("number");
+    expect(columnKind("interval")).toBe("text");
+    expect(columnKind("timestamp with time zone")).toBe("datetime");
+    expect(columnKind("date")).toBe("date");
+    expect(columnKind("jsonb")).toBe("json");
+  });
+
+  it("rejects values a column cannot store instead of turning them into NULL", () => {
+    expect(validateValue("", "integer")).toBe("Enter a value or set NULL");
+    expect(validateValue("1.5", "integer")).toBe("Must be a whole number");
+    expect(validateValue("1.5", "numeric")).toBeNull();
+    expect(validateValue("0x1F", "integer")).toBe("Must be a number");
+    expect(validateValue("0b101", "bigint")).toBe("Must be a number");
+    expect(validateValue("1e3", "real")).toBeNull();
+    expect(validateValue("yes", "boolean")).toBe("Must be true or false");
+    expect(validateValue("{", "jsonb")).toMatch(/^Invalid JSON/);
+    expect(validateValue("2024-02-30", "date")).toBe("Must be a date (YYYY-MM-DD)");
+    expect(validateValue("", "text")).toBeNull();
+    expect(validateValue("abc", "uuid")).toBe("Must be a UUID");
+  });
+
+  it("validates NULLs and omitted columns against the schema", () => {
+    const create = recordSchema(columns, "create");
+    const values = (id: unknown, title: unknown, score: unknown) => ({
+      [recordFieldName(0)]: id,
+      [recordFieldName(1)]: title,
+      [recordFieldName(2)]: score,
+    });
+
+    expect(create.safeParse(values(undefined, "hello", undefined)).success).toBe(true);
+
+    const result = create.safeParse(values(null, undefined, "x"));
+    expect(result.success).toBe(false);
+    expect(result.error?.flatten().fieldErrors).toEqual({
+      c0: ["id cannot be NULL"],
+      c1: ["Required"],
+      c2: ["Must be a number"],
+    });
+
+    expect(recordSchema(columns, "edit").safeParse(values("1", "hi", undefined)).success).toBe(false);
+  });
+
+  it("replaces only the date part of timestamps", () => {
+    const day = new Date(2024, 4, 17);
+    expect(withDate("2023-01-01 08:30:00+00", day, "datetime")).toBe("2024-05-17 08:30:00+00");
+    expect(withDate(null, day, "datetime")).toBe("2024-05-17 00:00:00");
+    expect(withDate("2023-01-01", day, "date")).toBe("2024-05-17");
+  });
+});
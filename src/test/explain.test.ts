@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { buildExplainQuery, hotNodes, parseExplainResult, planWarnings } from "@/lib/explain";
+
+const analyzedPlan = [
+  {
+    Plan: {
+      "Node Type": "Hash Join",
+      "Join Type": "Inner",
+      "Startup Cost": 10,
+      "Total Cost": 120,
+      "Plan Rows": 50,
+      "Actual Total Time": 40,
+      "Actual Rows": 900,
+      "Actual Loops": 1,
+      "Hash Cond": "(o.user_id = u.id)",
+      Plans: [
+        {
+          "Node Type": "Seq Scan",
+          "Relation Name": "orders",
+          Schema: "public",
+          "Total Cost": 80,
+          "Plan Rows": 1000,
+          "Actual Total Time": 30,
+          "Actual Rows": 1000,
+          "Actual Loops": 1,
+          Filter: "(total > 10)",
+        },
+        {
+          "Node Type": "Index Scan",
+          "Relation Name": "users",
+          "Index Name": "users_pkey",
+          "Total Cost": 20,
+          "Plan Rows": 10,
+          "Actual Total Time": 0.5,
+          "Actual Rows": 10,
+          "Actual Loops": 4,
+        },
+      ],
+    },
+    "Planning Time": 0.2,
+    "Execution Time": 41,
+  },
+];
+
+const result = (cell: unknown) => ({
+  columns: ["QUERY PLAN"],
+  rows: [{ "QUERY PLAN": cell }],
+  rowCount: 1,
+  executionTime: 1,
+});
+
+describe("buildExplainQuery", () => {
+  it("adds ANALYZE and BUFFERS only when analyzing", () => {
+    expect(buildExplainQuery("SELECT 1;", { analyze: false, buffers: true })).toBe(
+      "EXPLAIN (FORMAT JSON) SELECT 1"
+    );
+    expect(buildExplainQuery("SELECT 1", { analyze: true, buffers: true })).toBe(
+      "EXPLAIN (FORMAT JSON, ANALYZE, BUFFERS) SELECT 1"
+    );
+  });
+});
+
+describe("parseExplainResult", () => {
+  it("reads parsed and text plans and works out exclusive time and cost", () => {
+    const plan = parseExplainResult(result(analyzedPlan));
+    expect(parseExplainResult(result(JSON.stringify(analyzedPlan)))).toEqual(plan);
+    expect(plan.analyzed).toBe(true);
+    expect(plan.executionTime).toBe(41);
+    expect(plan.nodes.map((node) => node.id)).toEqual(["0", "0.0", "0.1"]);
+    expect(plan.root.detail).toBe("Inner");
+    expect(plan.root.exclusiveCost).toBe(20);
+    // The index scan ran four loops of 0.5 ms, leaving 8 ms for the join itself
+    expect(plan.nodes[2].totalTime).toBe(2);
+    expect(plan.root.exclusiveTime).toBe(8);
+    expect(plan.nodes[1].relation).toBe("public.orders");
+    expect(plan.root.properties).toEqual([["Hash Cond", "(o.user_id = u.id)"]]);
+  });
+
+  it("rejects results that are not JSON plans", () => {
+    expect(() => parseExplainResult(result("Seq Scan on orders"))).toThrow(
+      "The backend did not return a JSON plan"
+    );
+  });
+});
+
+describe("plan analysis", () => {
+  it("flags hot nodes, sequential scans and misestimates", () => {
+    const plan = parseExplainResult(result(analyzedPlan));
+    expect([...hotNodes(plan)]).toEqual(["0", "0.0"]);
+    expect(planWarnings(plan)).toEqual([
+      {
+        nodeId: "0",
+        message: "Hash Join expected 50 rows but got 900; table statistics may be stale",
+      },
+      {
+        nodeId: "0.0",
+        message:
+          "Sequential scan on public.orders with a filter; an index on the filtered columns may help",
+      },
+    ]);
+  });
+});
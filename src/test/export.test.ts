@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { exportRows, type ExportOptions } from "@/lib/export";
+
+const columns = ["id", "content", "metadata"];
+const rows = [
+  { id: 1, content: 'say "hi", then\nleave', metadata: { tags: ["a"] } },
+  { id: 2, content: "", metadata: null },
+];
+const options: ExportOptions = { delimiter: ",", header: true, nullValue: "", table: "memory.episodes" };
+
+describe("export", () => {
+  it("writes RFC 4180 CSV that keeps empty strings apart from NULL", () => {
+    expect(exportRows("csv", columns, rows, options)).toBe(
+      'id,content,metadata\r\n1,"say ""hi"", then\nleave","{""tags"":[""a""]}"\r\n2,"",\r\n'
+    );
+    expect(exportRows("csv", ["id"], [{ id: null }], { ...options, delimiter: ";", header: false, nullValue: "NULL" })).toBe(
+      "NULL\r\n"
+    );
+  });
+
+  it("escapes tabs and line breaks in TSV and pipes in Markdown", () => {
+    const tsvRows = [{ id: 1, content: "a\tb\nc", metadata: null }];
+    expect(exportRows("tsv", columns, tsvRows, { ...options, nullValue: "\\N" })).toBe(
+      "id\tcontent\tmetadata\n1\ta\\tb\\nc\t\\N\n"
+    );
+    expect(exportRows("markdown", ["content"], [{ content: "x|y\nz" }, { content: null }], options)).toBe(
+      "| content |\n| --- |\n| x\\|y<br>z |\n|  |\n"
+    );
+  });
+
+  it("keeps column order and nulls in JSON formats", () => {
+    const unordered = [{ metadata: null, id: 3 }];
+    expect(exportRows("ndjson", columns, unordered, options)).toBe(
+      '{"id":3,"content":null,"metadata":null}\n'
+    );
+    expect(JSON.parse(exportRows("json", columns, rows, options) as string)[0].metadata).toEqual({ tags: ["a"] });
+    expect(JSON.parse(exportRows("columnar", columns, rows, { ...options, columnTypes: { id: "integer" } }) as string)).toEqual({
+      columns: [
+        { name: "id", type: "integer" },
+        { name: "content", type: null },
+        { name: "metadata", type: null },
+      ],
+      rowCount: 2,
+      data: { id: [1, 2], content: ['say "hi", then\nleave', ""], metadata: [{ tags: ["a"] }, null] },
+    });
+  });
+
+  it("writes INSERT statements for the selected table", () => {
+    expect(exportRows("sql", columns, rows, options)).toBe(
+      `INSERT INTO "memory"."episodes" ("id", "content", "metadata") VALUES (1, 'say "hi", then\nleave', '{"tags":["a"]}');\n` +
+        `INSERT INTO "memory"."episodes" ("id", "content", "metadata") VALUES (2, '', NULL);\n`
+    );
+    expect(() => exportRows("sql", columns, rows, { ...options, table: null })).toThrow();
+  });
+
+  it("packs XLSX as a zip archive", () => {
+    const file = exportRows("xlsx", columns, rows, options) as Uint8Array;
+    expect(Array.from(file.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    const text = new TextDecoder().decode(file);
+    expect(text).toContain("xl/worksheets/sheet1.xml");
+    expect(text).toContain('<c r="A2"><v>1</v></c>');
+    expect(text).toContain("say &quot;hi&quot;, then\nleave");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  conditionError,
+  filterConditions,
+  filterRows,
+  inferColumnType,
+  matchesSearch,
+  type ColumnFilter,
+} from "@/lib/filters";
+import { buildFilteredQuery, createParamList } from "@/lib/sql";
+
+const filter = (patch: Partial<ColumnFilter>): ColumnFilter => ({
+  id: "f",
+  column: "score",
+  type: "integer",
+  operator: "eq",
+  value: "",
+  valueTo: "",
+  ...patch,
+});
+
+const rows = [
+  { id: 1, score: 9, title: "Nine", created_at: "2024-01-05T10:00:00Z", meta: null },
+  { id: 2, score: 10, title: "ten", created_at: "2024-02-01T00:00:00Z", meta: { tag: "a" } },
+  { id: 3, score: null, title: "100 things", created_at: "2023-12-31T23:00:00Z", meta: null },
+];
+
+describe("filterRows", () => {
+  it("compares numbers and dates by value rather than as text", () => {
+    expect(filterRows(rows, [filter({ operator: "gt", value: "9" })]).map((row) => row.id)).toEqual(
+      [2]
+    );
+    const january = filter({
+      column: "created_at",
+      type: "timestamp",
+      operator: "between",
+      value: "2024-01-01",
+      valueTo: "2024-01-31",
+    });
+    expect(filterRows(rows, [january]).map((row) => row.id)).toEqual([1]);
+  });
+
+  it("treats NULL like SQL and ignores incomplete filters", () => {
+    expect(
+      filterRows(rows, [filter({ operator: "neq", value: "9" })]).map((row) => row.id)
+    ).toEqual([2]);
+    expect(filterRows(rows, [filter({ operator: "is_null" })]).map((row) => row.id)).toEqual([3]);
+    expect(filterRows(rows, [filter({ operator: "gt", value: "x" })])).toBe(rows);
+  });
+
+  it("matches text case-insensitively and by regex", () => {
+    const regex = filter({ column: "title", type: "text", operator: "regex", value: "^t" });
+    expect(filterRows(rows, [regex]).map((row) => row.id)).toEqual([2]);
+    const json = filter({ column: "meta", type: "jsonb", operator: "contains", value: '"TAG"' });
+    expect(filterRows(rows, [json]).map((row) => row.id)).toEqual([2]);
+    expect(conditionError({ operator: "regex", value: "(", valueTo: "" }, "text")).toBe(
+      "Invalid regular expression"
+    );
+  });
+});
+
+describe("matchesSearch", () => {
+  it("only searches text-like columns", () => {
+    const types = { id: "integer", score: "integer", title: "text", created_at: "timestamp" };
+    expect(rows.filter((row) => matchesSearch(row, "10", types)).map((row) => row.id)).toEqual([3]);
+  });
+});
+
+describe("inferColumnType", () => {
+  it("guesses types from loaded values", () => {
+    expect(inferColumnType([1, null, 2.5])).toBe("numeric");
+    expect(inferColumnType(["2024-01-01", "2024-02-29"])).toBe("date");
+    expect(inferColumnType(["2024-01-01T10:00:00Z", null])).toBe("timestamp");
+    expect(inferColumnType([{ a: 1 }])).toBe("jsonb");
+    expect(inferColumnType(["2024-01-01", "soon"])).toBe("text");
+    expect(inferColumnType([null])).toBe("text");
+  });
+});
+
+describe("server-side filters", () => {
+  it("wraps the query in a WHERE clause with bound values after the query's own", () => {
+    const list = createParamList();
+    list.add({ type: "text", value: "x" });
+    const conditions = filterConditions(
+      [
+        filter({ operator: "between", value: "1", valueTo: "5" }),
+        filter({ column: "title", type: "text", operator: "regex", value: "it's" }),
+        filter({ column: "created_at", type: "timestamp", operator: "gte", value: "" }),
+        filter({ operator: "eq", value: "0x10" }),
+      ],
+      list.add
+    );
+    expect(buildFilteredQuery("SELECT * FROM episodes WHERE kind = $1;", conditions)).toBe(
+      'SELECT * FROM (\nSELECT * FROM episodes WHERE kind = $1\n) AS filter_source WHERE "score" BETWEEN $2 AND $3 AND "title" ~* $4'
+    );
+    expect(list.params).toEqual([
+      { type: "text", value: "x" },
+      { type: "number", value: "1" },
+      { type: "number", value: "5" },
+      { type: "text", value: "it's" },
+    ]);
+    expect(buildFilteredQuery("SELECT 1", [])).toBe("SELECT 1");
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  autoMapColumns,
+  buildImportStatement,
+  buildRejectsFile,
+  mappingErrors,
+  parseCsvRecords,
+  parseImportFile,
+  prepareImport,
+} from "@/lib/import";
+
+const columns = [
+  { name: "id", type: "integer", nullable: false, primary_key: true, default: null },
+  { name: "content", type: "text", nullable: false, primary_key: false, default: null },
+  { name: "pinned", type: "boolean", nullable: true, primary_key: false, default: "false" },
+];
+
+describe("import", () => {
+  it("parses quoted CSV fields and detects the delimiter", () => {
+    expect(parseCsvRecords('a;b\r\n1;"x;""y""\nz"\r\n\r\n2;\n')).toEqual([
+      ["a", "b"],
+      ["1", 'x;"y"\nz'],
+      ["2", ""],
+    ]);
+    expect(() => parseCsvRecords('a\n"open')).toThrow("File ends inside a quoted field");
+  });
+
+  it("reads JSON arrays and NDJSON into a common shape", () => {
+    expect(parseImportFile("rows.json", '[{"id":1},{"id":2,"tags":["a"]}]')).toEqual({
+      format: "json",
+      fields: ["id", "tags"],
+      rows: [{ id: 1 }, { id: 2, tags: ["a"] }],
+    });
+    expect(parseImportFile("rows.json", '{"id":1}\n{"id":2}\n').format).toBe("ndjson");
+    expect(() => parseImportFile("rows.ndjson", '{"id":1}\nnope')).toThrow("Line 2 is not valid JSON");
+    expect(parseImportFile("rows.csv", "\uFEFFID,,ID\n1,2,3").fields).toEqual(["ID", "column_2", "ID_2"]);
+  });
+
+  it("maps fields by name and checks the mapping against the schema", () => {
+    const mapping = autoMapColumns(columns, ["ID", "Content", "other"]);
+    expect(mapping).toEqual({ id: "ID", content: "Content", pinned: null });
+    expect(mappingErrors(columns, mapping, "upsert")).toEqual([]);
+    expect(mappingErrors(columns, { id: null, content: null, pinned: "other" }, "upsert")).toEqual([
+      "id is required and has no default",
+      "content is required and has no default",
+      "Upsert needs every primary key column mapped",
+    ]);
+  });
+
+  it("coerces values and rejects rows the columns cannot store", () => {
+    const source = parseImportFile("rows.csv", "id,content,pinned\n1,hello,yes\nx,,\n3,bye,maybe");
+    const prepared = prepareImport(source, columns, { id: "id", content: "content", pinned: "pinned" }, { nullValue: "" });
+    expect(prepared.rows).toEqual([{ row: 1, values: ["1", "hello", "true"] }]);
+    expect(prepared.rejects.map(({ row, error }) => [row, error])).toEqual([
+      [2, "id: Must be a number; content cannot be NULL"],
+      [3, "pinned: Must be true or false"],
+    ]);
+    expect(buildRejectsFile(source, prepared.rejects)).toBe(
+      '_row,id,content,pinned,_error\r\n2,x,"","",id: Must be a number; content cannot be NULL\r\n3,3,bye,maybe,pinned: Must be true or false\r\n'
+    );
+  });
+
+  it("builds multi-row inserts and upserts", () => {
+    const rows = [
+      { row: 1, values: ["1", "a"] },
+      { row: 2, values: ["2", null] },
+    ];
+    const target = columns.slice(0, 2);
+    expect(buildImportStatement("memory.episodes", target, rows, "insert")).toEqual({
+      sql: 'INSERT INTO "memory"."episodes" ("id", "content") VALUES ($1, $2), ($3, $4)',
+      params: [
+        { type: "number", value: "1" },
+        { type: "text", value: "a" },
+        { type: "number", value: "2" },
+        { type: "null", value: null },
+      ],
+    });
+    expect(buildImportStatement("episodes", target, rows, "upsert").sql).toMatch(
+      /ON CONFLICT \("id"\) DO UPDATE SET "content" = EXCLUDED\."content"$/
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import type { SchemaTable } from "@/hooks/useApi";
+import {
+  buildColumnProfiles,
+  buildHistogramQuery,
+  buildProfileStatsQuery,
+  buildTopValuesQuery,
+  profileColumns,
+  profileSource,
+  withHistograms,
+  withTopValues,
+} from "@/lib/profile";
+
+const table: SchemaTable = {
+  name: "memories",
+  columns: [
+    { name: "memory_id", type: "uuid", nullable: false, primary_key: true },
+    { name: "score", type: "double precision", nullable: true, primary_key: false },
+    { name: "content", type: "text", nullable: true, primary_key: false },
+    { name: "archived", type: "boolean", nullable: true, primary_key: false },
+  ],
+};
+const columns = profileColumns(
+  table.columns.map((column) => column.name),
+  Object.fromEntries(table.columns.map((column) => [column.name, column.type])),
+  table
+);
+const result = (rows: Record<string, unknown>[]) => ({
+  columns: Object.keys(rows[0] ?? {}),
+  rows,
+  rowCount: rows.length,
+  executionTime: 1,
+});
+
+describe("profileColumns", () => {
+  it("treats single-column keys and id-like names as keys", () => {
+    expect(columns.map((column) => column.key)).toEqual([true, false, false, false]);
+    const composite = profileColumns(
+      ["a", "b", "id"],
+      {},
+      {
+        name: "links",
+        columns: [
+          { name: "a", type: "int", nullable: false, primary_key: true },
+          { name: "b", type: "int", nullable: false, primary_key: true },
+        ],
+      }
+    );
+    expect(composite.map((column) => column.key)).toEqual([false, false, true]);
+  });
+});
+
+describe("profile queries", () => {
+  it("computes the stats each column type supports in one pass", () => {
+    const { sql } = profileSource({ sql: "SELECT * FROM memories;" }, 1000);
+    const query = buildProfileStatsQuery(sql, columns);
+    expect(query).toContain("LIMIT 1000");
+    expect(query).toMatch(/^WITH profile_source AS \(/);
+    expect(query).toContain('COUNT(DISTINCT "memory_id"::text) AS c0_distinct');
+    expect(query).toContain('AVG("score"::numeric) AS c1_mean');
+    expect(query).toContain('MAX(LENGTH("content"::text)) AS c2_max_length');
+    expect(query).toContain('COUNT(DISTINCT "archived") AS c3_distinct');
+    expect(query).not.toContain('MIN("archived")');
+  });
+});
+
+describe("buildColumnProfiles", () => {
+  const stats = result([
+    {
+      total: "10",
+      c0_values: "10",
+      c0_distinct: "8",
+      c0_min_length: 36,
+      c0_max_length: 36,
+      c0_mean_length: "36",
+      c1_values: "10",
+      c1_distinct: "6",
+      c1_min: 0,
+      c1_max: 1,
+      c1_mean: "0.45",
+      c2_values: "0",
+      c2_distinct: "0",
+      c2_min_length: null,
+      c2_max_length: null,
+      c2_mean_length: null,
+      c3_values: "7",
+      c3_distinct: "1",
+    },
+  ]);
+  const profiles = buildColumnProfiles(columns, stats);
+
+  it("flags duplicated keys, all-NULL and constant columns", () => {
+    expect(profiles.map((profile) => profile.flags.map((flag) => flag.kind))).toEqual([
+      ["duplicate-key"],
+      [],
+      ["all-null"],
+      ["constant"],
+    ]);
+    expect(profiles[0].flags[0].message).toContain("20%");
+    expect(profiles[2].nullRatio).toBe(1);
+    expect(profiles[1]).toMatchObject({ min: "0", max: "1", mean: 0.45 });
+  });
+
+  it("fetches top values and histograms only where they say something", () => {
+    const top = buildTopValuesQuery("SELECT * FROM memories", profiles);
+    expect(top).toContain("SELECT 0 AS col");
+    expect(top).toContain("SELECT 3 AS col");
+    expect(top).not.toContain("SELECT 2 AS col");
+
+    // Lengths are all 36, so only the score column gets a histogram
+    const histogram = buildHistogramQuery("SELECT * FROM memories", profiles);
+    expect(histogram).toContain('WIDTH_BUCKET("score"::numeric, 0, 1, 10)');
+    expect(histogram).not.toContain("LENGTH");
+
+    const withTop = withTopValues(
+      profiles,
+      result([
+        { col: 3, value: "false", frequency: "7" },
+        { col: 0, value: "a", frequency: "3" },
+      ])
+    );
+    expect(withTop[3].topValues).toEqual([{ value: "false", count: 7 }]);
+
+    const withBins = withHistograms(
+      withTop,
+      result([
+        { col: 1, bucket: 1, frequency: "4" },
+        { col: 1, bucket: 10, frequency: "6" },
+      ])
+    );
+    expect(withBins[1].histogram).toHaveLength(10);
+    expect(withBins[1].histogram[0]).toEqual({ label: "0–0.1", count: 4 });
+    expect(withBins[1].histogram[9]).toEqual({ label: "0.9–1", count: 6 });
+    expect(withBins[2].histogram).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import type { SchemaTable } from "@/hooks/useApi";
+import {
+  buildBuilderQuery,
+  emptyBuilderState,
+  filterError,
+  removeJoin,
+  suggestJoins,
+  type BuilderFilter,
+} from "@/lib/queryBuilder";
+
+const column = (
+  name: string,
+  type: string,
+  extra: Partial<SchemaTable["columns"][number]> = {}
+) => ({
+  name,
+  type,
+  nullable: true,
+  primary_key: false,
+  ...extra,
+});
+
+const schema: SchemaTable[] = [
+  {
+    name: "episodes",
+    columns: [
+      column("id", "integer", { primary_key: true, nullable: false }),
+      column("title", "text"),
+      column("score", "numeric"),
+      column("created_at", "timestamp"),
+    ],
+  },
+  {
+    name: "memory.links",
+    columns: [column("id", "integer", { primary_key: true }), column("episode_id", "integer")],
+    foreign_keys: [
+      {
+        name: "links_episode_fk",
+        columns: ["episode_id"],
+        references: { table: "episodes", columns: ["id"] },
+      },
+    ],
+  },
+  {
+    name: "tags",
+    columns: [column("id", "integer"), column("episode_id", "integer"), column("title", "text")],
+  },
+];
+
+const filter = (patch: Partial<BuilderFilter>): BuilderFilter => ({
+  id: "f",
+  table: "episodes",
+  column: "title",
+  operator: "eq",
+  value: "",
+  valueTo: "",
+  ...patch,
+});
+
+describe("buildBuilderQuery", () => {
+  it("emits typed conditions, sort and limit with inlined literals", () => {
+    const sql = buildBuilderQuery(
+      {
+        ...emptyBuilderState("episodes"),
+        columns: [{ table: "episodes", column: "title" }],
+        filters: [
+          filter({ operator: "contains", value: "50%_o'k" }),
+          filter({ column: "score", operator: "between", value: "1", valueTo: " 2.5 " }),
+          filter({ column: "created_at", operator: "is_null" }),
+          // Incomplete conditions are left out rather than producing broken SQL
+          filter({ column: "score", operator: "gt", value: "abc" }),
+        ],
+        sort: [{ table: "episodes", column: "score", direction: "desc" }],
+      },
+      schema
+    );
+    expect(sql).toBe(
+      [
+        'SELECT t0."title"',
+        'FROM "episodes" AS t0',
+        "WHERE t0.\"title\" ILIKE '%50\\%\\_o''k%'",
+        '  AND t0."score" BETWEEN 1 AND 2.5',
+        '  AND t0."created_at" IS NULL',
+        'ORDER BY t0."score" DESC',
+        "LIMIT 100",
+      ].join("\n")
+    );
+  });
+
+  it("lists every column of joined tables and aliases clashing names", () => {
+    const sql = buildBuilderQuery(
+      {
+        ...emptyBuilderState("episodes"),
+        joins: [
+          {
+            id: "j",
+            table: "tags",
+            type: "left",
+            on: { left: { table: "episodes", column: "id" }, column: "episode_id" },
+          },
+        ],
+        limit: null,
+      },
+      schema
+    );
+    expect(sql).toContain('t0."id" AS "episodes.id"');
+    expect(sql).toContain('t1."title" AS "tags.title"');
+    expect(sql).toContain('t0."score",');
+    expect(sql).toContain('LEFT JOIN "tags" AS t1 ON t1."episode_id" = t0."id"');
+    expect(sql).not.toContain("LIMIT");
+  });
+});
+
+describe("filterError", () => {
+  it("checks values against the column type", () => {
+    const score = schema[0].columns[2];
+    expect(filterError(filter({ column: "score", value: "x" }), score)).toBe("Must be a number");
+    expect(filterError(filter({ column: "score", value: "" }), score)).toBe("Enter a value");
+    expect(filterError(filter({ column: "score", operator: "not_null" }), score)).toBeNull();
+    expect(filterError(filter({ column: "gone" }), undefined)).toBe("gone no longer exists");
+  });
+});
+
+describe("suggestJoins", () => {
+  it("offers foreign keys and matching column names", () => {
+    const suggestions = suggestJoins(schema, ["episodes"]);
+    expect(suggestions).toEqual([
+      {
+        table: "memory.links",
+        on: { left: { table: "episodes", column: "id" }, column: "episode_id" },
+        reason: "foreign key",
+      },
+      {
+        table: "tags",
+        on: { left: { table: "episodes", column: "title" }, column: "title" },
+        reason: "matching name",
+      },
+    ]);
+    expect(suggestJoins(schema, ["tags"])).toContainEqual({
+      table: "episodes",
+      on: { left: { table: "tags", column: "episode_id" }, column: "id" },
+      reason: "matching name",
+    });
+  });
+});
+
+describe("removeJoin", () => {
+  it("drops chained joins and references to their columns", () => {
+    const state = removeJoin(
+      {
+        ...emptyBuilderState("episodes"),
+        joins: [
+          {
+            id: "a",
+            table: "tags",
+            type: "inner",
+            on: { left: { table: "episodes", column: "id" }, column: "episode_id" },
+          },
+          {
+            id: "b",
+            table: "memory.links",
+            type: "left",
+            on: { left: { table: "tags", column: "episode_id" }, column: "episode_id" },
+          },
+        ],
+        columns: [
+          { table: "episodes", column: "title" },
+          { table: "memory.links", column: "id" },
+        ],
+        filters: [filter({ table: "tags" })],
+      },
+      "a"
+    );
+    expect(state.joins).toEqual([]);
+    expect(state.columns).toEqual([{ table: "episodes", column: "title" }]);
+    expect(state.filters).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCreateTableDdl,
+  buildReferencedRowQuery,
+  buildReferencingRowsQuery,
+  foreignKeyByColumn,
+  formatBytes,
+  groupTables,
+  incomingReferences,
+  layoutErDiagram,
+} from "@/lib/schema";
+
+const column = (name: string, primary_key = false) => ({ name, type: "bigint", nullable: !primary_key, primary_key });
+
+const schema = [
+  { name: "notes", columns: [column("id", true)] },
+  {
+    name: "links",
+    columns: [column("id", true), column("episode_id"), column("label")],
+    foreign_keys: [{ name: "links_episode_fk", columns: ["episode_id"], references: { table: "episodes", columns: ["id"] } }],
+  },
+  {
+    name: "episodes",
+    columns: [column("id", true), column("parent_id")],
+    foreign_keys: [{ name: "episodes_parent_fk", columns: ["parent_id"], references: { table: "episodes", columns: ["id"] } }],
+  },
+];
+
+describe("schema", () => {
+  it("formats table sizes", () => {
+    expect(formatBytes(undefined)).toBeNull();
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 kB");
+    expect(formatBytes(250 * 1024 * 1024)).toBe("250 MB");
+  });
+
+  it("finds foreign keys pointing at a table, including self references", () => {
+    expect(incomingReferences(schema, "episodes").map((relationship) => relationship.from)).toEqual([
+      "links",
+      "episodes",
+    ]);
+    expect(incomingReferences(schema, "notes")).toEqual([]);
+  });
+
+  it("queries the row a foreign key points at and the rows pointing back", () => {
+    const links = schema[1];
+    const foreignKey = foreignKeyByColumn(links).get("episode_id");
+    expect(buildReferencedRowQuery(foreignKey, { id: 1, episode_id: "7" }, schema[2])).toEqual({
+      sql: 'SELECT * FROM "episodes" WHERE "id" = $1 LIMIT 1',
+      params: [{ type: "number", value: "7" }],
+    });
+    expect(buildReferencedRowQuery(foreignKey, { id: 1, episode_id: null }, schema[2])).toBeNull();
+
+    const [fromLinks] = incomingReferences(schema, "episodes");
+    expect(buildReferencingRowsQuery(fromLinks, { id: 7 }, links, 11)).toEqual({
+      sql: 'SELECT * FROM "links" WHERE "episode_id" = $1 LIMIT 11',
+      params: [{ type: "number", value: 7 }],
+    });
+  });
+
+  it("places related tables next to each other and anchors edges on key rows", () => {
+    const layout = layoutErDiagram(schema);
+    expect(layout.nodes.map((node) => node.table.name)).toEqual(["episodes", "links", "notes"]);
+    expect(layout.edges.map((edge) => edge.id)).toEqual(["links.links_episode_fk", "episodes.episodes_parent_fk"]);
+    // links sits right of episodes, so its edge leaves from its left side at the episode_id row
+    expect(layout.edges[0].path).toMatch(/^M 330 80 C/);
+
+    const keysOnly = layoutErDiagram(schema, { keysOnly: true });
+    expect(keysOnly.nodes[1].columns.map((col) => col.name)).toEqual(["id", "episode_id"]);
+  });
+
+  it("groups tables by schema or shared name prefix", () => {
+    expect(groupTables(["memory_links", "notes", "audit.events", "memory_episodes", "user_prefs"])).toEqual([
+      { name: "audit", tables: ["audit.events"] },
+      { name: "memory", tables: ["memory_episodes", "memory_links"] },
+      { name: null, tables: ["notes", "user_prefs"] },
+    ]);
+  });
+
+  it("rebuilds CREATE statements from the reported schema", () => {
+    const table = {
+      name: "memory.links",
+      comment: "Edges between episodes",
+      columns: [
+        { name: "id", type: "bigint", nullable: false, primary_key: true, default: "nextval('links_id_seq')" },
+        { name: "episode_id", type: "bigint", nullable: true, primary_key: false, comment: "It's the source" },
+      ],
+      indexes: [
+        { name: "links_pkey", columns: ["id"], unique: true, primary: true },
+        { name: "links_episode_idx", columns: ["episode_id"], unique: false, method: "btree" },
+      ],
+      foreign_keys: [
+        { name: "links_episode_fk", columns: ["episode_id"], references: { table: "memory.episodes", columns: ["id"] }, on_delete: "CASCADE" },
+      ],
+    };
+    expect(buildCreateTableDdl(table)).toBe(
+      [
+        'CREATE TABLE "memory"."links" (',
+        '  "id" bigint NOT NULL DEFAULT nextval(\'links_id_seq\'),',
+        '  "episode_id" bigint,',
+        '  PRIMARY KEY ("id"),',
+        '  CONSTRAINT "links_episode_fk" FOREIGN KEY ("episode_id") REFERENCES "memory"."episodes" ("id") ON DELETE CASCADE',
+        ");",
+        "",
+        'CREATE INDEX "links_episode_idx" ON "memory"."links" USING btree ("episode_id");',
+        "",
+        'COMMENT ON TABLE "memory"."links" IS \'Edges between episodes\';',
+        "",
+        'COMMENT ON COLUMN "memory"."links"."episode_id" IS \'It\'\'s the source\';',
+        "",
+      ].join("\n")
+    );
+  });
+});
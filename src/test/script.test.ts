@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { createScriptRun, runScript, scriptSummary, type ScriptRun } from "@/lib/script";
+
+const ok = (rowCount: number) => ({ columns: [], rows: [], rowCount, executionTime: 5 });
+
+async function run(continueOnError: boolean, failing: number[], stopAfter = Infinity) {
+  const executed: number[] = [];
+  const changes: ScriptRun[] = [];
+  const finished = await runScript(createScriptRun("run", ["a", "b", "c"], continueOnError), {
+    execute: async (index) => {
+      executed.push(index);
+      if (failing.includes(index)) throw new Error(`boom ${index}`);
+      return ok(index);
+    },
+    onChange: (next) => changes.push(next),
+    shouldStop: () => executed.length >= stopAfter,
+  });
+  return { executed, changes, finished };
+}
+
+describe("runScript", () => {
+  it("runs statements in order and reports each result", async () => {
+    const { executed, changes, finished } = await run(false, []);
+    expect(executed).toEqual([0, 1, 2]);
+    expect(changes[0].steps.map((step) => step.status)).toEqual(["running", "pending", "pending"]);
+    expect(finished.finished).toBe(true);
+    expect(finished.steps.map((step) => step.result?.rowCount)).toEqual([0, 1, 2]);
+    expect(scriptSummary(finished)).toEqual({
+      succeeded: 3,
+      failed: 0,
+      skipped: 0,
+      executionTime: 15,
+    });
+  });
+
+  it("skips the rest after a failure unless continuing on errors", async () => {
+    const stopped = await run(false, [1]);
+    expect(stopped.executed).toEqual([0, 1]);
+    expect(stopped.finished.steps.map((step) => step.status)).toEqual([
+      "success",
+      "error",
+      "skipped",
+    ]);
+    expect(stopped.finished.steps[1].error).toBe("boom 1");
+
+    const continued = await run(true, [1]);
+    expect(continued.executed).toEqual([0, 1, 2]);
+    expect(scriptSummary(continued.finished)).toMatchObject({ succeeded: 2, failed: 1 });
+  });
+
+  it("skips the remaining statements once stopped", async () => {
+    const { executed, finished } = await run(true, [], 1);
+    expect(executed).toEqual([0]);
+    expect(scriptSummary(finished)).toMatchObject({ succeeded: 1, skipped: 2 });
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect } from "vitest";
+import {
+  bindNamedParams,
+  buildBulkDelete,
+  buildBulkUpdate,
+  buildCountQuery,
+  buildDelete,
+  buildInsert,
+  buildPageQuery,
+  buildUpdate,
+  classifySql,
+  extractNamedParams,
+  paramFromCell,
+  paramFromInput,
+  quoteIdentifier,
+  quoteTableName,
+  splitSqlStatements,
+  toSqlLiteral,
+} from "@/lib/sql";
+
+const columns = [
+  { name: "id", type: "integer" },
+  { name: "content", type: "text" },
+  { name: "metadata", type: "jsonb" },
+];
+
+describe("sql", () => {
+  it("quotes identifiers and schema-qualified table names", () => {
+    expect(quoteIdentifier('we"ird')).toBe('"we""ird"');
+    expect(quoteTableName("memory.episodes")).toBe('"memory"."episodes"');
+  });
+
+  it("coerces form input into typed params", () => {
+    expect(paramFromInput("", "text")).toEqual({ type: "null", value: null });
+    expect(paramFromInput("42", "bigint")).toEqual({ type: "number", value: "42" });
+    expect(() => paramFromInput("4x2", "bigint")).toThrow("not a number");
+    expect(paramFromInput("TRUE", "boolean")).toEqual({ type: "boolean", value: true });
+    expect(paramFromInput('{"a":1}', "json")).toEqual({ type: "json", value: '{"a":1}' });
+  });
+
+  it("keeps empty strings distinct from NULL for grid cells", () => {
+    expect(paramFromCell(null, "text")).toEqual({ type: "null", value: null });
+    expect(paramFromCell("", "text")).toEqual({ type: "text", value: "" });
+    expect(paramFromCell("false", "boolean")).toEqual({ type: "boolean", value: false });
+    expect(() => paramFromCell("", "integer")).toThrow("is not a number");
+    expect(() => paramFromCell("12abc", "numeric")).toThrow("is not a number");
+    expect(() => paramFromCell("yes", "boolean")).toThrow("is not true or false");
+    expect(paramFromCell("1 day", "interval")).toEqual({ type: "text", value: "1 day" });
+  });
+
+  it("builds inserts with placeholders for every value", () => {
+    const statement = buildInsert("episodes", [
+      { column: columns[1], param: paramFromInput("it's ünïcode", "text") },
+      { column: columns[2], param: paramFromInput('{"k":"v"}', "jsonb") },
+    ]);
+    expect(statement.sql).toBe('INSERT INTO "episodes" ("content", "metadata") VALUES ($1, $2)');
+    expect(statement.params).toEqual([
+      { type: "text", value: "it's ünïcode" },
+      { type: "json", value: '{"k":"v"}' },
+    ]);
+  });
+
+  it("inserts DEFAULT VALUES when every column is left to its default", () => {
+    expect(buildInsert("memory.episodes", [])).toEqual({
+      sql: 'INSERT INTO "memory"."episodes" DEFAULT VALUES',
+      params: [],
+    });
+  });
+
+  it("continues placeholder numbering into the WHERE clause", () => {
+    const statement = buildUpdate(
+      "episodes",
+      [{ column: columns[1], param: paramFromInput("updated", "text") }],
+      [columns[0]],
+      { id: 7, content: "old" }
+    );
+    expect(statement?.sql).toBe('UPDATE "episodes" SET "content" = $1 WHERE "id" = $2');
+    expect(statement?.params?.[1]).toEqual({ type: "number", value: 7 });
+  });
+
+  it("matches NULL keys with IS NULL and serializes object values as JSON", () => {
+    const statement = buildDelete("episodes", [columns[0], columns[2]], {
+      id: null,
+      metadata: { k: "v" },
+    });
+    expect(statement?.sql).toBe('DELETE FROM "episodes" WHERE "id" IS NULL AND "metadata" = $1');
+    expect(statement?.params).toEqual([{ type: "json", value: '{"k":"v"}' }]);
+  });
+
+  it("keeps big keys and precise numerics as entered, and '' apart from NULL", () => {
+    const statement = buildDelete("episodes", [columns[0]], { id: "9007199254740993" });
+    expect(statement?.params).toEqual([{ type: "number", value: "9007199254740993" }]);
+    expect(paramFromInput("12345678901234567890.123", "numeric")).toEqual({
+      type: "number",
+      value: "12345678901234567890.123",
+    });
+
+    const keyless = buildDelete("notes", [{ name: "k", type: "text" }], { k: "" });
+    expect(keyless).toEqual({
+      sql: 'DELETE FROM "notes" WHERE "k" = $1',
+      params: [{ type: "text", value: "" }],
+    });
+  });
+
+  it("changes selected rows by key in one statement", () => {
+    const rows = buildBulkDelete("episodes", [columns[0]], {
+      rows: [{ id: 1 }, { id: null }, { id: 3 }],
+    });
+    expect(rows?.sql).toBe('DELETE FROM "episodes" WHERE "id" IN ($1, $2) OR ("id" IS NULL)');
+    expect(rows?.params).toEqual([
+      { type: "number", value: 1 },
+      { type: "number", value: 3 },
+    ]);
+
+    const composite = buildBulkDelete("episodes", [columns[0], columns[1]], {
+      rows: [{ id: 1, content: "a" }],
+    });
+    expect(composite?.sql).toBe('DELETE FROM "episodes" WHERE ("id", "content") IN (($1, $2))');
+    expect(buildBulkDelete("episodes", [columns[0]], { rows: [] })).toBeNull();
+  });
+
+  it("changes every row a query returns, keeping the query's params first", () => {
+    const statement = buildBulkUpdate(
+      "episodes",
+      [{ column: columns[1], param: paramFromInput("archived", "text") }],
+      [columns[0]],
+      {
+        query: {
+          sql: "SELECT * FROM episodes WHERE content = $1;",
+          params: [{ type: "text", value: "x" }],
+        },
+      }
+    );
+    expect(statement?.sql).toBe(
+      'UPDATE "episodes" SET "content" = $2 WHERE "id" IN ' +
+        '(SELECT "id" FROM (\nSELECT * FROM episodes WHERE content = $1\n) AS selection_source)'
+    );
+    expect(statement?.params?.map((param) => param.value)).toEqual(["x", "archived"]);
+  });
+
+  it("wraps queries for server-side paging, sorting and counting", () => {
+    expect(
+      buildPageQuery("SELECT * FROM episodes;", {
+        limit: 20,
+        offset: 40,
+        orderBy: [{ column: "created_at", direction: "desc" }],
+      })
+    ).toBe(
+      'SELECT * FROM (\nSELECT * FROM episodes\n) AS page_source ORDER BY "created_at" DESC LIMIT 20 OFFSET 40'
+    );
+    expect(buildPageQuery("SELECT * FROM episodes", { orderBy: [{ column: "id", direction: "asc" }] })).toBe(
+      'SELECT * FROM (\nSELECT * FROM episodes\n) AS page_source ORDER BY "id" ASC'
+    );
+    expect(buildCountQuery("SELECT id FROM episodes -- recent")).toBe(
+      "SELECT COUNT(*) AS total FROM (\nSELECT id FROM episodes -- recent\n) AS count_source"
+    );
+  });
+
+  it("inlines result values as SQL literals", () => {
+    expect(toSqlLiteral(null)).toBe("NULL");
+    expect(toSqlLiteral(1.5)).toBe("1.5");
+    expect(toSqlLiteral(false)).toBe("FALSE");
+    expect(toSqlLiteral("it's")).toBe("'it''s'");
+    expect(toSqlLiteral({ tags: ["a"] })).toBe(`'{"tags":["a"]}'`);
+  });
+
+  it("finds named params outside of literals, comments and casts", () => {
+    const sql =
+      "SELECT ':skip', \"a:b\" FROM t -- :comment\nWHERE id = :id AND x::int > :min AND y = :id";
+    expect(extractNamedParams(sql)).toEqual(["id", "min"]);
+
+    const statement = bindNamedParams(sql, {
+      id: { type: "number", value: 3 },
+      min: { type: "number", value: 1 },
+    });
+    expect(statement.sql).toBe(
+      "SELECT ':skip', \"a:b\" FROM t -- :comment\nWHERE id = $1 AND x::int > $2 AND y = $1"
+    );
+    expect(statement.params).toHaveLength(2);
+  });
+
+  it("splits scripts on semicolons outside of literals and comments", () => {
+    expect(
+      splitSqlStatements("SELECT ';'; -- a; comment\nINSERT INTO t VALUES ($$a;b$$);;")
+    ).toEqual(["SELECT ';'", "-- a; comment\nINSERT INTO t VALUES ($$a;b$$)"]);
+    expect(splitSqlStatements("SELECT E'it\\'s; fine'; SELECT 2")).toEqual([
+      "SELECT E'it\\'s; fine'",
+      "SELECT 2",
+    ]);
+    expect(splitSqlStatements("SELECT 'a\\'; SELECT e'\\\\'; SELECT 3")).toEqual([
+      "SELECT 'a\\'",
+      "SELECT e'\\\\'",
+      "SELECT 3",
+    ]);
+    const fn =
+      "CREATE FUNCTION one() RETURNS int AS $fn1$ BEGIN RETURN 1; END $fn1$ LANGUAGE plpgsql";
+    expect(splitSqlStatements(`${fn}; SELECT one()`)).toEqual([fn, "SELECT one()"]);
+  });
+
+  it("flags DDL, unbounded writes and multi-statement scripts", () => {
+    expect(classifySql("SELECT * FROM t WHERE note = 'DELETE FROM t'")).toMatchObject({
+      isReadOnly: true,
+      reasons: [],
+    });
+    expect(classifySql("UPDATE t SET a = 1 WHERE id = 2").reasons).toEqual([]);
+
+    const unbounded = classifySql('DELETE FROM "memory"."episodes"');
+    expect(unbounded.isReadOnly).toBe(false);
+    expect(unbounded.reasons).toHaveLength(1);
+    expect(unbounded.confirmationPhrase).toBe("memory.episodes");
+
+    expect(classifySql("DROP TABLE IF EXISTS links").confirmationPhrase).toBe("links");
+    expect(classifySql("WITH d AS (DELETE FROM t RETURNING *) SELECT 1").statements[0]).toMatchObject({
+      kind: "dml",
+      unbounded: true,
+    });
+    expect(classifySql("EXPLAIN SELECT 1").isReadOnly).toBe(true);
+    expect(classifySql("EXPLAIN ANALYZE DELETE FROM t").isReadOnly).toBe(false);
+    expect(classifySql("INSERT INTO t VALUES (1); INSERT INTO t VALUES (2)").reasons).toEqual([
+      "Script runs 2 statements, 2 of them writes",
+    ]);
+  });
+
+  it("judges statements by their own clauses, not their subqueries", () => {
+    const update = classifySql("UPDATE t SET x = (SELECT avg(x) FROM t t2 WHERE t2.g = t.g)");
+    expect(update.statements[0]).toMatchObject({ verb: "UPDATE", target: "t", unbounded: true });
+    expect(update.reasons).toHaveLength(1);
+
+    const locking = classifySql("WITH x AS (SELECT 1) SELECT * FROM t FOR UPDATE");
+    expect(locking.statements[0]).toMatchObject({ kind: "read", verb: "SELECT", unbounded: false });
+    expect(locking.reasons).toEqual([]);
+
+    expect(
+      classifySql("WITH d AS (SELECT id FROM t) DELETE FROM t USING d WHERE t.id = d.id")
+        .statements[0]
+    ).toMatchObject({ kind: "dml", verb: "DELETE", target: "t", unbounded: false });
+
+    const into = classifySql("SELECT * INTO TEMP archived FROM t");
+    expect(into.isReadOnly).toBe(false);
+    expect(into.statements[0]).toMatchObject({ kind: "ddl", verb: "SELECT INTO" });
+    expect(into.confirmationPhrase).toBe("archived");
+    expect(classifySql("SET default_transaction_read_only = off").isReadOnly).toBe(false);
+  });
+});
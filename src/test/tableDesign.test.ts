@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import type { SchemaTable } from "@/hooks/useApi";
+import { buildDesignStatements, designColumn, diffDesign, validateDesign } from "@/lib/tableDesign";
+
+const episodes: SchemaTable = {
+  name: "memory.episodes",
+  columns: [
+    { name: "id", type: "bigint", nullable: false, primary_key: true, default: null },
+    { name: "content", type: "text", nullable: true, primary_key: false, default: null },
+    { name: "score", type: "real", nullable: true, primary_key: false, default: "0" },
+  ],
+  indexes: [{ name: "episodes_pk", columns: ["id"], unique: true, primary: true }],
+};
+
+const designOf = (table: SchemaTable) => ({
+  name: table.name,
+  columns: table.columns.map((column, index) => designColumn(`c${index}`, column)),
+});
+
+describe("tableDesign", () => {
+  it("creates a new table from the designed columns", () => {
+    const design = {
+      name: "memory.experiments",
+      columns: [
+        {
+          ...designColumn("a"),
+          name: "id",
+          type: "uuid",
+          primaryKey: true,
+          default: "gen_random_uuid()",
+        },
+        { ...designColumn("b"), name: "label", nullable: false },
+      ],
+    };
+    expect(validateDesign(design, [episodes], null)).toEqual([]);
+    expect(buildDesignStatements(design, null)).toEqual([
+      [
+        'CREATE TABLE "memory"."experiments" (',
+        '  "id" uuid NOT NULL DEFAULT gen_random_uuid(),',
+        '  "label" text NOT NULL,',
+        '  PRIMARY KEY ("id")',
+        ")",
+      ].join("\n"),
+    ]);
+    expect(diffDesign(design, null).map((change) => change.kind)).toEqual(["add", "add"]);
+  });
+
+  it("rejects unnamed, duplicate and existing names", () => {
+    const design = {
+      name: "memory.episodes",
+      columns: [
+        designColumn("a"),
+        { ...designColumn("b"), name: "x" },
+        { ...designColumn("c"), name: "x" },
+      ],
+    };
+    expect(validateDesign(design, [episodes], null)).toEqual([
+      "A table named memory.episodes already exists",
+      "Column 1 needs a name",
+      "x appears more than once",
+    ]);
+    expect(validateDesign(designOf(episodes), [episodes], episodes)).toEqual([]);
+  });
+
+  it("alters only what changed, dropping first and renaming on its own", () => {
+    const design = designOf(episodes);
+    design.columns[1] = { ...design.columns[1], name: "body", nullable: false };
+    design.columns[2] = { ...design.columns[2], type: "double precision", default: "" };
+    design.columns.splice(0, 1);
+    design.columns.push({ ...designColumn("new"), name: "tags", type: "text[]" });
+
+    expect(buildDesignStatements(designOf(episodes), episodes)).toEqual([]);
+    expect(buildDesignStatements(design, episodes)).toEqual([
+      'ALTER TABLE "memory"."episodes"\n  DROP CONSTRAINT "episodes_pk",\n  DROP COLUMN "id"',
+      'ALTER TABLE "memory"."episodes" RENAME COLUMN "content" TO "body"',
+      [
+        'ALTER TABLE "memory"."episodes"',
+        '  ALTER COLUMN "body" SET NOT NULL,',
+        '  ALTER COLUMN "score" TYPE double precision USING "score"::double precision,',
+        '  ALTER COLUMN "score" DROP DEFAULT,',
+        '  ADD COLUMN "tags" text[]',
+      ].join("\n"),
+    ]);
+    expect(diffDesign(design, episodes)).toEqual([
+      { kind: "drop", name: "id", details: [] },
+      { kind: "alter", name: "body", details: ["renamed from content", "NOT NULL"] },
+      { kind: "alter", name: "score", details: ["type real → double precision", "no default"] },
+      { kind: "add", name: "tags", details: ["text[]"] },
+    ]);
+  });
+
+  it("replaces the primary key when its columns change", () => {
+    const design = designOf(episodes);
+    design.columns[1] = { ...design.columns[1], primaryKey: true, nullable: false };
+    expect(buildDesignStatements(design, episodes)).toEqual([
+      'ALTER TABLE "memory"."episodes"\n  DROP CONSTRAINT "episodes_pk"',
+      'ALTER TABLE "memory"."episodes"\n  ALTER COLUMN "content" SET NOT NULL,\n  ADD PRIMARY KEY ("id", "content")',
+    ]);
+  });
+});
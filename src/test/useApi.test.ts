@@ -0,0 +1,119 @@
+import { createElement, type ReactNode } from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { cancelQuery, runStatement, useQuery_ } from "@/hooks/useApi";
+import { useAppStore } from "@/stores/appStore";
+import { useConsoleStore } from "@/stores/consoleStore";
+
+interface Call {
+  url: string;
+  body: Record<string, unknown>;
+}
+
+// Statements stay in flight until aborted, like a slow query; cancel requests succeed at once
+function mockFetch() {
+  const calls: Call[] = [];
+  const fetchMock = vi.fn((url: string, options: RequestInit) => {
+    calls.push({ url, body: JSON.parse(options.body as string) });
+    if (url.endsWith("/query/cancel")) return Promise.resolve(new Response("{}"));
+    return new Promise<Response>((_, reject) =>
+      options.signal?.addEventListener("abort", () =>
+        reject(new DOMException("The operation was aborted", "AbortError"))
+      )
+    );
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return calls;
+}
+
+const running = () => useConsoleStore.getState().runningQueries;
+
+describe("runStatement", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useAppStore.getState().setConfig({ apiBaseUrl: "http://api", queryTimeoutSeconds: 0 });
+    useConsoleStore.setState({ runningQueries: [] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("aborts the request and asks the backend to stop on cancel", async () => {
+    const calls = mockFetch();
+    const result = runStatement("/query", { sql: "SELECT pg_sleep(60)" }, "SELECT", "tab");
+    const [query] = running();
+    expect(query).toMatchObject({ tabId: "tab", sql: "SELECT" });
+    expect(calls[0].body.query_id).toBe(query.id);
+
+    cancelQuery(query.id);
+    await expect(result).rejects.toThrow("Query cancelled");
+    expect(calls[1]).toEqual({ url: "http://api/query/cancel", body: { query_id: query.id } });
+    expect(running()).toEqual([]);
+  });
+
+  it("cancels the statement once the timeout passes", async () => {
+    useAppStore.getState().setConfig({ queryTimeoutSeconds: 5 });
+    const calls = mockFetch();
+    const result = runStatement("/query", { sql: "SELECT 1" }, "SELECT 1", "tab");
+    const outcome = expect(result).rejects.toThrow("Query timed out after 5s");
+    expect(calls[0].body.timeout_ms).toBe(5000);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await outcome;
+    expect(calls[1].url).toBe("http://api/query/cancel");
+    expect(running()).toEqual([]);
+  });
+
+  it("clears the running query and its timeout however the statement ends", async () => {
+    useAppStore.getState().setConfig({ queryTimeoutSeconds: 30 });
+    const timers = vi.getTimerCount();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.resolve(new Response("{}", { status: 500 })))
+    );
+    const result = runStatement("/query", { sql: "SELECT x" }, "SELECT x", "tab");
+    expect(running()).toHaveLength(1);
+    expect(vi.getTimerCount()).toBe(timers + 1);
+    await expect(result).rejects.toThrow("HTTP error! status: 500");
+    expect(running()).toEqual([]);
+    expect(vi.getTimerCount()).toBe(timers);
+  });
+
+  it("does not list background reads as running", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.resolve(new Response('{"rows":[]}')))
+    );
+    const result = runStatement("/query", { sql: "SELECT COUNT(*) FROM t" }, "SELECT COUNT(*)");
+    expect(running()).toEqual([]);
+    await expect(result).resolves.toEqual({ rows: [] });
+  });
+});
+
+describe("useQuery_", () => {
+  beforeEach(() => {
+    useAppStore.getState().setConfig({ apiBaseUrl: "http://api", queryTimeoutSeconds: 0 });
+    useConsoleStore.setState({ runningQueries: [] });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  const wrapper = ({ children }: { children: ReactNode }) =>
+    createElement(QueryClientProvider, { client: new QueryClient() }, children);
+
+  it("lists a SELECT the user ran in its tab, where it can be cancelled", async () => {
+    mockFetch();
+    const { result } = renderHook(() => useQuery_("SELECT * FROM t", true, "tab"), { wrapper });
+    await waitFor(() => expect(running()).toHaveLength(1));
+    expect(running()[0]).toMatchObject({ tabId: "tab", sql: "SELECT * FROM t" });
+
+    cancelQuery(running()[0].id);
+    await waitFor(() => expect(result.current.error?.message).toBe("Query cancelled"));
+    expect(running()).toEqual([]);
+  });
+});